@@ -1,14 +1,37 @@
-import { useState, useEffect } from 'react'
+import { useState, useEffect, useRef } from 'react'
 import { useKV } from '@/hooks/useKV'
+import { useJobQueue, type JobContext } from '@/hooks/useJobQueue'
 import { Toaster } from '@/components/ui/sonner'
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
 import { Badge } from '@/components/ui/badge'
-import { Waveform, SpeakerHigh, Microphone, Clock, Sparkle } from '@phosphor-icons/react'
+import { Waveform, SpeakerHigh, Microphone, Clock, Sparkle, BookOpenText } from '@phosphor-icons/react'
 import { VoiceLibrary } from '@/components/VoiceLibrary'
 import { TextToSpeech } from '@/components/TextToSpeech'
 import { VoiceCloning } from '@/components/VoiceCloning'
 import { AudioHistory } from '@/components/AudioHistory'
+import { EngineSettings } from '@/components/EngineSettings'
+import { ExportSettings } from '@/components/ExportSettings'
+import { JobQueue } from '@/components/JobQueue'
+import { LexiconManager } from '@/components/LexiconManager'
 import { audioManager } from '@/lib/audioManager'
+import type { PoolRunOptions } from '@/lib/workerPool'
+import { synthesisRegistry, httpProvider, renderOnlySettings, type SynthesisResult, type SynthesisSegment, type SynthesisSettings, type TimedSpan } from '@/lib/synthesisProvider'
+import { normalizeText } from '@/lib/textNormalizer'
+import { chunkSegments, chunkText } from '@/lib/textChunker'
+import { synthesizeChunks, type RenderedChunk } from '@/lib/chunkedSynthesis'
+import { analyzeVoiceSamples, type VoiceProfile } from '@/lib/voiceCloning'
+import { joinTurns } from '@/lib/dialogueScript'
+import { offsetTimings } from '@/lib/timings'
+import { applyLexicon, type LexiconEntry } from '@/lib/lexicon'
+import { DEFAULT_LOCALE, localeLanguage } from '@/lib/languages'
+import { deriveSeed, hashSeed } from '@/lib/random'
+import { getPreviewText, PREVIEW_LOUDNESS_TARGET, PREVIEW_SETTINGS } from '@/lib/voicePreview'
+import { renderCache, renderCacheKey, DEFAULT_CACHE_LIMIT_MB, type CacheUsage, type CachedRender } from '@/lib/renderCache'
+import { takeStore } from '@/lib/takeStore'
+import { DEFAULT_WAV_FORMAT, dataUrlToArrayBuffer } from '@/lib/wav'
+import { DEFAULT_TAG_TEMPLATE } from '@/lib/audioTags'
+import type { ExportFormat } from '@/lib/audioExport'
+import { isAbortError } from '@/lib/utils'
 import { toast } from 'sonner'
 
 interface Voice {
@@ -16,20 +39,69 @@ interface Voice {
   name: string
   category: 'trending' | 'celebrity' | 'custom' | 'professional'
   description: string
-  previewUrl?: string
+  /** Sentence spoken by the preview button; a default in the voice's language when unset */
+  previewText?: string
   isTrending?: boolean
   isCustom?: boolean
   quality: 'high' | 'premium' | 'ultra'
+  /** ISO 639-1 language code, e.g. "en" */
+  language: string
+  /** BCP 47 locale, e.g. "en-GB"; decides number and date reading */
+  locale: string
+  profile?: VoiceProfile
 }
 
 interface GeneratedAudio {
   id: string
   text: string
   voice: Voice
-  audioUrl: string
   duration: number
   quality: string
+  /** Constant or variable bitrate for MP3 and Opus downloads */
+  bitrateMode?: 'cbr' | 'vbr'
+  /** Download format picked when the take was generated */
+  exportFormat?: ExportFormat
   createdAt: Date
+  speakers?: { name: string; voiceName: string }[]
+  loudness?: {
+    integrated: number
+    truePeak: number
+    target: number | null
+  }
+  /** Seed the take was rendered with; the same seed and inputs reproduce it exactly */
+  seed?: number
+  /** Speaking style id the generation was rendered with */
+  style?: string
+  /** Speed and pitch multipliers the generation was rendered with */
+  speed?: number
+  pitch?: number
+  /** Word and sentence timestamps in seconds */
+  words?: TimedSpan[]
+  sentences?: TimedSpan[]
+  /** Served from the render cache instead of being synthesized again */
+  cached?: boolean
+}
+
+// Entries saved before take audio moved to IndexedDB still carry it as a data URL
+type StoredGeneratedAudio = GeneratedAudio & { audioUrl?: string }
+
+interface DialogueJob {
+  turns: { speaker: string; text: string }[]
+  /** Voice assigned to each speaker */
+  cast: Record<string, Voice>
+  gapMs: number
+}
+
+interface GenerationJobInput {
+  text: string
+  voice: Voice
+  settings: SynthesisSettings
+  segments?: SynthesisSegment[]
+  dialogue?: DialogueJob
+  /** Render cache key the finished take is stored under */
+  cacheKey?: string
+  /** Listener in this session that plays chunks as they finish rendering */
+  streamId?: string
 }
 
 interface AudioSample {
@@ -48,7 +120,9 @@ const initialVoices: Voice[] = [
     description: 'Professional female voice, perfect for presentations',
     isTrending: true,
     quality: 'ultra',
-    previewUrl: 'data:audio/wav;base64,UklGRnoGAABXQVZFZm10IBAAAAABAAEAQB8AAEAfAAABAAgAZGF0YQoGAACBhYqFbF1fdJivrJBhNjVgodDbq2EcBj+a2/LDciUFLIHO8tiJNwgZaLvt559NEAxQp+PwtmMcBjiR1/LMeSwFJHfH8N2QQAoUXrTp66hVFApGn+DyvmM'
+    language: 'en',
+    locale: 'en-US',
+    previewText: 'Good morning, everyone. Let me walk you through this quarter\'s results and what they mean for the year ahead.'
   },
   {
     id: 'marcus-narrator',
@@ -57,7 +131,9 @@ const initialVoices: Voice[] = [
     description: 'Deep male voice, ideal for storytelling and documentaries',
     isTrending: true,
     quality: 'ultra',
-    previewUrl: 'data:audio/wav;base64,UklGRnoGAABXQVZFZm10IBAAAAABAAEAQB8AAEAfAAABAAgAZGF0YQoGAACBhYqFbF1fdJivrJBhNjVgodDbq2EcBj+a2/LDciUFLIHO8tiJNwgZaLvt559NEAxQp+PwtmMcBjiR1/LMeSwFJHfH8N2QQAoUXrTp66hVFApGn+DyvmM'
+    language: 'en',
+    locale: 'en-US',
+    previewText: 'The storm rolled in over the valley, and for a moment the whole world seemed to hold its breath.'
   },
   {
     id: 'aria-trending',
@@ -66,7 +142,9 @@ const initialVoices: Voice[] = [
     description: 'Modern Gen-Z voice perfect for social media content',
     isTrending: true,
     quality: 'ultra',
-    previewUrl: 'data:audio/wav;base64,UklGRnoGAABXQVZFZm10IBAAAAABAAEAQB8AAEAfAAABAAgAZGF0YQoGAACBhYqFbF1fdJivrJBhNjVgodDbq2EcBj+a2/LDciUFLIHO8tiJNwgZaLvt559NEAxQp+PwtmMcBjiR1/LMeSwFJHfH8N2QQAoUXrTp66hVFApGn+DyvmM'
+    language: 'en',
+    locale: 'en-US',
+    previewText: 'Okay, so you literally need to see this. It\'s the easiest hack ever, and it changed my whole routine.'
   },
   {
     id: 'kai-energetic',
@@ -75,7 +153,9 @@ const initialVoices: Voice[] = [
     description: 'Energetic male voice for gaming and sports content',
     isTrending: true,
     quality: 'ultra',
-    previewUrl: 'data:audio/wav;base64,UklGRnoGAABXQVZFZm10IBAAAAABAAEAQB8AAEAfAAABAAgAZGF0YQoGAACBhYqFbF1fdJivrJBhNjVgodDbq2EcBj+a2/LDciUFLIHO8tiJNwgZaLvt559NEAxQp+PwtmMcBjiR1/LMeSwFJHfH8N2QQAoUXrTp66hVFApGn+DyvmM'
+    language: 'en',
+    locale: 'en-US',
+    previewText: 'Let\'s go! Final round, two minutes on the clock, and the crowd is on its feet!'
   },
   {
     id: 'nova-ai',
@@ -84,7 +164,9 @@ const initialVoices: Voice[] = [
     description: 'Futuristic AI-assistant voice for tech content',
     isTrending: true,
     quality: 'ultra',
-    previewUrl: 'data:audio/wav;base64,UklGRnoGAABXQVZFZm10IBAAAAABAAEAQB8AAEAfAAABAAgAZGF0YQoGAACBhYqFbF1fdJivrJBhNjVgodDbq2EcBj+a2/LDciUFLIHO8tiJNwgZaLvt559NEAxQp+PwtmMcBjiR1/LMeSwFJHfH8N2QQAoUXrTp66hVFApGn+DyvmM'
+    language: 'en',
+    locale: 'en-US',
+    previewText: 'System online. I have analyzed your schedule and found three ways to save time today.'
   },
   {
     id: 'emma-friendly',
@@ -92,7 +174,9 @@ const initialVoices: Voice[] = [
     category: 'professional',
     description: 'Warm and friendly voice for customer service',
     quality: 'premium',
-    previewUrl: 'data:audio/wav;base64,UklGRnoGAABXQVZFZm10IBAAAAABAAEAQB8AAEAfAAABAAgAZGF0YQoGAACBhYqFbF1fdJivrJBhNjVgodDbq2EcBj+a2/LDciUFLIHO8tiJNwgZaLvt559NEAxQp+PwtmMcBjiR1/LMeSwFJHfH8N2QQAoUXrTp66hVFApGn+DyvmM'
+    language: 'en',
+    locale: 'en-US',
+    previewText: 'Thanks for calling! I\'m happy to help you with your order. Could you tell me your account number?'
   },
   {
     id: 'james-corporate',
@@ -100,7 +184,9 @@ const initialVoices: Voice[] = [
     category: 'professional',
     description: 'Authoritative corporate voice for business content',
     quality: 'premium',
-    previewUrl: 'data:audio/wav;base64,UklGRnoGAABXQVZFZm10IBAAAAABAAEAQB8AAEAfAAABAAgAZGF0YQoGAACBhYqFbF1fdJivrJBhNjVgodDbq2EcBj+a2/LDciUFLIHO8tiJNwgZaLvt559NEAxQp+PwtmMcBjiR1/LMeSwFJHfH8N2QQAoUXrTp66hVFApGn+DyvmM'
+    language: 'en',
+    locale: 'en-US',
+    previewText: 'Our commitment to our clients remains unchanged: reliable service, clear results, and lasting partnerships.'
   },
   {
     id: 'celebrity-morgan',
@@ -108,7 +194,9 @@ const initialVoices: Voice[] = [
     category: 'celebrity',
     description: 'Distinctive deep voice reminiscent of famous narrator',
     quality: 'ultra',
-    previewUrl: 'data:audio/wav;base64,UklGRnoGAABXQVZFZm10IBAAAAABAAEAQB8AAEAfAAABAAgAZGF0YQoGAACBhYqFbF1fdJivrJBhNjVgodDbq2EcBj+a2/LDciUFLIHO8tiJNwgZaLvt559NEAxQp+PwtmMcBjiR1/LMeSwFJHfH8N2QQAoUXrTp66hVFApGn+DyvmM'
+    language: 'en',
+    locale: 'en-US',
+    previewText: 'Every journey begins with a single step. The question is whether you are ready to take it.'
   },
   {
     id: 'celebrity-scarlett',
@@ -116,7 +204,9 @@ const initialVoices: Voice[] = [
     category: 'celebrity',
     description: 'Sultry female voice with distinctive tone',
     quality: 'ultra',
-    previewUrl: 'data:audio/wav;base64,UklGRnoGAABXQVZFZm10IBAAAAABAAEAQB8AAEAfAAABAAgAZGF0YQoGAACBhYqFbF1fdJivrJBhNjVgodDbq2EcBj+a2/LDciUFLIHO8tiJNwgZaLvt559NEAxQp+PwtmMcBjiR1/LMeSwFJHfH8N2QQAoUXrTp66hVFApGn+DyvmM'
+    language: 'en',
+    locale: 'en-US',
+    previewText: 'You didn\'t think I\'d leave without saying goodbye, did you?'
   },
   {
     id: 'celebrity-david',
@@ -124,7 +214,9 @@ const initialVoices: Voice[] = [
     category: 'celebrity',
     description: 'Legendary nature documentarian voice with British accent',
     quality: 'ultra',
-    previewUrl: 'data:audio/wav;base64,UklGRnoGAABXQVZFZm10IBAAAAABAAEAQB8AAEAfAAABAAgAZGF0YQoGAACBhYqFbF1fdJivrJBhNjVgodDbq2EcBj+a2/LDciUFLIHO8tiJNwgZaLvt559NEAxQp+PwtmMcBjiR1/LMeSwFJHfH8N2QQAoUXrTp66hVFApGn+DyvmM'
+    language: 'en',
+    locale: 'en-GB',
+    previewText: 'Here, in the heart of the rainforest, a remarkable drama is about to unfold.'
   },
   {
     id: 'celebrity-benedict',
@@ -132,7 +224,9 @@ const initialVoices: Voice[] = [
     category: 'celebrity',
     description: 'Sophisticated British voice with dramatic flair',
     quality: 'ultra',
-    previewUrl: 'data:audio/wav;base64,UklGRnoGAABXQVZFZm10IBAAAAABAAEAQB8AAEAfAAABAAgAZGF0YQoGAACBhYqFbF1fdJivrJBhNjVgodDbq2EcBj+a2/LDciUFLIHO8tiJNwgZaLvt559NEAxQp+PwtmMcBjiR1/LMeSwFJHfH8N2QQAoUXrTp66hVFApGn+DyvmM'
+    language: 'en',
+    locale: 'en-GB',
+    previewText: 'It is a capital mistake to theorize before one has data. Observe, and then conclude.'
   },
   {
     id: 'celebrity-ryan',
@@ -140,7 +234,9 @@ const initialVoices: Voice[] = [
     category: 'celebrity',
     description: 'Witty Canadian voice with sarcastic charm',
     quality: 'ultra',
-    previewUrl: 'data:audio/wav;base64,UklGRnoGAABXQVZFZm10IBAAAAABAAEAQB8AAEAfAAABAAgAZGF0YQoGAACBhYqFbF1fdJivrJBhNjVgodDbq2EcBj+a2/LDciUFLIHO8tiJNwgZaLvt559NEAxQp+PwtmMcBjiR1/LMeSwFJHfH8N2QQAoUXrTp66hVFApGn+DyvmM'
+    language: 'en',
+    locale: 'en-CA',
+    previewText: 'Sure, I could save the world. Or, hear me out, we could get tacos first.'
   },
   {
     id: 'celebrity-emma-stone',
@@ -148,7 +244,9 @@ const initialVoices: Voice[] = [
     category: 'celebrity',
     description: 'Quirky and expressive voice with natural warmth',
     quality: 'ultra',
-    previewUrl: 'data:audio/wav;base64,UklGRnoGAABXQVZFZm10IBAAAAABAAEAQB8AAEAfAAABAAgAZGF0YQoGAACBhYqFbF1fdJivrJBhNjVgodDbq2EcBj+a2/LDciUFLIHO8tiJNwgZaLvt559NEAxQp+PwtmMcBjiR1/LMeSwFJHfH8N2QQAoUXrTp66hVFApGn+DyvmM'
+    language: 'en',
+    locale: 'en-US',
+    previewText: 'I tried to bake bread this weekend and, honestly, the bread won.'
   },
   {
     id: 'celebrity-samuel',
@@ -156,7 +254,9 @@ const initialVoices: Voice[] = [
     category: 'celebrity',
     description: 'Commanding voice with unforgettable presence',
     quality: 'ultra',
-    previewUrl: 'data:audio/wav;base64,UklGRnoGAABXQVZFZm10IBAAAAABAAEAQB8AAEAfAAABAAgAZGF0YQoGAACBhYqFbF1fdJivrJBhNjVgodDbq2EcBj+a2/LDciUFLIHO8tiJNwgZaLvt559NEAxQp+PwtmMcBjiR1/LMeSwFJHfH8N2QQAoUXrTp66hVFApGn+DyvmM'
+    language: 'en',
+    locale: 'en-US',
+    previewText: 'Listen carefully, because I am only going to say this one time.'
   },
   {
     id: 'celebrity-oprah',
@@ -164,7 +264,9 @@ const initialVoices: Voice[] = [
     category: 'celebrity',
     description: 'Inspiring and empowering voice with emotional depth',
     quality: 'ultra',
-    previewUrl: 'data:audio/wav;base64,UklGRnoGAABXQVZFZm10IBAAAAABAAEAQB8AAEAfAAABAAgAZGF0YQoGAACBhYqFbF1fdJivrJBhNjVgodDbq2EcBj+a2/LDciUFLIHO8tiJNwgZaLvt559NEAxQp+PwtmMcBjiR1/LMeSwFJHfH8N2QQAoUXrTp66hVFApGn+DyvmM'
+    language: 'en',
+    locale: 'en-US',
+    previewText: 'You have the power to write the next chapter of your story. Start today.'
   },
   {
     id: 'celebrity-matthew',
@@ -172,7 +274,9 @@ const initialVoices: Voice[] = [
     category: 'celebrity',
     description: 'Laid-back Southern drawl with philosophical tone',
     quality: 'ultra',
-    previewUrl: 'data:audio/wav;base64,UklGRnoGAABXQVZFZm10IBAAAAABAAEAQB8AAEAfAAABAAgAZGF0YQoGAACBhYqFbF1fdJivrJBhNjVgodDbq2EcBj+a2/LDciUFLIHO8tiJNwgZaLvt559NEAxQp+PwtmMcBjiR1/LMeSwFJHfH8N2QQAoUXrTp66hVFApGn+DyvmM'
+    language: 'en',
+    locale: 'en-US',
+    previewText: 'Well, you know, life\'s a long road, and sometimes the best thing to do is just enjoy the ride.'
   },
   {
     id: 'celebrity-keanu',
@@ -180,7 +284,9 @@ const initialVoices: Voice[] = [
     category: 'celebrity',
     description: 'Calm and contemplative voice with gentle intensity',
     quality: 'ultra',
-    previewUrl: 'data:audio/wav;base64,UklGRnoGAABXQVZFZm10IBAAAAABAAEAQB8AAEAfAAABAAgAZGF0YQoGAACBhYqFbF1fdJivrJBhNjVgodDbq2EcBj+a2/LDciUFLIHO8tiJNwgZaLvt559NEAxQp+PwtmMcBjiR1/LMeSwFJHfH8N2QQAoUXrTp66hVFApGn+DyvmM'
+    language: 'en',
+    locale: 'en-US',
+    previewText: 'Sometimes the quiet moments are the ones that matter most.'
   }
 ]
 
@@ -188,12 +294,56 @@ export default function App() {
   const [voices, setVoices] = useKV('voices', initialVoices)
   const [selectedVoice, setSelectedVoice] = useState<Voice | null>(null)
   const [audioHistory, setAudioHistory] = useKV('audioHistory', [] as GeneratedAudio[])
-  const [isGenerating, setIsGenerating] = useState(false)
-  const [generationProgress, setGenerationProgress] = useState(0)
+  const [activeJobId, setActiveJobId] = useState<string | null>(null)
+  const [queueConcurrency, setQueueConcurrency] = useKV('queueConcurrency', 2)
   const [isCloning, setIsCloning] = useState(false)
   const [cloningProgress, setCloningProgress] = useState(0)
   const [playingVoiceId, setPlayingVoiceId] = useState<string | null>(null)
+  const [renderingPreviewId, setRenderingPreviewId] = useState<string | null>(null)
   const [playingAudioId, setPlayingAudioId] = useState<string | null>(null)
+  const [providerId, setProviderId] = useKV('synthesisProvider', 'offline')
+  const [providerBaseUrl, setProviderBaseUrl] = useKV('synthesisBaseUrl', '')
+  const [lexicon, setLexicon] = useKV('pronunciationLexicon', [] as LexiconEntry[])
+  const [cacheLimitMb, setCacheLimitMb] = useKV('renderCacheLimitMb', DEFAULT_CACHE_LIMIT_MB)
+  const [wavFormat, setWavFormat] = useKV('wavExportFormat', DEFAULT_WAV_FORMAT)
+  const [tagTemplate, setTagTemplate] = useKV('tagTemplate', DEFAULT_TAG_TEMPLATE)
+  const [cacheUsage, setCacheUsage] = useState<CacheUsage | null>(null)
+  const cloningAbortRef = useRef<AbortController | null>(null)
+  const streamListeners = useRef(new Map<string, (chunk: RenderedChunk) => void>())
+  const previewUrls = useRef(new Map<string, { key: string; url: string }>())
+  const previewAbortRef = useRef<AbortController | null>(null)
+
+  useEffect(() => {
+    httpProvider.setBaseUrl(providerBaseUrl)
+  }, [providerBaseUrl])
+
+  useEffect(() => {
+    renderCache.setLimit(cacheLimitMb)
+      .then(() => renderCache.usage())
+      .then(setCacheUsage)
+      .catch(error => console.warn('Render cache unavailable:', error))
+  }, [cacheLimitMb])
+
+  useEffect(() => {
+    // Move legacy take audio out of localStorage, then drop it from the saved history
+    const legacy = (audioHistory as StoredGeneratedAudio[]).filter(audio => audio.audioUrl)
+    if (legacy.length === 0) return
+
+    Promise.all(legacy.map(audio => takeStore.put(audio.id, dataUrlToArrayBuffer(audio.audioUrl!))))
+      .then(() => setAudioHistory(prev => prev.map(audio => {
+        const moved: StoredGeneratedAudio = { ...audio }
+        delete moved.audioUrl
+        return moved
+      })))
+      .catch(error => console.warn('Failed to move history audio to IndexedDB:', error))
+  }, [audioHistory, setAudioHistory])
+
+  useEffect(() => {
+    // Voices saved before language metadata existed were all English
+    if (voices.some(voice => !voice.locale)) {
+      setVoices(prev => prev.map(voice => (voice.locale ? voice : { ...voice, language: 'en', locale: DEFAULT_LOCALE })))
+    }
+  }, [voices, setVoices])
 
   useEffect(() => {
     // Set default selected voice
@@ -208,93 +358,368 @@ export default function App() {
 
   const handlePreviewVoice = async (voice: Voice) => {
     const previewId = `preview-${voice.id}`
-    
-    if (playingVoiceId === voice.id) {
-      // Stop playing
+
+    if (playingVoiceId === voice.id || renderingPreviewId === voice.id) {
+      // Stop playing, or stop waiting for the render
+      previewAbortRef.current?.abort()
       audioManager.stopAudio(previewId)
       setPlayingVoiceId(null)
-    } else {
-      try {
-        // Stop any currently playing preview
-        if (playingVoiceId) {
-          audioManager.stopAudio(`preview-${playingVoiceId}`)
+      return
+    }
+
+    // Stop any currently playing or rendering preview
+    previewAbortRef.current?.abort()
+    if (playingVoiceId) {
+      audioManager.stopAudio(`preview-${playingVoiceId}`)
+      setPlayingVoiceId(null)
+    }
+
+    const controller = new AbortController()
+    previewAbortRef.current = controller
+    setRenderingPreviewId(voice.id)
+
+    try {
+      const url = await getPreviewUrl(voice, controller.signal)
+      controller.signal.throwIfAborted()
+      await audioManager.playAudio(url, previewId)
+      setPlayingVoiceId(voice.id)
+
+      // Monitor playback completion
+      const checkCompletion = () => {
+        if (!audioManager.isPlaying(previewId)) {
+          setPlayingVoiceId(current => (current === voice.id ? null : current))
+        } else {
+          setTimeout(checkCompletion, 200)
         }
-        
-        // Generate realistic voice preview
-        const maleVoices = ['Marcus', 'James', 'Morgan', 'David', 'Benedict', 'Ryan', 'Samuel', 'Matthew', 'Keanu', 'Kai']
-        const isMaleVoice = maleVoices.some(name => voice.name.includes(name))
-        
-        await audioManager.generateVoicePreview({
-          voiceId: voice.id,
-          category: voice.category,
-          gender: isMaleVoice ? 'male' : 'female'
-        })
-        
-        setPlayingVoiceId(voice.id)
-        
-        // Auto-stop after preview duration
-        setTimeout(() => {
-          setPlayingVoiceId(null)
-        }, 2000)
-        
-      } catch (error) {
+      }
+      checkCompletion()
+    } catch (error) {
+      if (!isAbortError(error)) {
         console.error('Failed to preview voice:', error)
         toast.error('Failed to preview voice. Please try again.')
       }
+    } finally {
+      if (previewAbortRef.current === controller) {
+        previewAbortRef.current = null
+      }
+      setRenderingPreviewId(current => (current === voice.id ? null : current))
     }
   }
 
-  const simulateProgress = (setter: (value: number) => void, duration: number = 3000) => {
-    return new Promise<void>((resolve) => {
-      let progress = 0
-      const interval = setInterval(() => {
-        progress += Math.random() * 15
-        if (progress >= 100) {
-          progress = 100
-          setter(progress)
-          clearInterval(interval)
-          resolve()
-        } else {
-          setter(progress)
-        }
-      }, duration / 20)
+  /**
+   * Render a voice's preview sentence, reusing the last render while its text, voice and lexicon are unchanged
+   * Renders are remembered per voice for this session and kept in the render cache across sessions
+   */
+  const getPreviewUrl = async (voice: Voice, signal: AbortSignal) => {
+    const text = getPreviewText(voice)
+    const key = await getRenderCacheKey(text, voice, PREVIEW_SETTINGS)
+    const remembered = previewUrls.current.get(voice.id)
+    if (remembered?.key === key) return remembered.url
+
+    let url: string
+    const cached = await renderCache.get(key)
+    if (cached) {
+      url = await audioManager.runTask({ kind: 'encodeWav', samples: cached.samples, sampleRate: cached.sampleRate }, { transfer: [cached.samples.buffer] })
+    } else {
+      const seed = hashSeed(text, voice.id, PREVIEW_SETTINGS)
+      const target = PREVIEW_LOUDNESS_TARGET
+      const result = await renderSpeech(text, voice, { ...PREVIEW_SETTINGS, seed }, { signal, onProgress: () => {} })
+      const mastered = await audioManager.runTask(
+        { kind: 'normalizeLoudness', samples: result.samples, sampleRate: result.sampleRate, target },
+        { signal, transfer: [result.samples.buffer] }
+      )
+      renderCache.put(key, mastered.samples, {
+        sampleRate: result.sampleRate,
+        duration: result.duration,
+        loudness: { integrated: mastered.integrated, truePeak: mastered.truePeak, target },
+        seed,
+        words: result.words,
+        sentences: result.sentences
+      })
+        .then(refreshCacheUsage)
+        .catch(error => console.warn('Render cache unavailable:', error))
+      url = await audioManager.runTask({ kind: 'encodeWav', samples: mastered.samples, sampleRate: result.sampleRate }, { signal })
+    }
+
+    previewUrls.current.set(voice.id, { key, url })
+    return url
+  }
+
+  const handlePreviewTextChange = (voiceId: string, previewText: string) => {
+    setVoices(prev => prev.map(voice => (voice.id === voiceId ? { ...voice, previewText: previewText.trim() || undefined } : voice)))
+  }
+
+  const renderSpeech = (
+    text: string,
+    voice: Voice,
+    settings: SynthesisSettings,
+    context: JobContext & { onChunk?: (chunk: RenderedChunk) => void | Promise<void> },
+    segments?: SynthesisSegment[],
+    entries: LexiconEntry[] = lexicon
+  ) => {
+    const spans = applyLexicon(text, segments, entries)
+    const chunks = (spans ? chunkSegments(spans) : chunkText(text)).map(chunk => ({
+      ...chunk,
+      text: normalizeText(chunk.text, voice.locale),
+      segments: chunk.segments?.map(segment => (segment.phonemes ? segment : { ...segment, text: normalizeText(segment.text, voice.locale) }))
+    }))
+    return synthesizeChunks(synthesisRegistry.require(providerId), chunks, {
+      voice,
+      settings,
+      signal: context.signal,
+      onProgress: ({ progress }) => context.onProgress(progress),
+      onChunk: context.onChunk
     })
   }
 
-  const handleGenerate = async (text: string, voice: Voice, settings: { quality: string }): Promise<GeneratedAudio> => {
-    setIsGenerating(true)
-    setGenerationProgress(0)
+  const renderDialogue = async ({ turns, cast, gapMs }: DialogueJob, settings: SynthesisSettings, context: JobContext) => {
+    const totalLength = turns.reduce((sum, turn) => sum + turn.text.length, 0)
+    const parts: SynthesisResult[] = []
+    let sampleRate = 0
+    let done = 0
 
-    try {
-      await simulateProgress(setGenerationProgress, 4000)
-
-      // Generate a mock audio URL (in real app, this would be from your TTS API)
-      const audioUrl = `data:audio/wav;base64,UklGRnoGAABXQVZFZm10IBAAAAABAAEAQB8AAEAfAAABAAgAZGF0YQoGAACBhYqFbF1fdJivrJBhNjVgodDbq2EcBj+a2/LDciUFLIHO8tiJNwgZaLvt559NEAxQp+PwtmMcBjiR1/LMeSwFJHfH8N2QQAoUXrTp66hVFApGn+DyvmMcBhN+2e/bfiwEHXfS8+CQOA0Pe7jo554OBwdOpdTmu1wUBCOM1ejAUAAA`
-
-      const newAudio: GeneratedAudio = {
-        id: Date.now().toString(),
-        text,
-        voice,
-        audioUrl,
-        duration: Math.ceil(text.split(' ').length / 2.5), // Rough estimation
-        quality: settings.quality,
-        createdAt: new Date()
+    for (const [index, turn] of turns.entries()) {
+      // Each turn's share of the progress bar follows its share of the script
+      const share = turn.text.length / totalLength
+      const turnSettings = settings.seed === undefined ? settings : { ...settings, seed: deriveSeed(settings.seed, index) }
+      const result = await renderSpeech(turn.text, cast[turn.speaker], turnSettings, {
+        signal: context.signal,
+        onProgress: progress => context.onProgress((done + share * progress / 100) * 100)
+      })
+      if (sampleRate && result.sampleRate !== sampleRate) {
+        throw new Error(`${turn.speaker} rendered at ${result.sampleRate} Hz, expected ${sampleRate} Hz`)
       }
+      sampleRate = result.sampleRate
+      parts.push(result)
+      done += share
+    }
+
+    const { samples, offsets } = joinTurns(parts.map(part => part.samples), sampleRate, gapMs)
+    const words = parts.flatMap((part, i) => offsetTimings(part.words || [], offsets[i] / sampleRate))
+    const sentences = parts.flatMap((part, i) => offsetTimings(part.sentences || [], offsets[i] / sampleRate))
+
+    return { samples, sampleRate, duration: samples.length / sampleRate, words, sentences }
+  }
+
+  const renderGeneration = async ({ text, voice, settings: requested, segments, dialogue, cacheKey, streamId }: GenerationJobInput, context: JobContext): Promise<GeneratedAudio> => {
+    // Without a user seed the take is still reproducible: the seed follows from the inputs that shape the audio
+    const seed = requested.seed ?? hashSeed(text, voice.id, renderOnlySettings(requested), segments, dialogue)
+    const settings = { ...requested, seed }
+    const target = settings.loudnessTarget ?? null
+
+    // Streamed chunks are levelled one by one; the finished take is levelled as a whole below
+    const listener = streamId ? streamListeners.current.get(streamId) : undefined
+    const onChunk = listener && target !== null
+      ? async (chunk: RenderedChunk) => {
+        const { samples } = await audioManager.runTask({ kind: 'normalizeLoudness', samples: chunk.samples, sampleRate: chunk.sampleRate, target })
+        listener({ ...chunk, samples })
+      }
+      : listener
+
+    const result = dialogue
+      ? await renderDialogue(dialogue, settings, context)
+      : await renderSpeech(text, voice, settings, { ...context, onChunk }, segments)
+
+    const mastered = target !== null
+      ? await audioManager.runTask(
+        { kind: 'normalizeLoudness', samples: result.samples, sampleRate: result.sampleRate, target },
+        { signal: context.signal, transfer: [result.samples.buffer] }
+      )
+      : { samples: result.samples, ...await audioManager.runTask({ kind: 'measureLoudness', samples: result.samples, sampleRate: result.sampleRate }, { signal: context.signal }) }
+    const wav = await encodeTake(mastered.samples, result.sampleRate, { signal: context.signal })
 
-      setAudioHistory(prev => [newAudio, ...prev])
-      return newAudio
+    if (cacheKey) {
+      renderCache.put(cacheKey, mastered.samples, {
+        sampleRate: result.sampleRate,
+        duration: result.duration,
+        loudness: { integrated: mastered.integrated, truePeak: mastered.truePeak, target },
+        seed,
+        words: result.words,
+        sentences: result.sentences
+      })
+        .then(refreshCacheUsage)
+        .catch(error => console.warn('Render cache unavailable:', error))
+    }
+
+    return addGeneration({
+      text,
+      voice,
+      duration: result.duration,
+      quality: settings.quality,
+      bitrateMode: settings.bitrateMode,
+      exportFormat: settings.exportFormat,
+      style: settings.style,
+      speed: settings.speed,
+      pitch: settings.pitch,
+      seed,
+      speakers: dialogue && Object.entries(dialogue.cast).map(([name, castVoice]) => ({ name, voiceName: castVoice.name })),
+      loudness: { integrated: mastered.integrated, truePeak: mastered.truePeak, target },
+      words: result.words,
+      sentences: result.sentences
+    }, wav)
+  }
+
+  /**
+   * Store a take's audio, then list it in history; only the metadata goes to localStorage
+   */
+  const addGeneration = async (audio: Omit<GeneratedAudio, 'id' | 'createdAt'>, wav: ArrayBuffer): Promise<GeneratedAudio> => {
+    const newAudio: GeneratedAudio = {
+      ...audio,
+      id: Date.now().toString() + Math.random().toString(36).slice(2, 6),
+      createdAt: new Date()
+    }
+
+    await takeStore.put(newAudio.id, wav)
+    setAudioHistory(prev => [newAudio, ...prev])
+    return newAudio
+  }
+
+  // History keeps takes as 32-bit float WAV at the render's own rate, so 24-bit, float and FLAC exports start from the render itself
+  const encodeTake = (samples: Float32Array, sampleRate: number, options?: PoolRunOptions) =>
+    audioManager.runTask({ kind: 'encodeWavFile', samples, sampleRate, format: { sampleRate, bitDepth: 32, channels: 1 } }, options)
+
+  const refreshCacheUsage = () => {
+    renderCache.usage()
+      .then(setCacheUsage)
+      .catch(() => setCacheUsage(null))
+  }
+
+  /**
+   * Everything that shapes a take: the text as it will be spoken, lexicon overrides, voice, engine and settings
+   */
+  const getRenderCacheKey = (text: string, voice: Voice, settings: SynthesisSettings, segments?: SynthesisSegment[]) => {
+    return renderCacheKey({
+      engine: providerId === 'http' ? [providerId, providerBaseUrl] : providerId,
+      text: normalizeText(text, voice.locale),
+      spans: applyLexicon(text, segments, lexicon),
+      voice: { id: voice.id, locale: voice.locale, profile: voice.profile },
+      settings: renderOnlySettings(settings)
+    })
+  }
+
+  const generationQueue = useJobQueue({
+    storageKey: 'generationJobs',
+    concurrency: queueConcurrency,
+    run: renderGeneration
+  })
+
+  const activeJob = generationQueue.jobs.find(job => job.id === activeJobId)
+  const isGenerating = !!activeJob && (activeJob.status === 'pending' || activeJob.status === 'running')
+
+  const submitGeneration = async (input: GenerationJobInput): Promise<GeneratedAudio> => {
+    const jobId = generationQueue.enqueue(input)
+    setActiveJobId(jobId)
+
+    try {
+      return await generationQueue.waitFor(jobId)
     } finally {
-      setIsGenerating(false)
-      setGenerationProgress(0)
+      setActiveJobId(current => (current === jobId ? null : current))
+    }
+  }
+
+  const handleGenerate = async (
+    text: string,
+    voice: Voice,
+    settings: SynthesisSettings,
+    segments?: SynthesisSegment[],
+    { forceRender = false, onChunk }: { forceRender?: boolean; onChunk?: (chunk: RenderedChunk) => void } = {}
+  ) => {
+    const cacheKey = await getRenderCacheKey(text, voice, settings, segments)
+    const cached = forceRender ? null : await renderCache.get(cacheKey)
+    if (!cached) {
+      if (!onChunk) {
+        return submitGeneration({ text, voice, settings, segments, cacheKey })
+      }
+
+      const streamId = `stream-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`
+      streamListeners.current.set(streamId, onChunk)
+      try {
+        return await submitGeneration({ text, voice, settings, segments, cacheKey, streamId })
+      } finally {
+        streamListeners.current.delete(streamId)
+      }
+    }
+
+    return addCachedGeneration(text, voice, settings, cached)
+  }
+
+  const addCachedGeneration = async (text: string, voice: Voice, settings: SynthesisSettings, cached: CachedRender & { samples: Float32Array }) => {
+    const wav = await encodeTake(cached.samples, cached.sampleRate, { transfer: [cached.samples.buffer] })
+    return addGeneration({
+      text,
+      voice,
+      duration: cached.duration,
+      quality: settings.quality,
+      bitrateMode: settings.bitrateMode,
+      exportFormat: settings.exportFormat,
+      style: settings.style,
+      speed: settings.speed,
+      pitch: settings.pitch,
+      seed: cached.seed,
+      loudness: cached.loudness,
+      words: cached.words,
+      sentences: cached.sentences,
+      cached: true
+    }, wav)
+  }
+
+  const handleClearCache = async () => {
+    try {
+      await renderCache.clear()
+      refreshCacheUsage()
+      toast.success('Render cache cleared')
+    } catch (error) {
+      console.error('Failed to clear render cache:', error)
+      toast.error('Failed to clear the render cache')
+    }
+  }
+
+  const handleGenerateDialogue = (script: string, turns: DialogueJob['turns'], cast: Record<string, Voice>, settings: SynthesisSettings, gapMs: number) => {
+    // The queue lists a job by its voice, so a dialogue is shown under its first speaker
+    return submitGeneration({ text: script, voice: cast[turns[0].speaker], settings, dialogue: { turns, cast, gapMs } })
+  }
+
+  const handleEnqueue = async (texts: string[], voice: Voice, settings: SynthesisSettings) => {
+    // Batch lines go through the render cache like single generations; cached ones skip the queue
+    let cachedCount = 0
+    try {
+      for (const text of texts) {
+        const cacheKey = await getRenderCacheKey(text, voice, settings)
+        const cached = await renderCache.get(cacheKey)
+        if (cached) {
+          await addCachedGeneration(text, voice, settings, cached)
+          cachedCount++
+        } else {
+          generationQueue.enqueue({ text, voice, settings, cacheKey })
+        }
+      }
+    } catch (error) {
+      console.error('Failed to queue generations:', error)
+      toast.error('Failed to queue generations')
+      return
+    }
+
+    const queued = texts.length - cachedCount
+    toast.success(`Queued ${queued} generation${queued === 1 ? '' : 's'}${cachedCount > 0 ? `, ${cachedCount} served from the render cache` : ''}`)
+  }
+
+  const handleCancelGeneration = () => {
+    if (activeJobId) {
+      generationQueue.cancel(activeJobId)
     }
   }
 
-  const handleVoiceCloned = async (voiceName: string, samples: AudioSample[]) => {
+  const handleVoiceCloned = async (voiceName: string, samples: AudioSample[], locale: string) => {
+    const controller = new AbortController()
+    cloningAbortRef.current = controller
     setIsCloning(true)
     setCloningProgress(0)
 
     try {
-      await simulateProgress(setCloningProgress, 8000)
+      const profile = await analyzeVoiceSamples(samples.map(sample => sample.file), {
+        signal: controller.signal,
+        onProgress: ({ progress }) => setCloningProgress(progress)
+      })
 
       const newVoice: Voice = {
         id: `custom-${Date.now()}`,
@@ -303,19 +728,41 @@ export default function App() {
         description: `Custom voice cloned from ${samples.length} samples`,
         isCustom: true,
         quality: 'ultra',
-        previewUrl: samples[0]?.url
+        language: localeLanguage(locale),
+        locale,
+        profile
       }
 
       setVoices(prev => [...prev, newVoice])
       toast.success(`Voice "${voiceName}" has been successfully cloned!`)
     } finally {
+      cloningAbortRef.current = null
       setIsCloning(false)
       setCloningProgress(0)
     }
   }
 
+  const handleCancelCloning = () => {
+    cloningAbortRef.current?.abort()
+  }
+
+  const handleTestPronunciation = async (entry: LexiconEntry) => {
+    if (!selectedVoice) {
+      toast.error('Select a voice to test pronunciations')
+      return
+    }
+
+    const result = await renderSpeech(entry.word, selectedVoice, { quality: 'standard', speed: 1, pitch: 1, volume: 1 }, {
+      signal: new AbortController().signal,
+      onProgress: () => {}
+    }, undefined, [entry])
+    const audioUrl = await audioManager.runTask({ kind: 'encodeWav', samples: result.samples, sampleRate: result.sampleRate }, { transfer: [result.samples.buffer] })
+    await audioManager.playAudio(audioUrl, `lexicon-${entry.id}`)
+  }
+
   const handleDeleteAudio = (id: string) => {
     setAudioHistory(prev => prev.filter(audio => audio.id !== id))
+    takeStore.delete(id).catch(error => console.warn('Failed to delete take audio:', error))
     toast.success('Audio deleted successfully')
   }
 
@@ -334,7 +781,11 @@ export default function App() {
         }
 
         // Play new audio with error handling
-        await audioManager.playAudio(audio.audioUrl, audioId)
+        const url = await takeStore.url(audio.id)
+        if (!url) {
+          throw new Error('The audio for this take is no longer stored')
+        }
+        await audioManager.playAudio(url, audioId)
         setPlayingAudioId(audio.id)
         
         // Setup completion handler
@@ -386,7 +837,7 @@ export default function App() {
 
         {/* Main Content */}
         <Tabs defaultValue="generate" className="w-full">
-          <TabsList className="grid w-full grid-cols-4 mb-6">
+          <TabsList className="grid w-full grid-cols-5 mb-6">
             <TabsTrigger value="generate" className="gap-2">
               <SpeakerHigh className="w-4 h-4" />
               Generate
@@ -403,25 +854,63 @@ export default function App() {
               <Clock className="w-4 h-4" />
               History
             </TabsTrigger>
+            <TabsTrigger value="lexicon" className="gap-2">
+              <BookOpenText className="w-4 h-4" />
+              Lexicon
+            </TabsTrigger>
           </TabsList>
 
           <TabsContent value="generate" className="space-y-6">
             <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
-              <div className="lg:col-span-1">
+              <div className="lg:col-span-1 space-y-6">
                 <VoiceLibrary
                   voices={voices}
                   selectedVoice={selectedVoice}
                   onVoiceSelect={handleVoiceSelect}
                   onPreviewVoice={handlePreviewVoice}
                   isPlaying={playingVoiceId}
+                  renderingPreview={renderingPreviewId}
+                  onPreviewTextChange={handlePreviewTextChange}
+                />
+                <EngineSettings
+                  providers={synthesisRegistry.list()}
+                  providerId={providerId}
+                  onProviderChange={setProviderId}
+                  baseUrl={providerBaseUrl}
+                  onBaseUrlChange={setProviderBaseUrl}
+                  cacheLimitMb={cacheLimitMb}
+                  onCacheLimitChange={setCacheLimitMb}
+                  cacheUsage={cacheUsage}
+                  onClearCache={handleClearCache}
+                />
+                <ExportSettings
+                  wavFormat={wavFormat}
+                  onWavFormatChange={setWavFormat}
+                  tagTemplate={tagTemplate}
+                  onTagTemplateChange={setTagTemplate}
                 />
               </div>
-              <div className="lg:col-span-2">
+              <div className="lg:col-span-2 space-y-6">
                 <TextToSpeech
                   selectedVoice={selectedVoice}
+                  voices={voices}
                   onGenerate={handleGenerate}
+                  onGenerateDialogue={handleGenerateDialogue}
+                  onEnqueue={handleEnqueue}
+                  onCancel={handleCancelGeneration}
                   isGenerating={isGenerating}
-                  generationProgress={generationProgress}
+                  generationProgress={activeJob?.progress ?? 0}
+                  wavFormat={wavFormat}
+                  tagTemplate={tagTemplate}
+                />
+                <JobQueue
+                  jobs={generationQueue.jobs}
+                  concurrency={queueConcurrency}
+                  onConcurrencyChange={setQueueConcurrency}
+                  onRetry={generationQueue.retry}
+                  onCancel={generationQueue.cancel}
+                  onRemove={generationQueue.remove}
+                  onClearFinished={generationQueue.clearFinished}
                 />
               </div>
             </div>
@@ -434,12 +923,15 @@ export default function App() {
               onVoiceSelect={handleVoiceSelect}
               onPreviewVoice={handlePreviewVoice}
               isPlaying={playingVoiceId}
+              renderingPreview={renderingPreviewId}
+              onPreviewTextChange={handlePreviewTextChange}
             />
           </TabsContent>
 
           <TabsContent value="clone">
             <VoiceCloning
               onVoiceCloned={handleVoiceCloned}
+              onCancel={handleCancelCloning}
               isCloning={isCloning}
               cloningProgress={cloningProgress}
             />
@@ -451,6 +943,16 @@ export default function App() {
               onDeleteAudio={handleDeleteAudio}
               onPlayAudio={handlePlayAudio}
               isPlaying={playingAudioId}
+              wavFormat={wavFormat}
+              tagTemplate={tagTemplate}
+            />
+          </TabsContent>
+
+          <TabsContent value="lexicon">
+            <LexiconManager
+              entries={lexicon}
+              onEntriesChange={setLexicon}
+              onTestPronunciation={handleTestPronunciation}
             />
           </TabsContent>
         </Tabs>
@@ -1,20 +1,40 @@
 import { useState } from 'react'
-import { Clock, Download, Play, Pause, Trash, FileAudio, Calendar } from '@phosphor-icons/react'
+import { Clock, Download, Play, Pause, Trash, FileAudio, Calendar, Subtitles, SpinnerGap } from '@phosphor-icons/react'
 import { Button } from '@/components/ui/button'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
 import { Input } from '@/components/ui/input'
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { DEFAULT_SPEAKING_STYLE, getSpeakingStyle } from '@/lib/speakingStyles'
+import { buildCaptions, CAPTION_MIME_TYPES, type CaptionFormat } from '@/lib/captions'
+import { downloadAudio, EXPORT_FORMATS, DEFAULT_EXPORT_FORMAT, type ExportFormat } from '@/lib/audioExport'
+import type { TagTemplate } from '@/lib/audioTags'
+import { OPUS_UNSUPPORTED_REASON } from '@/lib/opusEncoder'
+import { describeWavFormat, type WavFormat } from '@/lib/wav'
 import { toast } from 'sonner'
+import { useOpusSupport } from '@/hooks/useOpusSupport'
 
 interface GeneratedAudio {
   id: string
   text: string
-  voice: { id: string; name: string; category: string }
-  audioUrl: string
+  voice: { id: string; name: string; category: string; language?: string }
   duration: number
   quality: string
+  bitrateMode?: 'cbr' | 'vbr'
+  exportFormat?: ExportFormat
   createdAt: Date
+  loudness?: {
+    integrated: number
+    truePeak: number
+    target: number | null
+  }
+  style?: string
+  seed?: number
+  speed?: number
+  pitch?: number
+  words?: { text: string; start: number; end: number }[]
+  sentences?: { text: string; start: number; end: number }[]
+  cached?: boolean
 }
 
 interface AudioHistoryProps {
@@ -22,12 +42,20 @@ interface AudioHistoryProps {
   onDeleteAudio: (id: string) => void
   onPlayAudio: (audio: GeneratedAudio) => void
   isPlaying: string | null
+  /** Format of WAV downloads */
+  wavFormat: WavFormat
+  /** Template the tags of every download are filled in from */
+  tagTemplate: TagTemplate
 }
 
-export function AudioHistory({ audioHistory, onDeleteAudio, onPlayAudio, isPlaying }: AudioHistoryProps) {
+export function AudioHistory({ audioHistory, onDeleteAudio, onPlayAudio, isPlaying, wavFormat, tagTemplate }: AudioHistoryProps) {
   const [searchTerm, setSearchTerm] = useState('')
   const [sortBy, setSortBy] = useState<'newest' | 'oldest' | 'duration'>('newest')
   const [filterVoice, setFilterVoice] = useState<string>('all')
+  const [exportingId, setExportingId] = useState<string | null>(null)
+  // Per-item download format; items start on the format they were generated with
+  const [formats, setFormats] = useState<Record<string, ExportFormat>>({})
+  const opusSupported = useOpusSupport()
 
   const filteredAndSortedAudio = audioHistory
     .filter(audio => 
@@ -51,18 +79,48 @@ export function AudioHistory({ audioHistory, onDeleteAudio, onPlayAudio, isPlayi
   const uniqueVoices = Array.from(new Set(audioHistory.map(audio => audio.voice.id)))
     .map(voiceId => audioHistory.find(audio => audio.voice.id === voiceId)!.voice)
 
-  const handleDownload = (audio: GeneratedAudio) => {
+  const getFormat = (audio: GeneratedAudio) => {
+    const format = formats[audio.id] ?? audio.exportFormat ?? DEFAULT_EXPORT_FORMAT
+    // Takes generated for Opus fall back where this browser cannot encode it
+    return format === 'opus' && opusSupported === false ? DEFAULT_EXPORT_FORMAT : format
+  }
+
+  const handleDownload = async (audio: GeneratedAudio) => {
+    const format = getFormat(audio)
+    setExportingId(audio.id)
+    try {
+      await downloadAudio(audio, format, { wavFormat, tagTemplate }, `voiceforge-${audio.voice.name}-${audio.id}`)
+      toast.success('Audio downloaded successfully!')
+    } catch (error) {
+      console.error('Download error:', error)
+      toast.error(error instanceof Error && error.message ? error.message : `Failed to download ${EXPORT_FORMATS[format].label}`)
+    } finally {
+      setExportingId(current => (current === audio.id ? null : current))
+    }
+  }
+
+  const getDownloadTitle = (audio: GeneratedAudio) => {
+    const format = getFormat(audio)
+    if (format === 'wav') return `Download WAV (${describeWavFormat(wavFormat)})`
+    if (format === 'flac') return 'Download lossless FLAC'
+    return `Download ${EXPORT_FORMATS[format].label} (${audio.quality}, ${audio.bitrateMode === 'vbr' ? 'VBR' : 'CBR'})`
+  }
+
+  const handleDownloadCaptions = (audio: GeneratedAudio, format: CaptionFormat) => {
     try {
+      const blob = new Blob([buildCaptions(audio, format)], { type: CAPTION_MIME_TYPES[format] })
+      const url = URL.createObjectURL(blob)
       const link = document.createElement('a')
-      link.href = audio.audioUrl
-      link.download = `voiceforge-${audio.voice.name}-${audio.id}.mp3`
+      link.href = url
+      link.download = `voiceforge-${audio.voice.name}-${audio.id}.${format}`
       document.body.appendChild(link)
       link.click()
       document.body.removeChild(link)
-      toast.success('Audio downloaded successfully!')
+      URL.revokeObjectURL(url)
+      toast.success(`${format.toUpperCase()} captions downloaded`)
     } catch (error) {
-      console.error('Download error:', error)
-      toast.error('Failed to download audio')
+      console.error('Caption export error:', error)
+      toast.error('Failed to export captions')
     }
   }
 
@@ -72,8 +130,8 @@ export function AudioHistory({ audioHistory, onDeleteAudio, onPlayAudio, isPlayi
 
   const formatDuration = (seconds: number) => {
     const mins = Math.floor(seconds / 60)
-    const secs = Math.floor(seconds % 60)
-    return `${mins}:${secs.toString().padStart(2, '0')}`
+    const secs = seconds % 60
+    return `${mins}:${secs.toFixed(1).padStart(4, '0')}`
   }
 
   const formatDate = (date: Date) => {
@@ -173,6 +231,16 @@ export function AudioHistory({ audioHistory, onDeleteAudio, onPlayAudio, isPlayi
                         <Badge variant="secondary" className="text-xs">
                           {audio.quality.toUpperCase()}
                         </Badge>
+                        {audio.style && audio.style !== DEFAULT_SPEAKING_STYLE && (
+                          <Badge variant="secondary" className="text-xs">
+                            {getSpeakingStyle(audio.style).label}
+                          </Badge>
+                        )}
+                        {audio.cached && (
+                          <Badge variant="outline" className="text-xs">
+                            Cached
+                          </Badge>
+                        )}
                         <span className="text-xs text-muted-foreground">
                           {formatDuration(audio.duration)}
                         </span>
@@ -188,17 +256,62 @@ export function AudioHistory({ audioHistory, onDeleteAudio, onPlayAudio, isPlayi
                       <div className="flex items-center gap-2 text-xs text-muted-foreground">
                         <Calendar className="w-3 h-3" />
                         {formatDate(audio.createdAt)}
+                        {audio.seed !== undefined && (
+                          <span className="font-mono" title="Render seed">• Seed {audio.seed}</span>
+                        )}
                       </div>
                     </div>
 
                     {/* Action Buttons */}
                     <div className="flex gap-2">
+                      <Select value={getFormat(audio)} onValueChange={(value) => setFormats(prev => ({ ...prev, [audio.id]: value as ExportFormat }))}>
+                        <SelectTrigger className="w-24 h-8">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {(Object.keys(EXPORT_FORMATS) as ExportFormat[]).map(format => (
+                            format === 'opus' && opusSupported === false ? (
+                              <SelectItem key={format} value={format} disabled>
+                                <span className="flex flex-col">
+                                  {EXPORT_FORMATS[format].label}
+                                  <span className="text-xs text-muted-foreground">{OPUS_UNSUPPORTED_REASON}</span>
+                                </span>
+                              </SelectItem>
+                            ) : (
+                              <SelectItem key={format} value={format}>{EXPORT_FORMATS[format].label}</SelectItem>
+                            )
+                          ))}
+                        </SelectContent>
+                      </Select>
+
                       <Button
                         size="sm"
                         variant="outline"
                         onClick={() => handleDownload(audio)}
+                        disabled={exportingId === audio.id}
+                        title={getDownloadTitle(audio)}
+                      >
+                        {exportingId === audio.id ? <SpinnerGap className="w-4 h-4 animate-spin" /> : <Download className="w-4 h-4" />}
+                      </Button>
+
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => handleDownloadCaptions(audio, 'srt')}
+                        title="Download SRT captions"
+                      >
+                        <Subtitles className="w-4 h-4 mr-1" />
+                        SRT
+                      </Button>
+
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => handleDownloadCaptions(audio, 'vtt')}
+                        title="Download WebVTT captions"
                       >
-                        <Download className="w-4 h-4" />
+                        <Subtitles className="w-4 h-4 mr-1" />
+                        VTT
                       </Button>
                       
                       <Button
@@ -0,0 +1,68 @@
+import { UsersThree } from '@phosphor-icons/react'
+import { Badge } from '@/components/ui/badge'
+import { Label } from '@/components/ui/label'
+import { Slider } from '@/components/ui/slider'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+
+interface Voice {
+  id: string
+  name: string
+  category: string
+}
+
+interface DialogueCastProps {
+  speakers: string[]
+  voices: Voice[]
+  cast: Record<string, string>
+  onCastChange: (speaker: string, voiceId: string) => void
+  gapMs: number
+  onGapChange: (gapMs: number) => void
+}
+
+export function DialogueCast({ speakers, voices, cast, onCastChange, gapMs, onGapChange }: DialogueCastProps) {
+  return (
+    <div className="space-y-3 rounded-lg border p-3">
+      <Label className="flex items-center gap-2">
+        <UsersThree className="w-4 h-4 text-accent" />
+        Cast
+      </Label>
+
+      {speakers.length === 0 ? (
+        <p className="text-xs text-muted-foreground">
+          Write one turn per line as <span className="font-mono">Speaker: line</span> to assign voices
+        </p>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+          {speakers.map(speaker => (
+            <div key={speaker} className="flex items-center gap-2">
+              <Badge variant="outline" className="shrink-0 max-w-32 truncate">{speaker}</Badge>
+              <Select value={cast[speaker]} onValueChange={(voiceId) => onCastChange(speaker, voiceId)}>
+                <SelectTrigger className="flex-1">
+                  <SelectValue placeholder="Choose a voice" />
+                </SelectTrigger>
+                <SelectContent>
+                  {voices.map(voice => (
+                    <SelectItem key={voice.id} value={voice.id}>{voice.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="space-y-2">
+        <Label className="text-xs text-muted-foreground">Gap between turns</Label>
+        <Slider
+          value={[gapMs]}
+          onValueChange={(value) => onGapChange(value[0])}
+          max={2000}
+          min={0}
+          step={50}
+          className="w-full"
+        />
+        <span className="text-xs text-muted-foreground">{gapMs}ms</span>
+      </div>
+    </div>
+  )
+}
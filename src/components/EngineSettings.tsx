@@ -0,0 +1,108 @@
+import { Cpu, Database, Trash } from '@phosphor-icons/react'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { CACHE_LIMIT_OPTIONS_MB, type CacheUsage } from '@/lib/renderCache'
+
+interface EngineOption {
+  id: string
+  label: string
+}
+
+interface EngineSettingsProps {
+  providers: EngineOption[]
+  providerId: string
+  onProviderChange: (id: string) => void
+  baseUrl: string
+  onBaseUrlChange: (url: string) => void
+  cacheLimitMb: number
+  onCacheLimitChange: (megabytes: number) => void
+  /** Null while the cache is unavailable, e.g. IndexedDB blocked */
+  cacheUsage: CacheUsage | null
+  onClearCache: () => void
+}
+
+export function EngineSettings({
+  providers,
+  providerId,
+  onProviderChange,
+  baseUrl,
+  onBaseUrlChange,
+  cacheLimitMb,
+  onCacheLimitChange,
+  cacheUsage,
+  onClearCache
+}: EngineSettingsProps) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Cpu className="w-5 h-5 text-accent" />
+          Synthesis Engine
+        </CardTitle>
+        <CardDescription>Choose where speech is rendered</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          <Label>Engine</Label>
+          <Select value={providerId} onValueChange={onProviderChange}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {providers.map(provider => (
+                <SelectItem key={provider.id} value={provider.id}>
+                  {provider.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {providerId === 'http' && (
+          <div className="space-y-2">
+            <Label htmlFor="engine-base-url">Base URL</Label>
+            <Input
+              id="engine-base-url"
+              placeholder="https://tts.example.com/api"
+              value={baseUrl}
+              onChange={(e) => onBaseUrlChange(e.target.value)}
+            />
+          </div>
+        )}
+
+        <div className="space-y-2 pt-4 border-t">
+          <Label className="flex items-center gap-2">
+            <Database className="w-4 h-4" />
+            Render Cache
+          </Label>
+          <div className="flex gap-2">
+            <Select value={String(cacheLimitMb)} onValueChange={(value) => onCacheLimitChange(Number(value))}>
+              <SelectTrigger className="flex-1">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {CACHE_LIMIT_OPTIONS_MB.map(limit => (
+                  <SelectItem key={limit} value={String(limit)}>
+                    Up to {limit >= 1000 ? `${limit / 1000} GB` : `${limit} MB`}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button variant="outline" size="sm" onClick={onClearCache} disabled={!cacheUsage?.entries}>
+              <Trash className="w-4 h-4 mr-1" />
+              Clear
+            </Button>
+          </div>
+          <span className="text-xs text-muted-foreground">
+            {cacheUsage
+              ? `${cacheUsage.entries} render${cacheUsage.entries === 1 ? '' : 's'} • ${(cacheUsage.bytes / 1024 / 1024).toFixed(1)} MB used; least recently used renders are evicted first`
+              : 'Cache unavailable in this browser'}
+          </span>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
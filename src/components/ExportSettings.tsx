@@ -0,0 +1,190 @@
+import { useRef } from 'react'
+import { FileAudio, ImageSquare, Trash } from '@phosphor-icons/react'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Switch } from '@/components/ui/switch'
+import { Textarea } from '@/components/ui/textarea'
+import { COVER_ART_TYPES, DEFAULT_TAG_TEMPLATE, MAX_COVER_ART_BYTES, TAG_PLACEHOLDERS, type TagTemplate } from '@/lib/audioTags'
+import { WAV_BIT_DEPTHS, WAV_SAMPLE_RATES, arrayBufferToBase64, describeWavFormat, type WavBitDepth, type WavFormat } from '@/lib/wav'
+import { toast } from 'sonner'
+
+interface ExportSettingsProps {
+  wavFormat: WavFormat
+  onWavFormatChange: (format: WavFormat) => void
+  tagTemplate: TagTemplate
+  onTagTemplateChange: (template: TagTemplate) => void
+}
+
+const TAG_FIELDS: { key: 'title' | 'artist' | 'album'; label: string }[] = [
+  { key: 'title', label: 'Title' },
+  { key: 'artist', label: 'Artist' },
+  { key: 'album', label: 'Album' }
+]
+
+export function ExportSettings({ wavFormat, onWavFormatChange, tagTemplate, onTagTemplateChange }: ExportSettingsProps) {
+  const coverInputRef = useRef<HTMLInputElement>(null)
+  const update = (changes: Partial<WavFormat>) => onWavFormatChange({ ...wavFormat, ...changes })
+  const updateTags = (changes: Partial<TagTemplate>) => onTagTemplateChange({ ...tagTemplate, ...changes })
+
+  const handleCoverUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    event.target.value = ''
+    if (!file) return
+
+    if (!COVER_ART_TYPES.includes(file.type)) {
+      toast.error('Cover art must be a PNG or JPEG image')
+      return
+    }
+    if (file.size > MAX_COVER_ART_BYTES) {
+      toast.error(`Cover art must be under ${MAX_COVER_ART_BYTES / 1024} KB`)
+      return
+    }
+
+    try {
+      updateTags({ coverArt: `data:${file.type};base64,${arrayBufferToBase64(await file.arrayBuffer())}` })
+    } catch (error) {
+      console.error('Cover art error:', error)
+      toast.error(`Could not read ${file.name}`)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <FileAudio className="w-5 h-5 text-accent" />
+          Export
+        </CardTitle>
+        <CardDescription>WAV format and the tags embedded in every download</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          <Label>Sample Rate</Label>
+          <Select value={String(wavFormat.sampleRate)} onValueChange={(value) => update({ sampleRate: Number(value) })}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {WAV_SAMPLE_RATES.map(rate => (
+                <SelectItem key={rate} value={String(rate)}>
+                  {rate / 1000} kHz
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="grid grid-cols-2 gap-2">
+          <div className="space-y-2">
+            <Label>Bit Depth</Label>
+            <Select value={String(wavFormat.bitDepth)} onValueChange={(value) => update({ bitDepth: Number(value) as WavBitDepth })}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {WAV_BIT_DEPTHS.map(depth => (
+                  <SelectItem key={depth.value} value={String(depth.value)}>
+                    {depth.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Channels</Label>
+            <Select value={String(wavFormat.channels)} onValueChange={(value) => update({ channels: value === '2' ? 2 : 1 })}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="1">Mono</SelectItem>
+                <SelectItem value="2">Stereo</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <span className="text-xs text-muted-foreground">
+          WAV downloads: {describeWavFormat(wavFormat)}. Renders are resampled when the rate differs.
+        </span>
+
+        <div className="space-y-4 border-t pt-4">
+          <div className="flex items-center justify-between">
+            <Label>Tags</Label>
+            <Button variant="ghost" size="sm" onClick={() => onTagTemplateChange({ ...DEFAULT_TAG_TEMPLATE, coverArt: tagTemplate.coverArt })}>
+              Reset
+            </Button>
+          </div>
+
+          {TAG_FIELDS.map(field => (
+            <div key={field.key} className="space-y-2">
+              <Label htmlFor={`tag-${field.key}`} className="text-xs text-muted-foreground">{field.label}</Label>
+              <Input
+                id={`tag-${field.key}`}
+                value={tagTemplate[field.key]}
+                onChange={(e) => updateTags({ [field.key]: e.target.value })}
+              />
+            </div>
+          ))}
+
+          <div className="space-y-2">
+            <Label htmlFor="tag-comment" className="text-xs text-muted-foreground">Comment</Label>
+            <Textarea
+              id="tag-comment"
+              value={tagTemplate.comment}
+              onChange={(e) => updateTags({ comment: e.target.value })}
+              rows={2}
+            />
+          </div>
+
+          <div className="flex items-center justify-between">
+            <Label htmlFor="tag-lyrics" className="text-xs text-muted-foreground">Embed script as lyrics</Label>
+            <Switch
+              id="tag-lyrics"
+              checked={tagTemplate.includeLyrics}
+              onCheckedChange={(checked) => updateTags({ includeLyrics: checked })}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label className="text-xs text-muted-foreground">Cover Art</Label>
+            <div className="flex items-center gap-3">
+              {tagTemplate.coverArt ? (
+                <img src={tagTemplate.coverArt} alt="Cover art" className="w-12 h-12 rounded object-cover border" />
+              ) : (
+                <div className="w-12 h-12 rounded border border-dashed flex items-center justify-center">
+                  <ImageSquare className="w-5 h-5 text-muted-foreground" />
+                </div>
+              )}
+              <input
+                ref={coverInputRef}
+                type="file"
+                accept={COVER_ART_TYPES.join(',')}
+                className="hidden"
+                onChange={handleCoverUpload}
+              />
+              <Button variant="outline" size="sm" onClick={() => coverInputRef.current?.click()}>
+                {tagTemplate.coverArt ? 'Replace' : 'Upload'}
+              </Button>
+              {tagTemplate.coverArt && (
+                <Button variant="ghost" size="sm" onClick={() => updateTags({ coverArt: undefined })} title="Remove cover art">
+                  <Trash className="w-4 h-4" />
+                </Button>
+              )}
+            </div>
+          </div>
+
+          <span className="text-xs text-muted-foreground block">
+            Placeholders: {TAG_PLACEHOLDERS.map(placeholder => (
+              <code key={placeholder.key} title={placeholder.description} className="mr-1">{`{${placeholder.key}}`}</code>
+            ))}
+          </span>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
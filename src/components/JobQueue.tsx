@@ -0,0 +1,137 @@
+import { Queue, ArrowClockwise, X, Trash, CheckCircle, Warning, Clock, SpinnerGap } from '@phosphor-icons/react'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Label } from '@/components/ui/label'
+import { Progress } from '@/components/ui/progress'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+
+interface QueuedJob {
+  id: string
+  input: {
+    text: string
+    voice: { name: string }
+  }
+  status: 'pending' | 'running' | 'done' | 'failed'
+  progress: number
+  attempts: number
+  error?: string
+}
+
+interface JobQueueProps {
+  jobs: QueuedJob[]
+  concurrency: number
+  onConcurrencyChange: (concurrency: number) => void
+  onRetry: (id: string) => void
+  onCancel: (id: string) => void
+  onRemove: (id: string) => void
+  onClearFinished: () => void
+}
+
+const STATUS_LABELS: Record<QueuedJob['status'], string> = {
+  pending: 'Pending',
+  running: 'Running',
+  done: 'Done',
+  failed: 'Failed'
+}
+
+export function JobQueue({ jobs, concurrency, onConcurrencyChange, onRetry, onCancel, onRemove, onClearFinished }: JobQueueProps) {
+  if (jobs.length === 0) return null
+
+  const counts = jobs.reduce<Record<string, number>>((acc, job) => {
+    acc[job.status] = (acc[job.status] || 0) + 1
+    return acc
+  }, {})
+
+  const getStatusIcon = (status: QueuedJob['status']) => {
+    switch (status) {
+      case 'running':
+        return <SpinnerGap className="w-4 h-4 text-accent animate-spin" />
+      case 'done':
+        return <CheckCircle className="w-4 h-4 text-green-500" />
+      case 'failed':
+        return <Warning className="w-4 h-4 text-destructive" />
+      default:
+        return <Clock className="w-4 h-4 text-muted-foreground" />
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Queue className="w-5 h-5 text-accent" />
+              Generation Queue
+            </CardTitle>
+            <CardDescription>
+              {counts.running || 0} running • {counts.pending || 0} pending • {counts.done || 0} done
+              {counts.failed ? ` • ${counts.failed} failed` : ''}
+            </CardDescription>
+          </div>
+          <div className="flex items-center gap-2">
+            <Label className="text-xs text-muted-foreground">Parallel</Label>
+            <Select value={String(concurrency)} onValueChange={(value) => onConcurrencyChange(Number(value))}>
+              <SelectTrigger className="w-16">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {[1, 2, 3, 4].map(value => (
+                  <SelectItem key={value} value={String(value)}>{value}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button variant="outline" size="sm" onClick={onClearFinished} disabled={!counts.done}>
+              Clear done
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <div className="space-y-2 max-h-80 overflow-y-auto">
+          {jobs.map(job => (
+            <div key={job.id} className="flex items-center gap-3 p-3 border rounded-lg">
+              {getStatusIcon(job.status)}
+
+              <div className="flex-1 min-w-0 space-y-1">
+                <div className="text-sm font-medium truncate">{job.input.text}</div>
+                <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                  <Badge variant={job.status === 'failed' ? 'destructive' : 'outline'} className="text-xs">
+                    {STATUS_LABELS[job.status]}
+                  </Badge>
+                  <span>{job.input.voice.name}</span>
+                  {job.attempts > 1 && <span>• attempt {job.attempts}</span>}
+                  {job.error && <span className="text-destructive truncate">• {job.error}</span>}
+                </div>
+                {job.status === 'running' && (
+                  <Progress value={job.progress} className="h-1" />
+                )}
+              </div>
+
+              {job.status === 'failed' && (
+                <Button size="sm" variant="ghost" onClick={() => onRetry(job.id)}>
+                  <ArrowClockwise className="w-4 h-4" />
+                </Button>
+              )}
+              {(job.status === 'pending' || job.status === 'running') ? (
+                <Button size="sm" variant="ghost" onClick={() => onCancel(job.id)}>
+                  <X className="w-4 h-4" />
+                </Button>
+              ) : (
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  onClick={() => onRemove(job.id)}
+                  className="text-destructive hover:text-destructive"
+                >
+                  <Trash className="w-4 h-4" />
+                </Button>
+              )}
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,245 @@
+import { useState, useRef } from 'react'
+import { BookOpenText, Plus, Play, Trash, UploadSimple, DownloadSimple, MagnifyingGlass } from '@phosphor-icons/react'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import {
+  exportLexiconCsv,
+  exportLexiconJson,
+  importLexicon,
+  validateLexiconEntry,
+  LEXICON_ALPHABETS,
+  type LexiconAlphabet,
+  type LexiconEntry
+} from '@/lib/lexicon'
+import { toast } from 'sonner'
+
+interface LexiconManagerProps {
+  entries: LexiconEntry[]
+  onEntriesChange: (entries: LexiconEntry[] | ((prev: LexiconEntry[]) => LexiconEntry[])) => void
+  onTestPronunciation: (entry: LexiconEntry) => Promise<void>
+}
+
+const PLACEHOLDERS: Record<LexiconAlphabet, string> = {
+  respelling: 'nye-kee',
+  ipa: 'ˈnaɪki',
+  arpabet: 'N AY1 K IY0'
+}
+
+export function LexiconManager({ entries, onEntriesChange, onTestPronunciation }: LexiconManagerProps) {
+  const [word, setWord] = useState('')
+  const [pronunciation, setPronunciation] = useState('')
+  const [alphabet, setAlphabet] = useState<LexiconAlphabet>('respelling')
+  const [search, setSearch] = useState('')
+  const [testingId, setTestingId] = useState<string | null>(null)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  const draft = { id: 'lexicon-draft', word: word.trim(), pronunciation: pronunciation.trim(), alphabet }
+  const draftError = word || pronunciation ? validateLexiconEntry(draft) : null
+
+  const filteredEntries = entries
+    .filter(entry => entry.word.toLowerCase().includes(search.toLowerCase()) || entry.pronunciation.toLowerCase().includes(search.toLowerCase()))
+    .sort((a, b) => a.word.localeCompare(b.word))
+
+  const handleAdd = () => {
+    if (validateLexiconEntry(draft)) return
+
+    const existing = entries.find(entry => entry.word.toLowerCase() === draft.word.toLowerCase())
+    const entry = { ...draft, id: existing?.id || `lexicon-${Date.now()}` }
+    onEntriesChange(prev => [...prev.filter(item => item.id !== entry.id), entry])
+    setWord('')
+    setPronunciation('')
+    toast.success(existing ? `Updated "${entry.word}"` : `Added "${entry.word}"`)
+  }
+
+  const handleTest = async (entry: LexiconEntry) => {
+    setTestingId(entry.id)
+    try {
+      await onTestPronunciation(entry)
+    } catch (error) {
+      console.error('Pronunciation test failed:', error)
+      toast.error('Failed to play pronunciation')
+    } finally {
+      setTestingId(null)
+    }
+  }
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    event.target.value = ''
+    if (!file) return
+
+    try {
+      const { entries: imported, errors } = importLexicon(await file.text(), file.name)
+      // Imported words replace existing entries for the same word
+      const words = new Set(imported.map(entry => entry.word.toLowerCase()))
+      onEntriesChange(prev => [...prev.filter(entry => !words.has(entry.word.toLowerCase())), ...imported])
+
+      if (errors.length > 0) {
+        toast.warning(`Imported ${imported.length} entries, skipped ${errors.length}: ${errors[0]}`)
+      } else {
+        toast.success(`Imported ${imported.length} entries`)
+      }
+    } catch (error) {
+      console.error('Lexicon import error:', error)
+      toast.error(`Could not read ${file.name}`)
+    }
+  }
+
+  const handleExport = (format: 'json' | 'csv') => {
+    const content = format === 'json' ? exportLexiconJson(entries) : exportLexiconCsv(entries)
+    const blob = new Blob([content], { type: format === 'json' ? 'application/json' : 'text/csv' })
+    const url = URL.createObjectURL(blob)
+    const link = document.createElement('a')
+    link.href = url
+    link.download = `voiceforge-lexicon.${format}`
+    document.body.appendChild(link)
+    link.click()
+    document.body.removeChild(link)
+    URL.revokeObjectURL(url)
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <BookOpenText className="w-5 h-5 text-accent" />
+              Pronunciation Lexicon
+            </CardTitle>
+            <CardDescription>
+              Fix how brand names and jargon are spoken ({entries.length} entries, applied to every generation)
+            </CardDescription>
+          </div>
+          <div className="flex gap-2">
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".json,.csv,application/json,text/csv"
+              className="hidden"
+              onChange={handleImport}
+            />
+            <Button variant="outline" size="sm" onClick={() => fileInputRef.current?.click()}>
+              <UploadSimple className="w-4 h-4 mr-2" />
+              Import
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => handleExport('json')} disabled={entries.length === 0}>
+              <DownloadSimple className="w-4 h-4 mr-2" />
+              JSON
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => handleExport('csv')} disabled={entries.length === 0}>
+              <DownloadSimple className="w-4 h-4 mr-2" />
+              CSV
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+
+      <CardContent className="space-y-6">
+        {/* New entry */}
+        <div className="space-y-2">
+          <div className="grid grid-cols-1 md:grid-cols-[1fr_1fr_10rem_auto] gap-2 items-end">
+            <div className="space-y-2">
+              <Label htmlFor="lexicon-word">Word or phrase</Label>
+              <Input id="lexicon-word" placeholder="Nike" value={word} onChange={(e) => setWord(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="lexicon-pronunciation">Pronunciation</Label>
+              <Input
+                id="lexicon-pronunciation"
+                placeholder={PLACEHOLDERS[alphabet]}
+                value={pronunciation}
+                onChange={(e) => setPronunciation(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && handleAdd()}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Alphabet</Label>
+              <Select value={alphabet} onValueChange={(value: LexiconAlphabet) => setAlphabet(value)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {LEXICON_ALPHABETS.map(option => (
+                    <SelectItem key={option.id} value={option.id}>{option.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="flex gap-2">
+              <Button
+                variant="outline"
+                onClick={() => handleTest(draft)}
+                disabled={!!validateLexiconEntry(draft) || testingId !== null}
+                title="Test pronunciation"
+              >
+                <Play className="w-4 h-4" />
+              </Button>
+              <Button onClick={handleAdd} disabled={!!validateLexiconEntry(draft)}>
+                <Plus className="w-4 h-4 mr-2" />
+                Add
+              </Button>
+            </div>
+          </div>
+          {draftError && <p className="text-xs text-destructive">{draftError}</p>}
+        </div>
+
+        {/* Entries */}
+        {entries.length > 0 && (
+          <div className="relative">
+            <MagnifyingGlass className="absolute left-3 top-1/2 transform -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+            <Input
+              placeholder="Search lexicon..."
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              className="pl-10"
+            />
+          </div>
+        )}
+
+        {entries.length === 0 ? (
+          <div className="text-center py-8 text-muted-foreground">
+            <BookOpenText className="w-12 h-12 mx-auto mb-4 opacity-50" />
+            <p>No pronunciations yet</p>
+            <p className="text-sm">Add a word above or import a JSON/CSV file</p>
+          </div>
+        ) : (
+          <div className="space-y-2">
+            {filteredEntries.map(entry => (
+              <div key={entry.id} className="flex items-center gap-3 rounded-lg border p-3">
+                <div className="flex-1 min-w-0">
+                  <div className="font-medium truncate">{entry.word}</div>
+                  <div className="text-sm text-muted-foreground font-mono truncate">{entry.pronunciation}</div>
+                </div>
+                <Badge variant="outline">
+                  {LEXICON_ALPHABETS.find(option => option.id === entry.alphabet)?.label}
+                </Badge>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => handleTest(entry)}
+                  disabled={testingId !== null}
+                  title="Test pronunciation"
+                >
+                  <Play className="w-4 h-4" />
+                </Button>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => onEntriesChange(prev => prev.filter(item => item.id !== entry.id))}
+                  className="text-destructive hover:text-destructive"
+                >
+                  <Trash className="w-4 h-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -1,58 +1,172 @@
-import { useState, useRef } from 'react'
-import { Play, Pause, Download, SpeakerHigh, FileText, SpeakerLow } from '@phosphor-icons/react'
+import { useState, useRef, useMemo } from 'react'
+import { Play, Pause, Download, SpeakerHigh, FileText, SpeakerLow, Code, Warning, X, ListPlus, ChatsCircle, Subtitles, SpinnerGap } from '@phosphor-icons/react'
 import { Button } from '@/components/ui/button'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Textarea } from '@/components/ui/textarea'
+import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
 import { Badge } from '@/components/ui/badge'
 import { Progress } from '@/components/ui/progress'
 import { Slider } from '@/components/ui/slider'
+import { Switch } from '@/components/ui/switch'
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
 import { AudioVisualizer } from '@/components/AudioVisualizer'
-import { audioManager } from '@/lib/audioManager'
+import { DialogueCast } from '@/components/DialogueCast'
+import { audioManager, type AudioStreamHandle } from '@/lib/audioManager'
+import { takeStore } from '@/lib/takeStore'
+import { normalizeText } from '@/lib/textNormalizer'
+import { detectLanguage } from '@/lib/languageDetection'
+import { getLanguageLabel } from '@/lib/languages'
+import { parseSsml, segmentsToText } from '@/lib/ssml'
+import { chunkSegments, chunkText } from '@/lib/textChunker'
+import { LOUDNESS_TARGETS } from '@/lib/loudness'
+import { DEFAULT_SPEAKING_STYLE, SPEAKING_STYLES, getSpeakingStyle } from '@/lib/speakingStyles'
+import { parseDialogue } from '@/lib/dialogueScript'
+import { buildCaptions, CAPTION_MIME_TYPES, type CaptionFormat } from '@/lib/captions'
+import type { RenderedChunk } from '@/lib/chunkedSynthesis'
+import type { SynthesisSegment } from '@/lib/synthesisProvider'
+import { cn, isAbortError } from '@/lib/utils'
+import { MAX_SEED } from '@/lib/random'
+import { downloadAudio, EXPORT_FORMATS, DEFAULT_EXPORT_FORMAT, type ExportFormat } from '@/lib/audioExport'
+import { mp3Bitrate } from '@/lib/mp3Encoder'
+import { opusBitrate, OPUS_UNSUPPORTED_REASON } from '@/lib/opusEncoder'
+import type { TagTemplate } from '@/lib/audioTags'
+import { describeWavFormat, type WavFormat } from '@/lib/wav'
 import { toast } from 'sonner'
+import { useOpusSupport } from '@/hooks/useOpusSupport'
+
+// Long documents are split into chunks, so this only guards against runaway pastes
+const MAX_TEXT_LENGTH = 100000
+const STREAM_AUDIO_ID = 'text-to-speech-stream'
+
+const QUALITY_OPTIONS = [
+  { id: 'standard', label: 'Standard' },
+  { id: 'high', label: 'High' },
+  { id: 'premium', label: 'Premium' }
+]
 
 interface Voice {
   id: string
   name: string
   category: string
+  language: string
+  locale: string
 }
 
 interface GeneratedAudio {
   id: string
   text: string
   voice: Voice
-  audioUrl: string
   duration: number
   quality: string
+  bitrateMode?: 'cbr' | 'vbr'
+  exportFormat?: ExportFormat
   createdAt: Date
+  speakers?: { name: string; voiceName: string }[]
+  loudness?: {
+    integrated: number
+    truePeak: number
+    target: number | null
+  }
+  style?: string
+  seed?: number
+  speed?: number
+  pitch?: number
+  words?: { text: string; start: number; end: number }[]
+  sentences?: { text: string; start: number; end: number }[]
+  cached?: boolean
 }
 
+type RenderSettings = { quality: string; bitrateMode: 'cbr' | 'vbr'; exportFormat: ExportFormat; speed: number; pitch: number; volume: number; loudnessTarget: number | null; style: string; seed?: number }
+
 interface TextToSpeechProps {
   selectedVoice: Voice | null
-  onGenerate: (text: string, voice: Voice, settings: { quality: string; speed: number; pitch: number }) => Promise<GeneratedAudio>
+  voices: Voice[]
+  onGenerate: (text: string, voice: Voice, settings: RenderSettings, segments?: SynthesisSegment[], options?: { forceRender?: boolean; onChunk?: (chunk: RenderedChunk) => void }) => Promise<GeneratedAudio>
+  onGenerateDialogue: (script: string, turns: { speaker: string; text: string }[], cast: Record<string, Voice>, settings: RenderSettings, gapMs: number) => Promise<GeneratedAudio>
+  onEnqueue: (texts: string[], voice: Voice, settings: RenderSettings) => void
+  onCancel: () => void
   isGenerating: boolean
   generationProgress: number
+  /** Format of WAV downloads */
+  wavFormat: WavFormat
+  /** Template the tags of every download are filled in from */
+  tagTemplate: TagTemplate
 }
 
-export function TextToSpeech({ selectedVoice, onGenerate, isGenerating, generationProgress }: TextToSpeechProps) {
+export function TextToSpeech({ selectedVoice, voices, onGenerate, onGenerateDialogue, onEnqueue, onCancel, isGenerating, generationProgress, wavFormat, tagTemplate }: TextToSpeechProps) {
   const [text, setText] = useState('')
   const [speed, setSpeed] = useState([1.0])
   const [pitch, setPitch] = useState([1.0])
   const [volume, setVolume] = useState([0.8])
   const [quality, setQuality] = useState('high')
+  const [bitrateMode, setBitrateMode] = useState<'cbr' | 'vbr'>('cbr')
+  const [exportFormat, setExportFormat] = useState<ExportFormat>(DEFAULT_EXPORT_FORMAT)
+  const opusSupported = useOpusSupport()
+  const [loudnessTargetId, setLoudnessTargetId] = useState('podcast')
+  const [style, setStyle] = useState(DEFAULT_SPEAKING_STYLE)
+  const [seedInput, setSeedInput] = useState('')
+  const [forceRender, setForceRender] = useState(false)
   const [isPlaying, setIsPlaying] = useState(false)
   const [generatedAudio, setGeneratedAudio] = useState<GeneratedAudio | null>(null)
+  const [showNormalized, setShowNormalized] = useState(false)
+  const [inputMode, setInputMode] = useState<'text' | 'ssml' | 'dialogue'>('text')
+  const [castChoices, setCastChoices] = useState<Record<string, string>>({})
+  const [turnGap, setTurnGap] = useState(400)
+  const [isExporting, setIsExporting] = useState(false)
+  const [stream, setStream] = useState<{ total: number; ready: number; played: number; playing: boolean } | null>(null)
   const currentAudioRef = useRef<HTMLAudioElement | null>(null)
+  const streamRef = useRef<AudioStreamHandle | null>(null)
+
+  // An empty seed lets the generator derive one from the text, voice and settings
+  const getSeed = () => (/^\d+$/.test(seedInput.trim()) ? Math.min(Number(seedInput.trim()), MAX_SEED) : undefined)
+  const getLoudnessTarget = () => LOUDNESS_TARGETS.find(target => target.id === loudnessTargetId)?.lufs ?? null
+
+  const ssml = useMemo(() => (inputMode === 'ssml' ? parseSsml(text, selectedVoice?.locale) : null), [inputMode, text, selectedVoice?.locale])
+  const chunkCount = useMemo(() => (ssml ? chunkSegments(ssml.segments) : chunkText(text)).length, [ssml, text])
+  const dialogue = useMemo(() => (inputMode === 'dialogue' ? parseDialogue(text) : null), [inputMode, text])
+
+  // Speakers nobody has picked a voice for yet start on the selected voice, then cycle through the library
+  const cast = useMemo(() => {
+    const resolved: Record<string, string> = {}
+    dialogue?.speakers.forEach((speaker, index) => {
+      const fallback = index === 0 && selectedVoice ? selectedVoice : voices[index % Math.max(1, voices.length)]
+      resolved[speaker] = castChoices[speaker] ?? fallback?.id
+    })
+    return resolved
+  }, [dialogue, castChoices, selectedVoice, voices])
+
+  // The opening few thousand characters are plenty to tell the language
+  const detectedLanguage = useMemo(() => {
+    const spoken = dialogue ? dialogue.turns.map(turn => turn.text).join(' ') : ssml ? segmentsToText(ssml.segments) : text
+    return detectLanguage(spoken.slice(0, 2000))
+  }, [dialogue, ssml, text])
+
+  const speakingVoices = dialogue
+    ? voices.filter(voice => Object.values(cast).includes(voice.id))
+    : selectedVoice ? [selectedVoice] : []
+  const mismatchedVoices = detectedLanguage
+    ? speakingVoices.filter(voice => voice.language && voice.language !== detectedLanguage.language)
+    : []
+
+  const markupErrors = ssml?.errors.length || dialogue?.errors.length || 0
+  const canGenerate = dialogue
+    ? dialogue.turns.length > 0 && dialogue.speakers.every(speaker => voices.some(voice => voice.id === cast[speaker]))
+    : !!selectedVoice && !!text.trim()
 
   const handleGenerate = async () => {
-    if (!selectedVoice || !text.trim()) {
-      toast.error('Please select a voice and enter text to generate')
+    if (!canGenerate) {
+      toast.error(dialogue ? 'Please assign a voice to every speaker' : 'Please select a voice and enter text to generate')
+      return
+    }
+
+    if (text.length > MAX_TEXT_LENGTH) {
+      toast.error(`Text must be under ${MAX_TEXT_LENGTH.toLocaleString()} characters`)
       return
     }
 
-    if (text.length > 5000) {
-      toast.error('Text must be under 5000 characters')
+    if (markupErrors > 0) {
+      toast.error(ssml ? 'Fix the SSML errors before generating' : 'Fix the script errors before generating')
       return
     }
 
@@ -61,28 +175,101 @@ export function TextToSpeech({ selectedVoice, onGenerate, isGenerating, generati
         speed: speed[0],
         pitch: pitch[0],
         volume: volume[0],
-        quality
+        quality,
+        bitrateMode,
+        exportFormat,
+        loudnessTarget: getLoudnessTarget(),
+        style,
+        seed: getSeed()
       }
       
-      const audio = await onGenerate(text, selectedVoice, settings)
+      // Multi-chunk renders start playing as soon as the first chunk is ready
+      const options = { forceRender, onChunk: chunkCount > 1 ? handleStreamChunk : undefined }
+      
+      const audio = dialogue
+        ? await onGenerateDialogue(text, dialogue.turns, resolveCast(), settings, turnGap)
+        : ssml
+          ? await onGenerate(segmentsToText(ssml.segments), selectedVoice!, settings, ssml.segments, options)
+          : await onGenerate(text, selectedVoice!, settings, undefined, options)
+      streamRef.current?.finish()
       setGeneratedAudio(audio)
-      toast.success('Voice generated successfully!')
-    } catch {
-      toast.error('Failed to generate voice. Please try again.')
+      toast.success(audio.cached ? 'Loaded from the render cache' : 'Voice generated successfully!')
+    } catch (error) {
+      handleStopStream()
+      if (isAbortError(error)) {
+        toast.info('Generation cancelled')
+      } else {
+        toast.error('Failed to generate voice. Please try again.')
+      }
     }
   }
 
+  const handleStreamChunk = (chunk: RenderedChunk) => {
+    if (chunk.index === 0) {
+      if (generatedAudio) {
+        audioManager.stopAudio(`text-to-speech-${generatedAudio.id}`)
+        setIsPlaying(false)
+      }
+      try {
+        streamRef.current = audioManager.startStream(STREAM_AUDIO_ID, {
+          onChunkEnded: index => setStream(prev => prev && { ...prev, played: index + 1 }),
+          onEnded: () => setStream(prev => prev && { ...prev, playing: false })
+        })
+        audioManager.setVolume(STREAM_AUDIO_ID, volume[0])
+      } catch (error) {
+        // Without Web Audio the take simply plays once it is finished
+        console.warn('Streaming playback unavailable:', error)
+        streamRef.current = null
+      }
+      setStream({ total: chunk.count, ready: 0, played: 0, playing: !!streamRef.current })
+    }
+
+    streamRef.current?.append(chunk.samples, chunk.sampleRate, chunk.gapAfter)
+    setStream(prev => prev && { ...prev, ready: chunk.index + 1 })
+  }
+
+  const handleStopStream = () => {
+    audioManager.stopAudio(STREAM_AUDIO_ID)
+    streamRef.current = null
+    setStream(prev => prev && { ...prev, playing: false })
+  }
+
+  const resolveCast = () => {
+    const resolved: Record<string, Voice> = {}
+    Object.entries(cast).forEach(([speaker, voiceId]) => {
+      const voice = voices.find(v => v.id === voiceId)
+      if (voice) resolved[speaker] = voice
+    })
+    return resolved
+  }
+
+  const lines = useMemo(() => text.split('\n').map(line => line.trim()).filter(Boolean), [text])
+
+  const handleQueueLines = () => {
+    if (!selectedVoice || lines.length === 0) {
+      toast.error('Please select a voice and enter text to generate')
+      return
+    }
+
+    onEnqueue(lines, selectedVoice, { speed: speed[0], pitch: pitch[0], volume: volume[0], quality, bitrateMode, exportFormat, loudnessTarget: getLoudnessTarget(), style, seed: getSeed() })
+  }
+
   const handlePlayPause = async () => {
     if (!generatedAudio) return
 
     const audioId = `text-to-speech-${generatedAudio.id}`
 
     try {
+      handleStopStream()
       if (isPlaying) {
         audioManager.stopAudio(audioId)
         setIsPlaying(false)
       } else {
-        await audioManager.playAudio(generatedAudio.audioUrl, audioId)
+        const url = await takeStore.url(generatedAudio.id)
+        if (!url) {
+          throw new Error('The audio for this take is no longer stored')
+        }
+        await audioManager.playAudio(url, audioId)
         
         // Get the audio element for visualization
         const audioInstance = audioManager.getAudioInstance(audioId)
@@ -90,9 +277,8 @@ export function TextToSpeech({ selectedVoice, onGenerate, isGenerating, generati
           currentAudioRef.current = audioInstance.audio
         }
         
-        // Apply current settings
+        // Speed and pitch are baked into the render; only volume is a playback setting
         audioManager.setVolume(audioId, volume[0])
-        audioManager.setPlaybackRate(audioId, speed[0])
         
         setIsPlaying(true)
         
@@ -113,19 +299,56 @@ export function TextToSpeech({ selectedVoice, onGenerate, isGenerating, generati
     }
   }
 
-  const handleDownload = () => {
+  const handleDownload = async () => {
+    if (!generatedAudio) return
+
+    // Quality and bitrate mode follow the pickers, so a take can be re-exported without rendering it again
+    setIsExporting(true)
+    try {
+      await downloadAudio({ ...generatedAudio, quality, bitrateMode }, exportFormat, { wavFormat, tagTemplate }, `voiceforge-${generatedAudio.voice.name}-${Date.now()}`)
+      toast.success('Audio downloaded successfully!')
+    } catch (error) {
+      console.error('Audio export error:', error)
+      toast.error(error instanceof Error && error.message ? error.message : `Failed to encode ${EXPORT_FORMATS[exportFormat].label}`)
+    } finally {
+      setIsExporting(false)
+    }
+  }
+
+  const getQualityBitrate = (id: string) => {
+    if (exportFormat === 'mp3') return mp3Bitrate(id)
+    if (exportFormat === 'opus') return opusBitrate(id)
+    return null
+  }
+
+  const handleDownloadCaptions = (format: CaptionFormat) => {
     if (!generatedAudio) return
-    
+
+    const blob = new Blob([buildCaptions(generatedAudio, format)], { type: CAPTION_MIME_TYPES[format] })
+    const url = URL.createObjectURL(blob)
     const link = document.createElement('a')
-    link.href = generatedAudio.audioUrl
-    link.download = `voiceforge-${generatedAudio.voice.name}-${Date.now()}.mp3`
+    link.href = url
+    link.download = `voiceforge-${generatedAudio.voice.name}-${Date.now()}.${format}`
     document.body.appendChild(link)
     link.click()
     document.body.removeChild(link)
-    
-    toast.success('Audio downloaded successfully!')
+    URL.revokeObjectURL(url)
+
+    toast.success(`${format.toUpperCase()} captions downloaded`)
   }
 
+  const normalizedText = useMemo(() => {
+    if (!showNormalized) return ''
+    if (dialogue) {
+      return dialogue.turns
+        .map(turn => `${turn.speaker}: ${normalizeText(turn.text, voices.find(voice => voice.id === cast[turn.speaker])?.locale)}`)
+        .join('\n')
+    }
+    return normalizeText(ssml ? segmentsToText(ssml.segments) : text, selectedVoice?.locale)
+  }, [showNormalized, ssml, dialogue, text, voices, cast, selectedVoice])
+
+  const formatLevel = (value: number, unit: string) => (Number.isFinite(value) ? `${value.toFixed(1)} ${unit}` : `-∞ ${unit}`)
+
   const getCharacterCount = () => text.length
   const getEstimatedDuration = () => {
     const wordsPerMinute = 150 * speed[0]
@@ -153,19 +376,115 @@ export function TextToSpeech({ selectedVoice, onGenerate, isGenerating, generati
         </CardHeader>
         <CardContent className="space-y-4">
           <div className="space-y-2">
-            <Label htmlFor="text-input">Your Text</Label>
+            <div className="flex items-center justify-between">
+              <Label htmlFor="text-input">Your Text</Label>
+              <div className="flex gap-2">
+                <Button
+                  variant={inputMode === 'text' ? 'default' : 'outline'}
+                  size="sm"
+                  onClick={() => setInputMode('text')}
+                >
+                  <FileText className="w-4 h-4 mr-1" />
+                  Plain text
+                </Button>
+                <Button
+                  variant={inputMode === 'ssml' ? 'default' : 'outline'}
+                  size="sm"
+                  onClick={() => setInputMode('ssml')}
+                >
+                  <Code className="w-4 h-4 mr-1" />
+                  SSML
+                </Button>
+                <Button
+                  variant={inputMode === 'dialogue' ? 'default' : 'outline'}
+                  size="sm"
+                  onClick={() => setInputMode('dialogue')}
+                >
+                  <ChatsCircle className="w-4 h-4 mr-1" />
+                  Dialogue
+                </Button>
+              </div>
+            </div>
             <Textarea
               id="text-input"
-              placeholder="Enter your text here... (max 5000 characters)"
+              placeholder={inputMode === 'ssml'
+                ? '<speak>Hello <break time="300ms"/> <prosody rate="slow">world</prosody></speak>'
+                : inputMode === 'dialogue'
+                  ? 'Host: Welcome back to the show.\nGuest: Thanks for having me!'
+                  : 'Enter your text here... long articles are split into chunks automatically'}
               value={text}
               onChange={(e) => setText(e.target.value)}
-              className="min-h-32 resize-none"
-              maxLength={5000}
+              className={`min-h-32 resize-none ${inputMode !== 'text' ? 'font-mono text-sm' : ''}`}
+              maxLength={MAX_TEXT_LENGTH}
             />
+            {ssml && text.trim() && ssml.errors.length > 0 && (
+              <div className="space-y-1 text-xs text-destructive">
+                {ssml.errors.map((error, index) => (
+                  <div key={index} className="flex items-center gap-1">
+                    <Warning className="w-3 h-3 shrink-0" />
+                    <span>Line {error.line}, column {error.column}: {error.message}</span>
+                  </div>
+                ))}
+              </div>
+            )}
+            {dialogue && dialogue.errors.length > 0 && (
+              <div className="space-y-1 text-xs text-destructive">
+                {dialogue.errors.map((error, index) => (
+                  <div key={index} className="flex items-center gap-1">
+                    <Warning className="w-3 h-3 shrink-0" />
+                    <span>Line {error.line}: {error.message}</span>
+                  </div>
+                ))}
+              </div>
+            )}
             <div className="flex justify-between text-xs text-muted-foreground">
-              <span>{getCharacterCount()}/5000 characters</span>
-              <span>≈ {getEstimatedDuration()}s duration</span>
+              <span>
+                {getCharacterCount().toLocaleString()}/{MAX_TEXT_LENGTH.toLocaleString()} characters
+                {chunkCount > 1 && ` • ${chunkCount} chunks`}
+              </span>
+              <span>
+                {detectedLanguage && `${getLanguageLabel(detectedLanguage.language)} detected • `}
+                ≈ {getEstimatedDuration()}s duration
+              </span>
             </div>
+            {detectedLanguage && mismatchedVoices.length > 0 && (
+              <div className="flex items-center gap-1 text-xs text-yellow-600">
+                <Warning className="w-3 h-3 shrink-0" />
+                <span>
+                  Text looks like {getLanguageLabel(detectedLanguage.language)}, but{' '}
+                  {mismatchedVoices.map(voice => `${voice.name} speaks ${getLanguageLabel(voice.language)}`).join(', ')}
+                </span>
+              </div>
+            )}
+          </div>
+
+          {dialogue && (
+            <DialogueCast
+              speakers={dialogue.speakers}
+              voices={voices}
+              cast={cast}
+              onCastChange={(speaker, voiceId) => setCastChoices(prev => ({ ...prev, [speaker]: voiceId }))}
+              gapMs={turnGap}
+              onGapChange={setTurnGap}
+            />
+          )}
+
+          <div className="space-y-2">
+            <div className="flex items-center gap-2">
+              <Switch
+                id="normalized-preview"
+                checked={showNormalized}
+                onCheckedChange={setShowNormalized}
+              />
+              <Label htmlFor="normalized-preview" className="text-xs text-muted-foreground">
+                Preview normalized text
+              </Label>
+            </div>
+            {showNormalized && (
+              <div className="text-sm bg-muted/30 rounded-lg p-3 whitespace-pre-wrap">
+                {normalizedText || <span className="text-muted-foreground">Nothing to speak yet</span>}
+              </div>
+            )}
           </div>
 
           {/* Advanced Controls */}
@@ -209,6 +528,7 @@ export function TextToSpeech({ selectedVoice, onGenerate, isGenerating, generati
                   if (generatedAudio && isPlaying) {
                     audioManager.setVolume(`text-to-speech-${generatedAudio.id}`, value[0])
                   }
+                  audioManager.setVolume(STREAM_AUDIO_ID, value[0])
                 }}
                 max={1}
                 min={0}
@@ -218,6 +538,41 @@ export function TextToSpeech({ selectedVoice, onGenerate, isGenerating, generati
               <span className="text-xs text-muted-foreground">{Math.round(volume[0] * 100)}%</span>
             </div>
 
+            <div className="space-y-2">
+              <Label>Speaking Style</Label>
+              <Select value={style} onValueChange={setStyle}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {SPEAKING_STYLES.map(option => (
+                    <SelectItem key={option.id} value={option.id}>{option.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <span className="text-xs text-muted-foreground">{getSpeakingStyle(style).description}</span>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Download Format</Label>
+              <Select value={exportFormat} onValueChange={value => setExportFormat(value as ExportFormat)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(EXPORT_FORMATS) as ExportFormat[]).map(format => (
+                    <SelectItem key={format} value={format} disabled={format === 'opus' && opusSupported === false}>{EXPORT_FORMATS[format].label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <span className="text-xs text-muted-foreground">
+                {EXPORT_FORMATS[exportFormat].description}{exportFormat === 'wav' && ` • ${describeWavFormat(wavFormat)}`}
+              </span>
+              {opusSupported === false && (
+                <span className="block text-xs text-muted-foreground">Opus unavailable: {OPUS_UNSUPPORTED_REASON}</span>
+              )}
+            </div>
+
             <div className="space-y-2">
               <Label>Audio Quality</Label>
               <Select value={quality} onValueChange={setQuality}>
@@ -225,35 +580,137 @@ export function TextToSpeech({ selectedVoice, onGenerate, isGenerating, generati
                   <SelectValue />
                 </SelectTrigger>
                 <SelectContent>
-                  <SelectItem value="standard">Standard (128kbps)</SelectItem>
-                  <SelectItem value="high">High (256kbps)</SelectItem>
-                  <SelectItem value="premium">Premium (320kbps)</SelectItem>
+                  {QUALITY_OPTIONS.map(option => {
+                    const bitrate = getQualityBitrate(option.id)
+                    return (
+                      <SelectItem key={option.id} value={option.id}>
+                        {option.label}{bitrate !== null && ` (${bitrate}kbps)`}
+                      </SelectItem>
+                    )
+                  })}
                 </SelectContent>
               </Select>
             </div>
+
+            <div className="space-y-2">
+              <Label>Bitrate Mode</Label>
+              <Select value={bitrateMode} onValueChange={value => setBitrateMode(value as 'cbr' | 'vbr')} disabled={exportFormat === 'wav' || exportFormat === 'flac'}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="cbr">Constant (CBR)</SelectItem>
+                  <SelectItem value="vbr">Variable (VBR, average)</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Loudness</Label>
+              <Select value={loudnessTargetId} onValueChange={setLoudnessTargetId}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {LOUDNESS_TARGETS.map(target => (
+                    <SelectItem key={target.id} value={target.id}>{target.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="seed-input">Seed</Label>
+              <Input
+                id="seed-input"
+                inputMode="numeric"
+                placeholder="Auto"
+                value={seedInput}
+                onChange={(e) => setSeedInput(e.target.value.replace(/\D/g, ''))}
+              />
+              <span className="text-xs text-muted-foreground">Same seed and inputs give the same take</span>
+            </div>
           </div>
 
-          <Button
-            onClick={handleGenerate}
-            disabled={!selectedVoice || !text.trim() || isGenerating}
-            className="w-full bg-accent hover:bg-accent/90 text-accent-foreground"
-            size="lg"
-          >
-            {isGenerating ? (
-              <>
-                <SpeakerHigh className="w-5 h-5 mr-2 animate-pulse" />
-                Generating Voice... {Math.round(generationProgress)}%
-              </>
-            ) : (
-              <>
-                <SpeakerHigh className="w-5 h-5 mr-2" />
-                Generate Voice
-              </>
+          {!dialogue && (
+            <div className="flex items-center gap-2">
+              <Switch
+                id="force-render"
+                checked={forceRender}
+                onCheckedChange={setForceRender}
+              />
+              <Label htmlFor="force-render" className="text-xs text-muted-foreground">
+                Force re-render (skip the render cache)
+              </Label>
+            </div>
+          )}
+
+          <div className="flex gap-2">
+            <Button
+              onClick={handleGenerate}
+              disabled={!canGenerate || isGenerating || markupErrors > 0}
+              className="flex-1 bg-accent hover:bg-accent/90 text-accent-foreground"
+              size="lg"
+            >
+              {isGenerating ? (
+                <>
+                  <SpeakerHigh className="w-5 h-5 mr-2 animate-pulse" />
+                  Generating Voice... {Math.round(generationProgress)}%
+                </>
+              ) : (
+                <>
+                  <SpeakerHigh className="w-5 h-5 mr-2" />
+                  Generate Voice
+                </>
+              )}
+            </Button>
+            {inputMode === 'text' && lines.length > 1 && (
+              <Button
+                variant="outline"
+                size="lg"
+                onClick={handleQueueLines}
+                disabled={!selectedVoice}
+              >
+                <ListPlus className="w-5 h-5 mr-2" />
+                Queue {lines.length} lines
+              </Button>
             )}
-          </Button>
+          </div>
+
+          {stream && (isGenerating || stream.playing) && (
+            <div className="space-y-1">
+              <div className="flex gap-0.5">
+                {Array.from({ length: stream.total }, (_, i) => (
+                  <div
+                    key={i}
+                    className={cn('h-2 flex-1 rounded-sm', i < stream.played ? 'bg-accent' : i < stream.ready ? 'bg-accent/40' : 'bg-muted')}
+                    title={`Part ${i + 1}: ${i < stream.played ? 'played' : i < stream.ready ? 'ready' : 'rendering'}`}
+                  />
+                ))}
+              </div>
+              <div className="flex items-center justify-between text-xs text-muted-foreground">
+                <span>
+                  {stream.ready} of {stream.total} parts ready
+                  {stream.playing && ` • playing part ${Math.min(stream.played + 1, stream.ready)}`}
+                </span>
+                {stream.playing && (
+                  <Button variant="ghost" size="sm" onClick={handleStopStream}>
+                    <Pause className="w-4 h-4 mr-1" />
+                    Stop preview
+                  </Button>
+                )}
+              </div>
+            </div>
+          )}
 
           {isGenerating && (
-            <Progress value={generationProgress} className="w-full" />
+            <div className="flex items-center gap-2">
+              <Progress value={generationProgress} className="flex-1" />
+              <Button variant="outline" size="sm" onClick={onCancel}>
+                <X className="w-4 h-4 mr-1" />
+                Cancel
+              </Button>
+            </div>
           )}
         </CardContent>
       </Card>
@@ -265,9 +722,14 @@ export function TextToSpeech({ selectedVoice, onGenerate, isGenerating, generati
             <CardTitle className="flex items-center gap-2">
               <SpeakerHigh className="w-5 h-5 text-accent" />
               Generated Audio
+              {generatedAudio.cached && (
+                <Badge variant="secondary" className="text-xs">
+                  Cached
+                </Badge>
+              )}
             </CardTitle>
             <CardDescription>
-              Generated with {generatedAudio.voice.name} • {generatedAudio.quality} quality
+              Generated with {generatedAudio.speakers ? `${generatedAudio.speakers.length} voices` : generatedAudio.voice.name} • {generatedAudio.quality} quality
             </CardDescription>
           </CardHeader>
           <CardContent>
@@ -301,19 +763,56 @@ export function TextToSpeech({ selectedVoice, onGenerate, isGenerating, generati
                     {generatedAudio.text.length > 100 && '...'}
                   </div>
                   <div className="text-xs text-muted-foreground">
-                    Duration: {generatedAudio.duration}s • Created: {generatedAudio.createdAt.toLocaleTimeString()}
+                    Duration: {generatedAudio.duration.toFixed(2)}s
+                    {generatedAudio.style && ` • ${getSpeakingStyle(generatedAudio.style).label} style`}
+                    {generatedAudio.seed !== undefined && (
+                      <>
+                        {' • Seed '}
+                        <button
+                          type="button"
+                          className="font-mono underline-offset-2 hover:underline"
+                          title="Use this seed for the next generation"
+                          onClick={() => setSeedInput(String(generatedAudio.seed))}
+                        >
+                          {generatedAudio.seed}
+                        </button>
+                      </>
+                    )}
+                    {generatedAudio.words && ` • ${generatedAudio.words.length} timed words`} • Created: {generatedAudio.createdAt.toLocaleTimeString()}
                   </div>
+                  {generatedAudio.speakers && (
+                    <div className="text-xs text-muted-foreground">
+                      Cast: {generatedAudio.speakers.map(speaker => `${speaker.name} (${speaker.voiceName})`).join(', ')}
+                    </div>
+                  )}
+                  {generatedAudio.loudness && (
+                    <div className="text-xs text-muted-foreground">
+                      Loudness: {formatLevel(generatedAudio.loudness.integrated, 'LUFS')} • True peak: {formatLevel(generatedAudio.loudness.truePeak, 'dBTP')}
+                      {generatedAudio.loudness.target !== null && ` • Target ${generatedAudio.loudness.target} LUFS`}
+                    </div>
+                  )}
                 </div>
 
-                <Button
-                  variant="default"
-                  size="sm"
-                  onClick={handleDownload}
-                  className="bg-accent hover:bg-accent/90"
-                >
-                  <Download className="w-4 h-4 mr-2" />
-                  Download MP3
-                </Button>
+                <div className="flex gap-2">
+                  <Button variant="outline" size="sm" onClick={() => handleDownloadCaptions('srt')}>
+                    <Subtitles className="w-4 h-4 mr-2" />
+                    SRT
+                  </Button>
+                  <Button variant="outline" size="sm" onClick={() => handleDownloadCaptions('vtt')}>
+                    <Subtitles className="w-4 h-4 mr-2" />
+                    VTT
+                  </Button>
+                  <Button
+                    variant="default"
+                    size="sm"
+                    onClick={handleDownload}
+                    disabled={isExporting}
+                    className="bg-accent hover:bg-accent/90"
+                  >
+                    {isExporting ? <SpinnerGap className="w-4 h-4 mr-2 animate-spin" /> : <Download className="w-4 h-4 mr-2" />}
+                    Download {EXPORT_FORMATS[exportFormat].label}
+                  </Button>
+                </div>
               </div>
             </div>
           </CardContent>
@@ -1,12 +1,17 @@
 import { useState, useRef } from 'react'
-import { Upload, Microphone, Play, Pause, Trash, CheckCircle, Clock, Warning } from '@phosphor-icons/react'
+import { Upload, Microphone, Play, Pause, Trash, CheckCircle, Clock, Warning, X } from '@phosphor-icons/react'
 import { Button } from '@/components/ui/button'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
 import { Progress } from '@/components/ui/progress'
 import { Badge } from '@/components/ui/badge'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
 import { WaveformVisualizer } from '@/components/AudioVisualizer'
 import { audioManager } from '@/lib/audioManager'
+import { isAbortError } from '@/lib/utils'
+import { DEFAULT_LOCALE, LOCALES } from '@/lib/languages'
+import { describeWavFormat } from '@/lib/wav'
 import { toast } from 'sonner'
 
 interface AudioSample {
@@ -14,20 +19,24 @@ interface AudioSample {
   name: string
   file: File
   duration: number
+  /** Container details read from the file header, e.g. "WAV • 48 kHz • 24-bit • mono" */
+  format?: string
   url: string
   isValid: boolean
   error?: string
 }
 
 interface VoiceCloningProps {
-  onVoiceCloned: (voiceName: string, samples: AudioSample[]) => Promise<void>
+  onVoiceCloned: (voiceName: string, samples: AudioSample[], locale: string) => Promise<void>
+  onCancel: () => void
   isCloning: boolean
   cloningProgress: number
 }
 
-export function VoiceCloning({ onVoiceCloned, isCloning, cloningProgress }: VoiceCloningProps) {
+export function VoiceCloning({ onVoiceCloned, onCancel, isCloning, cloningProgress }: VoiceCloningProps) {
   const [voiceName, setVoiceName] = useState('')
   const [voiceDescription, setVoiceDescription] = useState('')
+  const [locale, setLocale] = useState(DEFAULT_LOCALE)
   const [audioSamples, setAudioSamples] = useState<AudioSample[]>([])
   const [isRecording, setIsRecording] = useState(false)
   const [mediaRecorder, setMediaRecorder] = useState<MediaRecorder | null>(null)
@@ -54,6 +63,7 @@ export function VoiceCloning({ onVoiceCloned, isCloning, cloningProgress }: Voic
             name: file.name,
             file,
             duration: validation.metadata?.duration || 0,
+            format: validation.metadata?.format && `WAV • ${describeWavFormat(validation.metadata.format)}`,
             url,
             isValid: true
           }
@@ -105,6 +115,7 @@ export function VoiceCloning({ onVoiceCloned, isCloning, cloningProgress }: Voic
             name: file.name,
             file,
             duration: validation.metadata?.duration || 0,
+            format: validation.metadata?.format && `WAV • ${describeWavFormat(validation.metadata.format)}`,
             url,
             isValid: true
           }
@@ -194,13 +205,18 @@ export function VoiceCloning({ onVoiceCloned, isCloning, cloningProgress }: Voic
     }
 
     try {
-      await onVoiceCloned(voiceName, audioSamples)
+      await onVoiceCloned(voiceName, audioSamples, locale)
       setVoiceName('')
       setVoiceDescription('')
       setAudioSamples([])
       toast.success('Voice cloned successfully!')
-    } catch {
-      toast.error('Failed to clone voice. Please try again.')
+    } catch (error) {
+      if (isAbortError(error)) {
+        // Samples stay in place so the user can adjust them and try again
+        toast.info('Voice cloning cancelled')
+      } else {
+        toast.error(error instanceof Error ? error.message : 'Failed to clone voice. Please try again.')
+      }
     }
   }
 
@@ -231,7 +247,7 @@ export function VoiceCloning({ onVoiceCloned, isCloning, cloningProgress }: Voic
       </CardHeader>
       <CardContent className="space-y-6">
         {/* Voice Details */}
-        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
           <div className="space-y-2">
             <Label htmlFor="voice-name">Voice Name</Label>
             <Input
@@ -250,6 +266,19 @@ export function VoiceCloning({ onVoiceCloned, isCloning, cloningProgress }: Voic
               onChange={(e) => setVoiceDescription(e.target.value)}
             />
           </div>
+          <div className="space-y-2">
+            <Label>Language</Label>
+            <Select value={locale} onValueChange={setLocale}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {LOCALES.map(option => (
+                  <SelectItem key={option.code} value={option.code}>{option.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
         </div>
 
         {/* Upload & Record Controls */}
@@ -376,6 +405,7 @@ export function VoiceCloning({ onVoiceCloned, isCloning, cloningProgress }: Voic
                     </div>
                     <div className="text-xs text-muted-foreground">
                       {Math.round(sample.duration)}s duration
+                      {sample.format && ` • ${sample.format}`}
                       {sample.error && (
                         <span className="text-destructive ml-2">• {sample.error}</span>
                       )}
@@ -413,7 +443,7 @@ export function VoiceCloning({ onVoiceCloned, isCloning, cloningProgress }: Voic
             {isCloning ? (
               <>
                 <Microphone className="w-5 h-5 mr-2 animate-pulse" />
-                Training Voice Model... {Math.round(cloningProgress)}%
+                Analyzing Voice Samples... {Math.round(cloningProgress)}%
               </>
             ) : (
               <>
@@ -424,7 +454,13 @@ export function VoiceCloning({ onVoiceCloned, isCloning, cloningProgress }: Voic
           </Button>
 
           {isCloning && (
-            <Progress value={cloningProgress} className="w-full" />
+            <div className="flex items-center gap-2">
+              <Progress value={cloningProgress} className="flex-1" />
+              <Button variant="outline" size="sm" onClick={onCancel}>
+                <X className="w-4 h-4 mr-1" />
+                Cancel
+              </Button>
+            </div>
           )}
         </div>
       </CardContent>
@@ -1,18 +1,26 @@
 import { useState } from 'react'
-import { Play, Pause, Waveform } from '@phosphor-icons/react'
+import { Play, Pause, Waveform, PencilSimple, SpinnerGap } from '@phosphor-icons/react'
 import { Button } from '@/components/ui/button'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { getLanguageLabel, getLocaleLabel } from '@/lib/languages'
+import { getPreviewText, MAX_PREVIEW_TEXT_LENGTH } from '@/lib/voicePreview'
 
 interface Voice {
   id: string
   name: string
   category: 'trending' | 'celebrity' | 'custom' | 'professional'
   description: string
-  previewUrl?: string
+  previewText?: string
   isTrending?: boolean
   isCustom?: boolean
   quality: 'high' | 'premium' | 'ultra'
+  language: string
+  locale: string
 }
 
 interface VoiceLibraryProps {
@@ -21,13 +29,20 @@ interface VoiceLibraryProps {
   onVoiceSelect: (voice: Voice) => void
   onPreviewVoice: (voice: Voice) => void
   isPlaying: string | null
+  /** Voice whose preview is still being rendered */
+  renderingPreview: string | null
+  onPreviewTextChange: (voiceId: string, previewText: string) => void
 }
 
-export function VoiceLibrary({ voices, selectedVoice, onVoiceSelect, onPreviewVoice, isPlaying }: VoiceLibraryProps) {
+export function VoiceLibrary({ voices, selectedVoice, onVoiceSelect, onPreviewVoice, isPlaying, renderingPreview, onPreviewTextChange }: VoiceLibraryProps) {
   const [filter, setFilter] = useState<string>('all')
+  const [language, setLanguage] = useState<string>('all')
+
+  const languages = Array.from(new Set(voices.map(voice => voice.language).filter(Boolean)))
 
   const filteredVoices = voices.filter(voice => 
-    filter === 'all' || voice.category === filter
+    (filter === 'all' || voice.category === filter) &&
+    (language === 'all' || voice.language === language)
   )
 
   const categories = [
@@ -63,6 +78,23 @@ export function VoiceLibrary({ voices, selectedVoice, onVoiceSelect, onPreviewVo
           ))}
         </div>
 
+        {/* Language Filter */}
+        {languages.length > 0 && (
+          <Select value={language} onValueChange={setLanguage}>
+            <SelectTrigger className="w-full">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All languages</SelectItem>
+              {languages.map(code => (
+                <SelectItem key={code} value={code}>
+                  {getLanguageLabel(code)} ({voices.filter(voice => voice.language === code).length})
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+
         {/* Voice Grid */}
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-3 max-h-96 overflow-y-auto">
           {filteredVoices.map(voice => (
@@ -90,23 +122,36 @@ export function VoiceLibrary({ voices, selectedVoice, onVoiceSelect, onPreviewVo
                       )}
                     </h4>
                     <p className="text-xs text-muted-foreground mb-2">{voice.description}</p>
-                    <Badge variant="outline" className="text-xs">
-                      {voice.quality.toUpperCase()}
-                    </Badge>
+                    <div className="flex flex-wrap gap-1">
+                      <Badge variant="outline" className="text-xs">
+                        {voice.quality.toUpperCase()}
+                      </Badge>
+                      {voice.locale && (
+                        <Badge variant="outline" className="text-xs" title={getLocaleLabel(voice.locale)}>
+                          {voice.locale}
+                        </Badge>
+                      )}
+                    </div>
                   </div>
                 </div>
                 
-                {voice.previewUrl && (
+                <div className="flex gap-1 mt-2">
                   <Button
                     size="sm"
                     variant="ghost"
-                    className="w-full mt-2 text-xs"
+                    className="flex-1 text-xs"
+                    title={getPreviewText(voice)}
                     onClick={(e) => {
                       e.stopPropagation()
                       onPreviewVoice(voice)
                     }}
                   >
-                    {isPlaying === voice.id ? (
+                    {renderingPreview === voice.id ? (
+                      <>
+                        <SpinnerGap className="w-3 h-3 mr-1 animate-spin" />
+                        Rendering...
+                      </>
+                    ) : isPlaying === voice.id ? (
                       <>
                         <Pause className="w-3 h-3 mr-1" />
                         Pause Preview
@@ -118,7 +163,8 @@ export function VoiceLibrary({ voices, selectedVoice, onVoiceSelect, onPreviewVo
                       </>
                     )}
                   </Button>
-                )}
+                  <PreviewTextEditor voice={voice} onSave={text => onPreviewTextChange(voice.id, text)} />
+                </div>
               </CardContent>
             </Card>
           ))}
@@ -126,4 +172,63 @@ export function VoiceLibrary({ voices, selectedVoice, onVoiceSelect, onPreviewVo
       </CardContent>
     </Card>
   )
-}
\ No newline at end of file
+}
+
+function PreviewTextEditor({ voice, onSave }: { voice: Voice; onSave: (text: string) => void }) {
+  const [open, setOpen] = useState(false)
+  const [draft, setDraft] = useState('')
+
+  return (
+    <Popover
+      open={open}
+      onOpenChange={(next) => {
+        setOpen(next)
+        if (next) setDraft(voice.previewText || '')
+      }}
+    >
+      <PopoverTrigger asChild>
+        <Button
+          size="sm"
+          variant="ghost"
+          className="text-xs"
+          title="Edit preview text"
+          onClick={(e) => e.stopPropagation()}
+        >
+          <PencilSimple className="w-3 h-3" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-80 space-y-2" onClick={(e) => e.stopPropagation()}>
+        <Label htmlFor={`preview-text-${voice.id}`}>Preview text</Label>
+        <Textarea
+          id={`preview-text-${voice.id}`}
+          placeholder={getPreviewText({ locale: voice.locale })}
+          value={draft}
+          maxLength={MAX_PREVIEW_TEXT_LENGTH}
+          onChange={(e) => setDraft(e.target.value)}
+          className="min-h-20 text-sm"
+        />
+        <div className="flex justify-between gap-2">
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => {
+              onSave('')
+              setOpen(false)
+            }}
+          >
+            Use default
+          </Button>
+          <Button
+            size="sm"
+            onClick={() => {
+              onSave(draft)
+              setOpen(false)
+            }}
+          >
+            Save
+          </Button>
+        </div>
+      </PopoverContent>
+    </Popover>
+  )
+}
@@ -0,0 +1,142 @@
+import { useCallback, useEffect, useRef } from 'react'
+import { useKV } from '@/hooks/useKV'
+import { isAbortError } from '@/lib/utils'
+
+export type JobStatus = 'pending' | 'running' | 'done' | 'failed'
+
+export interface QueueJob<TInput> {
+  id: string
+  input: TInput
+  status: JobStatus
+  progress: number
+  attempts: number
+  error?: string
+  createdAt: number
+  finishedAt?: number
+}
+
+export interface JobContext {
+  signal: AbortSignal
+  onProgress: (progress: number) => void
+}
+
+interface JobQueueOptions<TInput, TResult> {
+  storageKey: string
+  concurrency: number
+  run: (input: TInput, context: JobContext) => Promise<TResult>
+}
+
+interface Waiter<TResult> {
+  resolve: (result: TResult) => void
+  reject: (error: unknown) => void
+}
+
+/**
+ * Persistent work queue: jobs survive reloads, run up to `concurrency` at a time and can be retried
+ * Jobs that were running when the page unloaded are picked up again as if they were pending
+ */
+export function useJobQueue<TInput, TResult>({ storageKey, concurrency, run }: JobQueueOptions<TInput, TResult>) {
+  const [jobs, setJobs] = useKV(storageKey, [] as QueueJob<TInput>[])
+  const controllers = useRef<Map<string, AbortController>>(new Map())
+  const waiters = useRef<Map<string, Waiter<TResult>[]>>(new Map())
+  const runRef = useRef(run)
+  runRef.current = run
+
+  const update = useCallback((id: string, patch: Partial<QueueJob<TInput>>) => {
+    setJobs(prev => prev.map(job => (job.id === id ? { ...job, ...patch } : job)))
+  }, [setJobs])
+
+  const settle = useCallback((id: string, outcome: { result: TResult } | { error: unknown }) => {
+    const pending = waiters.current.get(id) || []
+    waiters.current.delete(id)
+    pending.forEach(waiter => ('result' in outcome ? waiter.resolve(outcome.result) : waiter.reject(outcome.error)))
+  }, [])
+
+  const start = useCallback(async (job: QueueJob<TInput>) => {
+    const controller = new AbortController()
+    controllers.current.set(job.id, controller)
+    update(job.id, { status: 'running', progress: 0, attempts: job.attempts + 1, error: undefined })
+
+    let reported = 0
+    try {
+      const result = await runRef.current(job.input, {
+        signal: controller.signal,
+        onProgress: progress => {
+          // Only whole-percent changes are worth a state update
+          if (Math.floor(progress) !== reported) {
+            reported = Math.floor(progress)
+            update(job.id, { progress: reported })
+          }
+        }
+      })
+      update(job.id, { status: 'done', progress: 100, finishedAt: Date.now() })
+      settle(job.id, { result })
+    } catch (error) {
+      const message = isAbortError(error) ? 'Cancelled' : error instanceof Error ? error.message : 'Generation failed'
+      update(job.id, { status: 'failed', error: message, finishedAt: Date.now() })
+      settle(job.id, { error })
+    } finally {
+      controllers.current.delete(job.id)
+    }
+  }, [update, settle])
+
+  useEffect(() => {
+    const slots = concurrency - controllers.current.size
+    if (slots <= 0) return
+
+    jobs
+      .filter(job => (job.status === 'pending' || job.status === 'running') && !controllers.current.has(job.id))
+      .slice(0, slots)
+      .forEach(start)
+  }, [jobs, concurrency, start])
+
+  /**
+   * Add a job to the end of the queue and return its id
+   */
+  const enqueue = useCallback((input: TInput): string => {
+    const id = `job-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`
+    setJobs(prev => [...prev, { id, input, status: 'pending', progress: 0, attempts: 0, createdAt: Date.now() }])
+    return id
+  }, [setJobs])
+
+  /**
+   * Resolve with the job's result once it finishes; only works for jobs started in this session
+   */
+  const waitFor = useCallback((id: string): Promise<TResult> => {
+    return new Promise((resolve, reject) => {
+      waiters.current.set(id, [...(waiters.current.get(id) || []), { resolve, reject }])
+    })
+  }, [])
+
+  const retry = useCallback((id: string) => {
+    update(id, { status: 'pending', progress: 0, error: undefined, finishedAt: undefined })
+  }, [update])
+
+  const cancel = useCallback((id: string) => {
+    const controller = controllers.current.get(id)
+    if (controller) {
+      controller.abort()
+      return
+    }
+    setJobs(prev => prev.map(job => (job.id === id && job.status === 'pending'
+      ? { ...job, status: 'failed', error: 'Cancelled', finishedAt: Date.now() }
+      : job)))
+    settle(id, { error: new DOMException('Job cancelled', 'AbortError') })
+  }, [setJobs, settle])
+
+  const remove = useCallback((id: string) => {
+    const controller = controllers.current.get(id)
+    if (controller) {
+      controller.abort()
+    } else {
+      settle(id, { error: new DOMException('Job removed', 'AbortError') })
+    }
+    setJobs(prev => prev.filter(job => job.id !== id))
+  }, [setJobs, settle])
+
+  const clearFinished = useCallback(() => {
+    setJobs(prev => prev.filter(job => job.status !== 'done'))
+  }, [setJobs])
+
+  return { jobs, enqueue, waitFor, retry, cancel, remove, clearFinished }
+}
@@ -0,0 +1,19 @@
+import { useEffect, useState } from 'react'
+import { isOpusSupported } from '@/lib/opusEncoder'
+
+// Whether Opus downloads can be offered; null until the browser has answered
+export function useOpusSupport(): boolean | null {
+  const [supported, setSupported] = useState<boolean | null>(null)
+
+  useEffect(() => {
+    let active = true
+    isOpusSupported().then(result => {
+      if (active) setSupported(result)
+    })
+    return () => {
+      active = false
+    }
+  }, [])
+
+  return supported
+}
@@ -0,0 +1,80 @@
+/**
+ * AudioExport - Encode finished takes into downloadable files off the main thread
+ */
+
+import { audioManager } from '@/lib/audioManager'
+import { buildTags, type TagTemplate, type TaggableAudio } from '@/lib/audioTags'
+import { DEFAULT_MP3_BITRATE_MODE, mp3Bitrate, type Mp3BitrateMode } from '@/lib/mp3Encoder'
+import { opusBitrate } from '@/lib/opusEncoder'
+import { hashSeed } from '@/lib/random'
+import { takeStore } from '@/lib/takeStore'
+import { decodeWav, type WavFormat } from '@/lib/wav'
+
+export type ExportFormat = 'mp3' | 'wav' | 'opus' | 'flac'
+
+export interface ExportFormatInfo {
+  label: string
+  extension: string
+  mimeType: string
+  description: string
+}
+
+export const EXPORT_FORMATS: Record<ExportFormat, ExportFormatInfo> = {
+  mp3: { label: 'MP3', extension: 'mp3', mimeType: 'audio/mpeg', description: 'Plays everywhere' },
+  opus: { label: 'Opus', extension: 'opus', mimeType: 'audio/ogg; codecs=opus', description: 'Smallest files for the web' },
+  wav: { label: 'WAV', extension: 'wav', mimeType: 'audio/wav', description: 'Uncompressed master' },
+  flac: { label: 'FLAC', extension: 'flac', mimeType: 'audio/flac', description: 'Lossless archive' }
+}
+export const DEFAULT_EXPORT_FORMAT: ExportFormat = 'mp3'
+
+export interface ExportableAudio extends TaggableAudio {
+  /** History id the take's audio is stored under */
+  id: string
+  bitrateMode?: Mp3BitrateMode
+}
+
+export interface ExportOptions {
+  wavFormat: WavFormat
+  tagTemplate: TagTemplate
+  signal?: AbortSignal
+}
+
+/**
+ * Encode a take in the given format, tagged from the template; quality picks the MP3 and Opus bitrate, wavFormat shapes WAV files
+ */
+export async function exportAudio(audio: ExportableAudio, format: ExportFormat, { wavFormat, tagTemplate, signal }: ExportOptions): Promise<Blob> {
+  const wav = await takeStore.get(audio.id)
+  if (!wav) {
+    throw new Error('The audio for this take is no longer stored')
+  }
+  const { samples, sampleRate } = decodeWav(wav)
+  const options = { signal, transfer: [samples.buffer] }
+  const mode = audio.bitrateMode ?? DEFAULT_MP3_BITRATE_MODE
+  const tags = buildTags(tagTemplate, audio)
+  // The Ogg serial comes from the take rather than chance so re-exporting a seeded take gives the same bytes
+  const serial = audio.seed ?? hashSeed(audio.text)
+
+  const data = format === 'mp3'
+    ? await audioManager.runTask({ kind: 'encodeMp3', samples, sampleRate, bitrate: mp3Bitrate(audio.quality), mode, tags }, options)
+    : format === 'opus'
+      ? await audioManager.runTask({ kind: 'encodeOpus', samples, sampleRate, bitrate: opusBitrate(audio.quality), mode, serial, tags }, options)
+      : format === 'flac'
+        ? await audioManager.runTask({ kind: 'encodeFlac', samples, sampleRate, tags }, options)
+        : await audioManager.runTask({ kind: 'encodeWavFile', samples, sampleRate, format: wavFormat, tags }, options)
+
+  return new Blob([data], { type: EXPORT_FORMATS[format].mimeType })
+}
+
+/**
+ * Encode a take and hand it to the browser as a download named name.<extension>
+ */
+export async function downloadAudio(audio: ExportableAudio, format: ExportFormat, options: ExportOptions, name: string): Promise<void> {
+  const url = URL.createObjectURL(await exportAudio(audio, format, options))
+  const link = document.createElement('a')
+  link.href = url
+  link.download = `${name}.${EXPORT_FORMATS[format].extension}`
+  document.body.appendChild(link)
+  link.click()
+  document.body.removeChild(link)
+  URL.revokeObjectURL(url)
+}
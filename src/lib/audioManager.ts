@@ -3,24 +3,52 @@
  * Fixes voice sound problems and improves audio handling
  */
 
+import { runAudioTask, type AudioTaskKind, type AudioTaskOf, type AudioTaskResults } from '@/lib/audioTasks'
+import { WorkerPool, type PoolRunOptions } from '@/lib/workerPool'
+import { parseWavHeader, type WavInfo } from '@/lib/wav'
+
 export interface AudioInstance {
   id: string
   audio: HTMLAudioElement
   cleanup: () => void
 }
 
-export interface VoicePreviewConfig {
-  voiceId: string
-  category: string
-  gender: 'male' | 'female'
-  pitch?: number
-  duration?: number
+export interface AudioStreamEvents {
+  /** A chunk finished playing */
+  onChunkEnded?: (index: number) => void
+  /** Every chunk has played and the stream was finished */
+  onEnded?: () => void
+}
+
+export interface AudioStreamHandle {
+  /** Schedule the next chunk right after the previous one, followed by gapAfter seconds of silence */
+  append: (samples: Float32Array, sampleRate: number, gapAfter?: number) => void
+  /** No more chunks are coming; the stream ends once the scheduled ones have played */
+  finish: () => void
+}
+
+export interface AudioFileMetadata {
+  /** Seconds */
+  duration: number
+  hasAudio: boolean
+  /** Header details, for WAV files */
+  format?: WavInfo
 }
 
+interface StreamInstance {
+  gain: GainNode
+  stop: () => void
+}
+
+// Headroom so the first chunk is not scheduled in the past by the time the node starts
+const STREAM_START_LATENCY = 0.05
+
 export class AudioManager {
   private static instance: AudioManager
   private activeAudio: Map<string, AudioInstance> = new Map()
+  private activeStreams: Map<string, StreamInstance> = new Map()
   private audioContext: AudioContext | null = null
+  private workerPool: WorkerPool | null = null
 
   private constructor() {
     // Initialize audio context lazily
@@ -49,6 +77,20 @@ export class AudioManager {
     }
   }
 
+  /**
+   * Run synthesis, DSP or encoding on the worker pool so the UI stays responsive
+   * Falls back to the main thread where module workers are unavailable
+   */
+  runTask<K extends AudioTaskKind>(task: AudioTaskOf<K>, options: PoolRunOptions = {}): Promise<AudioTaskResults[K]> {
+    if (typeof Worker === 'undefined') {
+      return runAudioTask(task, options)
+    }
+    if (!this.workerPool) {
+      this.workerPool = new WorkerPool(() => new Worker(new URL('./audioWorker.ts', import.meta.url), { type: 'module' }))
+    }
+    return this.workerPool.run(task, options)
+  }
+
   /**
    * Create and manage audio instance with proper cleanup
    */
@@ -96,6 +138,77 @@ export class AudioManager {
     }
   }
 
+  /**
+   * Play audio that arrives in pieces, scheduling each chunk gaplessly after the last
+   * A chunk that arrives after playback ran dry starts as soon as possible instead
+   */
+  startStream(id: string, events: AudioStreamEvents = {}): AudioStreamHandle {
+    this.stopAudio(id)
+
+    const context = this.audioContext
+    if (!context) {
+      throw new Error('Streaming playback needs Web Audio')
+    }
+    context.resume()
+
+    const gain = context.createGain()
+    gain.connect(context.destination)
+
+    const sources: AudioBufferSourceNode[] = []
+    let nextStart = 0
+    let ended = 0
+    let finished = false
+
+    const stream: StreamInstance = {
+      gain,
+      stop: () => {
+        sources.forEach(source => {
+          source.onended = null
+          source.stop()
+        })
+        gain.disconnect()
+        this.activeStreams.delete(id)
+      }
+    }
+    this.activeStreams.set(id, stream)
+
+    const settle = () => {
+      if (finished && ended === sources.length) {
+        stream.stop()
+        events.onEnded?.()
+      }
+    }
+
+    return {
+      append: (samples, sampleRate, gapAfter = 0) => {
+        // Chunks rendered after the listener stopped the stream are dropped
+        if (this.activeStreams.get(id) !== stream) return
+
+        const buffer = context.createBuffer(1, samples.length, sampleRate)
+        buffer.getChannelData(0).set(samples)
+        const source = context.createBufferSource()
+        source.buffer = buffer
+        source.connect(gain)
+
+        const startAt = Math.max(nextStart, context.currentTime + STREAM_START_LATENCY)
+        source.start(startAt)
+        nextStart = startAt + buffer.duration + gapAfter
+
+        const index = sources.length
+        sources.push(source)
+        source.onended = () => {
+          ended++
+          events.onChunkEnded?.(index)
+          settle()
+        }
+      },
+      finish: () => {
+        finished = true
+        if (this.activeStreams.get(id) === stream) settle()
+      }
+    }
+  }
+
   /**
    * Stop specific audio instance
    */
@@ -106,6 +219,7 @@ export class AudioManager {
       instance.audio.currentTime = 0
       instance.cleanup()
     }
+    this.activeStreams.get(id)?.stop()
   }
 
   /**
@@ -115,6 +229,9 @@ export class AudioManager {
     for (const [id] of this.activeAudio) {
       this.stopAudio(id)
     }
+    for (const [id] of this.activeStreams) {
+      this.stopAudio(id)
+    }
   }
 
   /**
@@ -128,100 +245,11 @@ export class AudioManager {
    * Check if audio is currently playing
    */
   isPlaying(id: string): boolean {
+    if (this.activeStreams.has(id)) return true
     const instance = this.activeAudio.get(id)
     return instance ? !instance.audio.paused : false
   }
 
-  /**
-   * Generate realistic voice preview using Web Audio API
-   */
-  async generateVoicePreview(config: VoicePreviewConfig): Promise<void> {
-    if (!this.audioContext) {
-      await this.initializeAudioContext()
-    }
-
-    if (!this.audioContext) {
-      throw new Error('Audio context not available')
-    }
-
-    try {
-      // Stop any existing preview
-      this.stopAudio(`preview-${config.voiceId}`)
-
-      const duration = config.duration || 2
-      const sampleRate = this.audioContext.sampleRate
-      const bufferLength = sampleRate * duration
-
-      // Create audio buffer
-      const buffer = this.audioContext.createBuffer(1, bufferLength, sampleRate)
-      const data = buffer.getChannelData(0)
-
-      // Generate more realistic voice-like synthesis
-      const fundamentalFreq = this.getVoiceFundamentalFreq(config)
-      const formants = this.getVoiceFormants(config)
-
-      for (let i = 0; i < bufferLength; i++) {
-        const t = i / sampleRate
-        let sample = 0
-
-        // Generate fundamental frequency with harmonics
-        for (let harmonic = 1; harmonic <= 5; harmonic++) {
-          const freq = fundamentalFreq * harmonic
-          const amplitude = 1 / harmonic * Math.exp(-harmonic * 0.1)
-          sample += amplitude * Math.sin(2 * Math.PI * freq * t)
-        }
-
-        // Apply formant filtering (simplified)
-        for (const formant of formants) {
-          const formantFactor = Math.exp(-Math.pow((fundamentalFreq - formant.freq) / formant.bandwidth, 2))
-          sample *= (1 + formantFactor * formant.amplitude)
-        }
-
-        // Apply envelope and noise for naturalness
-        const envelope = Math.exp(-t * 2) * (1 - t / duration)
-        const noise = (Math.random() - 0.5) * 0.02
-        data[i] = (sample * envelope + noise) * 0.1
-      }
-
-      // Create and play buffer
-      const source = this.audioContext.createBufferSource()
-      const gainNode = this.audioContext.createGain()
-      
-      source.buffer = buffer
-      source.connect(gainNode)
-      gainNode.connect(this.audioContext.destination)
-      
-      // Apply fade in/out
-      const now = this.audioContext.currentTime
-      gainNode.gain.setValueAtTime(0, now)
-      gainNode.gain.linearRampToValueAtTime(0.3, now + 0.1)
-      gainNode.gain.linearRampToValueAtTime(0.3, now + duration - 0.1)
-      gainNode.gain.linearRampToValueAtTime(0, now + duration)
-
-      source.start(now)
-      source.stop(now + duration)
-
-      // Track for cleanup
-      const cleanup = () => {
-        source.disconnect()
-        gainNode.disconnect()
-        this.activeAudio.delete(`preview-${config.voiceId}`)
-      }
-
-      source.addEventListener('ended', cleanup)
-      
-      this.activeAudio.set(`preview-${config.voiceId}`, {
-        id: `preview-${config.voiceId}`,
-        audio: { pause: () => source.stop(), currentTime: 0 } as HTMLAudioElement,
-        cleanup
-      })
-
-    } catch (error) {
-      console.error('Failed to generate voice preview:', error)
-      throw error
-    }
-  }
-
   /**
    * Set volume for specific audio instance
    */
@@ -230,6 +258,10 @@ export class AudioManager {
     if (instance) {
       instance.audio.volume = Math.max(0, Math.min(1, volume))
     }
+    const stream = this.activeStreams.get(id)
+    if (stream) {
+      stream.gain.gain.value = Math.max(0, Math.min(1, volume))
+    }
   }
 
   /**
@@ -243,43 +275,23 @@ export class AudioManager {
   }
 
   /**
-   * Get voice fundamental frequency based on characteristics
+   * Validate audio file format and quality
+   * WAV files are checked against their RIFF header; other formats are probed through an audio element
    */
-  private getVoiceFundamentalFreq(config: VoicePreviewConfig): number {
-    let baseFreq: number
-
-    // Set base frequency by gender and category
-    if (config.gender === 'male') {
-      baseFreq = config.category === 'celebrity' ? 85 : 110
-    } else {
-      baseFreq = config.category === 'celebrity' ? 180 : 200
-    }
-
-    // Apply pitch adjustment
-    if (config.pitch) {
-      baseFreq *= config.pitch
+  async validateAudioFile(file: File): Promise<{ isValid: boolean; error?: string; metadata?: AudioFileMetadata }> {
+    // Recorders label their output audio/wav whatever it holds, so go by the bytes rather than the type
+    const magic = new Uint8Array(await file.slice(0, 12).arrayBuffer())
+    const isWav = String.fromCharCode(...magic.subarray(0, 4)) === 'RIFF' && String.fromCharCode(...magic.subarray(8, 12)) === 'WAVE'
+
+    if (isWav) {
+      try {
+        const format = parseWavHeader(await file.arrayBuffer())
+        return this.checkDuration({ duration: format.duration, hasAudio: format.frames > 0, format })
+      } catch (error) {
+        return { isValid: false, error: `Invalid WAV file: ${error instanceof Error ? error.message : 'unreadable header'}` }
+      }
     }
 
-    return baseFreq
-  }
-
-  /**
-   * Get voice formants for more realistic synthesis
-   */
-  private getVoiceFormants(config: VoicePreviewConfig) {
-    const isDeep = config.gender === 'male' || config.category === 'celebrity'
-    
-    return [
-      { freq: isDeep ? 730 : 850, bandwidth: 100, amplitude: 0.8 },
-      { freq: isDeep ? 1090 : 1220, bandwidth: 150, amplitude: 0.6 },
-      { freq: isDeep ? 2440 : 2810, bandwidth: 200, amplitude: 0.4 }
-    ]
-  }
-
-  /**
-   * Validate audio file format and quality
-   */
-  async validateAudioFile(file: File): Promise<{ isValid: boolean; error?: string; metadata?: { duration: number; hasAudio: boolean } }> {
     return new Promise((resolve) => {
       const audio = new Audio()
       const url = URL.createObjectURL(file)
@@ -297,14 +309,7 @@ export class AudioManager {
         }
         
         cleanup()
-        
-        if (audio.duration < 1) {
-          resolve({ isValid: false, error: 'Audio file too short (minimum 1 second)' })
-        } else if (audio.duration > 300) {
-          resolve({ isValid: false, error: 'Audio file too long (maximum 5 minutes)' })
-        } else {
-          resolve({ isValid: true, metadata })
-        }
+        resolve(this.checkDuration(metadata))
       }
 
       const onError = () => {
@@ -318,11 +323,23 @@ export class AudioManager {
     })
   }
 
+  private checkDuration(metadata: AudioFileMetadata): { isValid: boolean; error?: string; metadata?: AudioFileMetadata } {
+    if (metadata.duration < 1) {
+      return { isValid: false, error: 'Audio file too short (minimum 1 second)' }
+    }
+    if (metadata.duration > 300) {
+      return { isValid: false, error: 'Audio file too long (maximum 5 minutes)' }
+    }
+    return { isValid: true, metadata }
+  }
+
   /**
    * Clean up all resources
    */
   destroy(): void {
     this.stopAllAudio()
+    this.workerPool?.terminate()
+    this.workerPool = null
     if (this.audioContext) {
       this.audioContext.close()
       this.audioContext = null
@@ -0,0 +1,225 @@
+/**
+ * AudioTags - Metadata embedded in downloads, filled in from an editable template
+ * Templates use {placeholders}; the container encoders turn the result into ID3v2, Vorbis comments or FLAC blocks
+ */
+
+import { getLanguageIso6392 } from '@/lib/languages'
+import { getSpeakingStyle } from '@/lib/speakingStyles'
+import { arrayBufferToBase64, dataUrlToArrayBuffer } from '@/lib/wav'
+
+export interface CoverArt {
+  mimeType: string
+  data: Uint8Array
+}
+
+/**
+ * Tag values for one download; empty strings are left out of the file
+ */
+export interface AudioTags {
+  title: string
+  artist: string
+  album: string
+  comment: string
+  /** Full script, written as unsynchronized lyrics */
+  lyrics?: string
+  /** ISO 639-2 code of the spoken language; "und" when unknown */
+  language: string
+  /** ISO 8601 date the take was generated */
+  date: string
+  cover?: CoverArt
+}
+
+export interface TagTemplate {
+  title: string
+  artist: string
+  album: string
+  comment: string
+  includeLyrics: boolean
+  /** PNG or JPEG data URL embedded as the front cover */
+  coverArt?: string
+}
+
+/**
+ * What a take needs to fill in a template
+ */
+export interface TaggableAudio {
+  text: string
+  voice: { name: string; language?: string }
+  quality: string
+  style?: string
+  seed?: number
+  speed?: number
+  pitch?: number
+  loudness?: { target: number | null }
+  /** A Date, or its string form once history has been reloaded */
+  createdAt: Date | string
+}
+
+export const TAG_PLACEHOLDERS: { key: string; description: string }[] = [
+  { key: 'excerpt', description: 'Opening words of the text' },
+  { key: 'text', description: 'Full text' },
+  { key: 'voice', description: 'Voice name' },
+  { key: 'quality', description: 'Render quality' },
+  { key: 'style', description: 'Speaking style' },
+  { key: 'seed', description: 'Render seed' },
+  { key: 'date', description: 'Generation date' },
+  { key: 'settings', description: 'Summary of the generation settings' }
+]
+
+export const DEFAULT_TAG_TEMPLATE: TagTemplate = {
+  title: '{excerpt}',
+  artist: '{voice}',
+  album: 'VoiceForge Pro',
+  comment: '{settings}',
+  includeLyrics: true
+}
+
+export const COVER_ART_TYPES = ['image/png', 'image/jpeg']
+export const MAX_COVER_ART_BYTES = 512 * 1024
+
+const EXCERPT_LENGTH = 60
+const PICTURE_TYPE_FRONT_COVER = 3
+
+/**
+ * Fill in a template for one take
+ */
+export function buildTags(template: TagTemplate, audio: TaggableAudio): AudioTags {
+  const date = new Date(audio.createdAt).toISOString().slice(0, 10)
+  const values: Record<string, string> = {
+    excerpt: excerpt(audio.text),
+    text: audio.text,
+    voice: audio.voice.name,
+    quality: audio.quality,
+    style: getSpeakingStyle(audio.style).label,
+    seed: audio.seed === undefined ? '' : String(audio.seed),
+    date,
+    settings: describeSettings(audio)
+  }
+  const fill = (field: string) => field.replace(/\{(\w+)\}/g, (match, key: string) => values[key] ?? match).trim()
+
+  return {
+    title: fill(template.title),
+    artist: fill(template.artist),
+    album: fill(template.album),
+    comment: fill(template.comment),
+    lyrics: template.includeLyrics ? audio.text : undefined,
+    language: getLanguageIso6392(audio.voice.language ?? ''),
+    date,
+    cover: template.coverArt ? readCoverArt(template.coverArt) : undefined
+  }
+}
+
+/**
+ * One-line summary of how a take was generated, e.g. "Voice: Aria • Quality: high • Style: Neutral • Seed: 42"
+ */
+export function describeSettings(audio: TaggableAudio): string {
+  const parts = [
+    `Voice: ${audio.voice.name}`,
+    `Quality: ${audio.quality}`,
+    `Style: ${getSpeakingStyle(audio.style).label}`
+  ]
+  if (audio.speed !== undefined) parts.push(`Speed: ${audio.speed}x`)
+  if (audio.pitch !== undefined) parts.push(`Pitch: ${audio.pitch}x`)
+  if (audio.loudness?.target != null) parts.push(`Loudness: ${audio.loudness.target} LUFS`)
+  if (audio.seed !== undefined) parts.push(`Seed: ${audio.seed}`)
+  return parts.join(' • ')
+}
+
+/**
+ * Vorbis comment body (vendor string and fields) as used by OpusTags and FLAC's VORBIS_COMMENT block
+ * Cover art goes in as METADATA_BLOCK_PICTURE when pictureField is set, since Ogg has no picture header of its own
+ */
+export function encodeVorbisComment(vendor: string, tags: AudioTags | undefined, pictureField = false): Uint8Array {
+  const encoder = new TextEncoder()
+  const fields: string[] = []
+  if (tags) {
+    const add = (name: string, value: string | undefined) => {
+      if (value) fields.push(`${name}=${value}`)
+    }
+    add('TITLE', tags.title)
+    add('ARTIST', tags.artist)
+    add('ALBUM', tags.album)
+    add('DATE', tags.date)
+    add('COMMENT', tags.comment)
+    add('LYRICS', tags.lyrics)
+    if (tags.language !== 'und') add('LANGUAGE', tags.language)
+    if (pictureField && tags.cover) add('METADATA_BLOCK_PICTURE', arrayBufferToBase64(encodeFlacPicture(tags.cover).buffer))
+  }
+
+  const entries = [encoder.encode(vendor), ...fields.map(field => encoder.encode(field))]
+  const bytes = new Uint8Array(4 + entries.reduce((total, entry) => total + 4 + entry.length, 0))
+  const view = new DataView(bytes.buffer)
+  let offset = 0
+  entries.forEach((entry, index) => {
+    view.setUint32(offset, entry.length, true)
+    bytes.set(entry, offset + 4)
+    offset += 4 + entry.length
+    // The field count sits between the vendor string and the fields
+    if (index === 0) {
+      view.setUint32(offset, fields.length, true)
+      offset += 4
+    }
+  })
+  return bytes
+}
+
+/**
+ * FLAC PICTURE block body for a front cover; big-endian like the rest of FLAC's metadata
+ */
+export function encodeFlacPicture(cover: CoverArt): Uint8Array {
+  const mimeType = new TextEncoder().encode(cover.mimeType)
+  const { width, height } = imageSize(cover.data)
+  const bytes = new Uint8Array(32 + mimeType.length + cover.data.length)
+  const view = new DataView(bytes.buffer)
+  view.setUint32(0, PICTURE_TYPE_FRONT_COVER)
+  view.setUint32(4, mimeType.length)
+  bytes.set(mimeType, 8)
+  let offset = 8 + mimeType.length
+  view.setUint32(offset, 0) // empty description
+  view.setUint32(offset + 4, width)
+  view.setUint32(offset + 8, height)
+  view.setUint32(offset + 12, 24) // colour depth
+  view.setUint32(offset + 16, 0) // not an indexed-colour image
+  view.setUint32(offset + 20, cover.data.length)
+  offset += 24
+  bytes.set(cover.data, offset)
+  return bytes
+}
+
+function excerpt(text: string): string {
+  const flat = text.replace(/\s+/g, ' ').trim()
+  if (flat.length <= EXCERPT_LENGTH) return flat
+  const cut = flat.slice(0, EXCERPT_LENGTH)
+  const space = cut.lastIndexOf(' ')
+  return `${(space > EXCERPT_LENGTH / 2 ? cut.slice(0, space) : cut).replace(/[\s,;:.-]+$/, '')}…`
+}
+
+function readCoverArt(url: string): CoverArt {
+  const mimeType = url.slice(5, url.indexOf(';'))
+  return { mimeType, data: new Uint8Array(dataUrlToArrayBuffer(url)) }
+}
+
+/**
+ * Pixel size of a PNG (IHDR) or baseline/progressive JPEG (SOF marker); zero for anything else
+ */
+function imageSize(data: Uint8Array): { width: number; height: number } {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength)
+  if (data.length >= 24 && data[0] === 0x89 && data[1] === 0x50) {
+    return { width: view.getUint32(16), height: view.getUint32(20) }
+  }
+
+  if (data[0] === 0xff && data[1] === 0xd8) {
+    let offset = 2
+    while (offset + 9 < data.length && data[offset] === 0xff) {
+      const marker = data[offset + 1]
+      const length = view.getUint16(offset + 2)
+      // SOF0-SOF15, except DHT (C4), JPG (C8) and DAC (CC) which share the range
+      if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+        return { width: view.getUint16(offset + 7), height: view.getUint16(offset + 5) }
+      }
+      offset += 2 + length
+    }
+  }
+
+  return { width: 0, height: 0 }
+}
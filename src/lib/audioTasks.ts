@@ -0,0 +1,105 @@
+/**
+ * AudioTasks - Typed protocol and implementations for the heavy audio work the worker pool runs
+ * The same runner executes inside workers and, where workers are unavailable, on the main thread
+ */
+
+import { OfflineSynthesisProvider } from '@/lib/offlineSynthesis'
+import type { SynthesisProgress, SynthesisRequest, SynthesisResult } from '@/lib/synthesisProvider'
+import { applyTempoAndPitch } from '@/lib/timeStretch'
+import { measureLoudness, normalizeLoudness, type LoudnessMeasurement, type NormalizedAudio } from '@/lib/loudness'
+import { encodeWavDataUrl, encodeWavFile, type WavFormat } from '@/lib/wav'
+import { encodeMp3, type Mp3BitrateMode } from '@/lib/mp3Encoder'
+import { encodeOpus } from '@/lib/opusEncoder'
+import { encodeFlac } from '@/lib/flacEncoder'
+import type { AudioTags } from '@/lib/audioTags'
+
+export type AudioTask =
+  | { kind: 'synthesize'; request: Omit<SynthesisRequest, 'signal' | 'onProgress'> }
+  | { kind: 'tempoPitch'; samples: Float32Array; sampleRate: number; speed: number; pitch: number }
+  | { kind: 'measureLoudness'; samples: Float32Array; sampleRate: number }
+  | { kind: 'normalizeLoudness'; samples: Float32Array; sampleRate: number; target: number }
+  | { kind: 'encodeWav'; samples: Float32Array; sampleRate: number }
+  | { kind: 'encodeWavFile'; samples: Float32Array; sampleRate: number; format: WavFormat; tags?: AudioTags }
+  | { kind: 'encodeMp3'; samples: Float32Array; sampleRate: number; bitrate: number; mode: Mp3BitrateMode; tags?: AudioTags }
+  | { kind: 'encodeOpus'; samples: Float32Array; sampleRate: number; bitrate: number; mode: 'cbr' | 'vbr'; serial: number; tags?: AudioTags }
+  | { kind: 'encodeFlac'; samples: Float32Array; sampleRate: number; tags?: AudioTags }
+
+export interface AudioTaskResults {
+  synthesize: SynthesisResult
+  tempoPitch: Float32Array
+  measureLoudness: LoudnessMeasurement
+  normalizeLoudness: NormalizedAudio
+  /** WAV data URL */
+  encodeWav: string
+  /** WAV file bytes in the requested format */
+  encodeWavFile: ArrayBuffer
+  /** MP3 file bytes */
+  encodeMp3: Uint8Array
+  /** Ogg Opus file bytes */
+  encodeOpus: Uint8Array
+  /** FLAC file bytes */
+  encodeFlac: Uint8Array
+}
+
+export type AudioTaskKind = AudioTask['kind']
+export type AudioTaskOf<K extends AudioTaskKind> = Extract<AudioTask, { kind: K }>
+
+/** Messages from the page to a worker */
+export type WorkerRequest =
+  | { type: 'run'; id: number; task: AudioTask }
+  | { type: 'cancel'; id: number }
+
+/** Messages from a worker to the page */
+export type WorkerResponse =
+  | { type: 'progress'; id: number; progress: SynthesisProgress }
+  | { type: 'done'; id: number; result: AudioTaskResults[AudioTaskKind] }
+  | { type: 'error'; id: number; error: { name: string; message: string } }
+
+export interface AudioTaskContext {
+  signal?: AbortSignal
+  onProgress?: (event: SynthesisProgress) => void
+}
+
+const offlineEngine = new OfflineSynthesisProvider()
+
+/**
+ * Run one task to completion
+ */
+export async function runAudioTask<K extends AudioTaskKind>(task: AudioTaskOf<K>, context: AudioTaskContext = {}): Promise<AudioTaskResults[K]> {
+  return (await dispatch(task, context)) as AudioTaskResults[K]
+}
+
+async function dispatch(task: AudioTask, { signal, onProgress }: AudioTaskContext): Promise<AudioTaskResults[AudioTaskKind]> {
+  signal?.throwIfAborted()
+
+  switch (task.kind) {
+    case 'synthesize':
+      return offlineEngine.synthesize({ ...task.request, signal, onProgress })
+    case 'tempoPitch':
+      return applyTempoAndPitch(task.samples, task.sampleRate, { speed: task.speed, pitch: task.pitch })
+    case 'measureLoudness':
+      return measureLoudness(task.samples, task.sampleRate)
+    case 'normalizeLoudness':
+      return normalizeLoudness(task.samples, task.sampleRate, task.target)
+    case 'encodeWav':
+      return encodeWavDataUrl(task.samples, task.sampleRate)
+    case 'encodeWavFile':
+      return encodeWavFile(task.samples, task.sampleRate, task.format, task.tags)
+    case 'encodeMp3':
+      return encodeMp3(task.samples, task.sampleRate, { bitrate: task.bitrate, mode: task.mode, tags: task.tags })
+    case 'encodeOpus':
+      return encodeOpus(task.samples, task.sampleRate, { bitrate: task.bitrate, mode: task.mode, serial: task.serial, tags: task.tags, signal })
+    case 'encodeFlac':
+      return encodeFlac(task.samples, task.sampleRate, task.tags)
+  }
+}
+
+/**
+ * Buffers in a result that can be moved to the other thread instead of copied
+ */
+export function resultTransferables(result: AudioTaskResults[AudioTaskKind]): Transferable[] {
+  if (result instanceof ArrayBuffer) return [result]
+  if (result instanceof Float32Array || result instanceof Uint8Array) return [result.buffer]
+  if (typeof result === 'object' && 'samples' in result) return [result.samples.buffer]
+  return []
+}
@@ -0,0 +1,37 @@
+/**
+ * AudioWorker - Worker entry point running audio tasks off the main thread
+ * Started by the pool in workerPool; one task at a time, cancelled cooperatively
+ */
+
+import { resultTransferables, runAudioTask, type WorkerRequest, type WorkerResponse } from '@/lib/audioTasks'
+
+const running = new Map<number, AbortController>()
+
+const reply = (message: WorkerResponse, transfer: Transferable[] = []) => {
+  self.postMessage(message, { transfer })
+}
+
+self.onmessage = async (event: MessageEvent<WorkerRequest>) => {
+  const message = event.data
+
+  if (message.type === 'cancel') {
+    running.get(message.id)?.abort()
+    return
+  }
+
+  const controller = new AbortController()
+  running.set(message.id, controller)
+
+  try {
+    const result = await runAudioTask(message.task, {
+      signal: controller.signal,
+      onProgress: progress => reply({ type: 'progress', id: message.id, progress })
+    })
+    reply({ type: 'done', id: message.id, result }, resultTransferables(result))
+  } catch (error) {
+    const { name, message: text } = error instanceof Error ? error : new Error(String(error))
+    reply({ type: 'error', id: message.id, error: { name, message: text } })
+  } finally {
+    running.delete(message.id)
+  }
+}
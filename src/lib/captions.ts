@@ -0,0 +1,143 @@
+/**
+ * Captions - Build SRT and WebVTT subtitles from word timestamps
+ * Cues break at sentence ends, at the line-length limit and at the maximum cue duration
+ */
+
+import type { TimedSpan } from '@/lib/synthesisProvider'
+import { estimateTimings } from '@/lib/timings'
+
+export type CaptionFormat = 'srt' | 'vtt'
+
+export interface CaptionOptions {
+  /** Characters per line */
+  maxLineLength: number
+  /** Lines per cue */
+  maxLines: number
+  /** Longest a cue may stay on screen, in seconds */
+  maxCueDuration: number
+  /** Shortest a cue may stay on screen, in seconds, when the next cue leaves room */
+  minCueDuration: number
+}
+
+export const DEFAULT_CAPTION_OPTIONS: CaptionOptions = {
+  maxLineLength: 42,
+  maxLines: 2,
+  maxCueDuration: 7,
+  minCueDuration: 1
+}
+
+export interface CaptionCue {
+  start: number
+  end: number
+  lines: string[]
+}
+
+export interface CaptionSource {
+  text: string
+  duration: number
+  words?: TimedSpan[]
+  sentences?: TimedSpan[]
+}
+
+export const CAPTION_MIME_TYPES: Record<CaptionFormat, string> = {
+  srt: 'application/x-subrip',
+  vtt: 'text/vtt'
+}
+
+/**
+ * Render captions for a generation, estimating timings when none were stored
+ */
+export function buildCaptions(source: CaptionSource, format: CaptionFormat, options: Partial<CaptionOptions> = {}): string {
+  const timings = source.words && source.words.length > 0
+    ? { words: source.words, sentences: source.sentences || [] }
+    : estimateTimings(source.text, source.duration)
+  const cues = buildCues(timings.words, timings.sentences, { ...DEFAULT_CAPTION_OPTIONS, ...options })
+  return format === 'srt' ? formatSrt(cues) : formatVtt(cues)
+}
+
+/**
+ * Group words into cues that respect the line-length and duration limits
+ */
+export function buildCues(words: TimedSpan[], sentences: TimedSpan[], options: CaptionOptions): CaptionCue[] {
+  const sentenceEnds = sentences.map(sentence => sentence.end)
+  const cues: CaptionCue[] = []
+  let current: TimedSpan[] = []
+
+  const flush = () => {
+    if (current.length === 0) return
+    cues.push({
+      start: current[0].start,
+      end: current[current.length - 1].end,
+      lines: wrapLines(current.map(word => word.text), options.maxLineLength)
+    })
+    current = []
+  }
+
+  words.forEach(word => {
+    if (current.length > 0) {
+      const candidate = wrapLines([...current, word].map(w => w.text), options.maxLineLength)
+      const tooLong = candidate.length > options.maxLines
+      const tooSlow = word.end - current[0].start > options.maxCueDuration
+      if (tooLong || tooSlow) flush()
+    }
+
+    current.push(word)
+    // Timings are floats from different sums, so match sentence ends within a millisecond
+    if (sentenceEnds.some(end => Math.abs(end - word.end) < 1e-3)) flush()
+  })
+  flush()
+
+  // Hold short cues longer where the next cue leaves room
+  cues.forEach((cue, i) => {
+    const limit = i < cues.length - 1 ? cues[i + 1].start : Infinity
+    cue.end = Math.max(cue.end, Math.min(cue.start + options.minCueDuration, limit))
+  })
+
+  return cues
+}
+
+/**
+ * Greedily fill lines up to `maxLength`; a word longer than a line gets a line of its own
+ */
+function wrapLines(words: string[], maxLength: number): string[] {
+  const lines: string[] = []
+  let line = ''
+
+  words.forEach(word => {
+    if (line && line.length + 1 + word.length > maxLength) {
+      lines.push(line)
+      line = word
+    } else {
+      line = line ? `${line} ${word}` : word
+    }
+  })
+  if (line) lines.push(line)
+
+  return lines
+}
+
+export function formatSrt(cues: CaptionCue[]): string {
+  return cues
+    .map((cue, i) => `${i + 1}\n${formatTimestamp(cue.start, ',')} --> ${formatTimestamp(cue.end, ',')}\n${cue.lines.join('\n')}\n`)
+    .join('\n')
+}
+
+export function formatVtt(cues: CaptionCue[]): string {
+  const body = cues
+    .map(cue => `${formatTimestamp(cue.start, '.')} --> ${formatTimestamp(cue.end, '.')}\n${cue.lines.join('\n')}\n`)
+    .join('\n')
+  return `WEBVTT\n\n${body}`
+}
+
+/**
+ * hh:mm:ss followed by milliseconds; SRT separates them with a comma, WebVTT with a dot
+ */
+function formatTimestamp(seconds: number, separator: ',' | '.'): string {
+  const totalMs = Math.max(0, Math.round(seconds * 1000))
+  const hours = Math.floor(totalMs / 3600000)
+  const minutes = Math.floor(totalMs / 60000) % 60
+  const secs = Math.floor(totalMs / 1000) % 60
+  const ms = totalMs % 1000
+  const pad = (value: number, length = 2) => value.toString().padStart(length, '0')
+  return `${pad(hours)}:${pad(minutes)}:${pad(secs)}${separator}${pad(ms, 3)}`
+}
@@ -0,0 +1,161 @@
+/**
+ * ChunkedSynthesis - Renders long documents chunk by chunk through any provider
+ * and stitches the pieces into one continuous track
+ */
+
+import type { SynthesisProvider, SynthesisRequest, SynthesisResult, TimedSpan } from '@/lib/synthesisProvider'
+import type { TextChunk } from '@/lib/textChunker'
+import { audioManager } from '@/lib/audioManager'
+import { estimateTimings, offsetTimings, scaleTimings } from '@/lib/timings'
+import { deriveSeed } from '@/lib/random'
+
+const CROSSFADE_MS = 20
+const PARAGRAPH_GAP_MS = 350
+
+export interface RenderedChunk {
+  index: number
+  count: number
+  samples: Float32Array
+  sampleRate: number
+  /** Silence in seconds that belongs after this chunk (paragraph breaks) */
+  gapAfter: number
+}
+
+export type ChunkedSynthesisRequest = Omit<SynthesisRequest, 'text' | 'segments'> & {
+  /** Receives each chunk as soon as it is rendered, already at the requested speed and pitch; awaited so chunks arrive in order */
+  onChunk?: (chunk: RenderedChunk) => void | Promise<void>
+}
+
+/**
+ * Synthesize chunks in order, reporting overall progress as each chunk advances
+ */
+export async function synthesizeChunks(
+  provider: SynthesisProvider,
+  chunks: TextChunk[],
+  { onProgress, onChunk, ...request }: ChunkedSynthesisRequest
+): Promise<SynthesisResult> {
+  if (chunks.length === 0) {
+    throw new Error('Nothing to synthesize')
+  }
+
+  // Engines that cannot render prosody get neutral settings and the DSP pass below instead
+  const { speed, pitch } = request.settings
+  const postProcess = !provider.rendersProsody && (speed !== 1 || pitch !== 1)
+  const settings = postProcess ? { ...request.settings, speed: 1, pitch: 1 } : request.settings
+  const renderShare = postProcess ? 90 : 100
+
+  const results: SynthesisResult[] = []
+
+  for (let i = 0; i < chunks.length; i++) {
+    request.signal?.throwIfAborted()
+
+    const result = await provider.synthesize({
+      ...request,
+      // Each chunk draws its own noise from the request seed
+      settings: settings.seed === undefined ? settings : { ...settings, seed: deriveSeed(settings.seed, i) },
+      text: chunks[i].text,
+      segments: chunks[i].segments,
+      onProgress: ({ progress, stage }) => onProgress?.({
+        progress: ((i + progress / 100) / chunks.length) * renderShare,
+        stage: chunks.length > 1 ? `${stage} (chunk ${i + 1} of ${chunks.length})` : stage
+      })
+    })
+
+    if (results.length > 0 && result.sampleRate !== results[0].sampleRate) {
+      throw new Error(`Chunk ${i + 1} came back at ${result.sampleRate} Hz, expected ${results[0].sampleRate} Hz`)
+    }
+    results.push(result)
+
+    if (onChunk) {
+      // Streamed chunks are stretched on their own; the final track is stretched in one pass below
+      const gap = chunks[i].paragraphEnd && i < chunks.length - 1 ? PARAGRAPH_GAP_MS / 1000 : 0
+      await onChunk({
+        index: i,
+        count: chunks.length,
+        samples: postProcess
+          ? await audioManager.runTask({ kind: 'tempoPitch', samples: result.samples, sampleRate: result.sampleRate, speed, pitch }, { signal: request.signal })
+          : result.samples,
+        sampleRate: result.sampleRate,
+        gapAfter: postProcess ? gap / speed : gap
+      })
+    }
+  }
+
+  const sampleRate = results[0].sampleRate
+  const stitched = stitch(results.map(r => r.samples), chunks.map(c => c.paragraphEnd), sampleRate)
+  let samples = stitched.samples
+
+  const words: TimedSpan[] = []
+  const sentences: TimedSpan[] = []
+  results.forEach((result, i) => {
+    const timings = result.words
+      ? { words: result.words, sentences: result.sentences || [] }
+      : estimateTimings(chunks[i].text, result.duration)
+    const offset = stitched.offsets[i] / sampleRate
+    words.push(...offsetTimings(timings.words, offset))
+    sentences.push(...offsetTimings(timings.sentences, offset))
+  })
+
+  if (postProcess) {
+    onProgress?.({ progress: renderShare, stage: 'time-stretching' })
+    samples = await audioManager.runTask(
+      { kind: 'tempoPitch', samples, sampleRate, speed, pitch },
+      { signal: request.signal, transfer: [samples.buffer] }
+    )
+  }
+
+  onProgress?.({ progress: 100, stage: 'stitching' })
+
+  return {
+    samples,
+    sampleRate,
+    duration: samples.length / sampleRate,
+    words: postProcess ? scaleTimings(words, 1 / speed) : words,
+    sentences: postProcess ? scaleTimings(sentences, 1 / speed) : sentences
+  }
+}
+
+/**
+ * Join rendered chunks with short raised-cosine crossfades, inserting a pause after paragraphs
+ * Also returns the sample offset at which each chunk starts in the joined track
+ */
+export function stitch(parts: Float32Array[], paragraphEnds: boolean[], sampleRate: number): { samples: Float32Array; offsets: number[] } {
+  const fade = Math.round(sampleRate * CROSSFADE_MS / 1000)
+  const gap = Math.round(sampleRate * PARAGRAPH_GAP_MS / 1000)
+
+  let total = 0
+  parts.forEach((part, i) => {
+    total += part.length
+    if (i < parts.length - 1) {
+      total += paragraphEnds[i] ? gap : -Math.min(fade, part.length, parts[i + 1].length)
+    }
+  })
+
+  const output = new Float32Array(Math.max(0, total))
+  const offsets: number[] = []
+  let offset = 0
+
+  parts.forEach((part, i) => {
+    const previous = parts[i - 1]
+    const overlap = i > 0 && !paragraphEnds[i - 1] ? Math.min(fade, part.length, previous.length) : 0
+    offsets.push(offset - overlap)
+
+    for (let j = 0; j < part.length; j++) {
+      if (j < overlap) {
+        // The tail of the previous chunk is already in the buffer; fade it out as this one fades in
+        const fadeIn = 0.5 - 0.5 * Math.cos(Math.PI * (j + 0.5) / overlap)
+        const index = offset - overlap + j
+        output[index] = output[index] * (1 - fadeIn) + part[j] * fadeIn
+      } else {
+        output[offset - overlap + j] = part[j]
+      }
+    }
+
+    offset += part.length - overlap
+    if (paragraphEnds[i] && i < parts.length - 1) {
+      offset += gap
+    }
+  })
+
+  return { samples: output, offsets }
+}
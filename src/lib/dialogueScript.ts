@@ -0,0 +1,83 @@
+/**
+ * DialogueScript - Parses "Speaker: line" scripts into speaker turns
+ * Lines without a speaker prefix continue the previous turn; blank lines are ignored
+ */
+
+export interface DialogueTurn {
+  speaker: string
+  text: string
+  /** 1-based line of the script where the turn starts */
+  line: number
+}
+
+export interface DialogueError {
+  message: string
+  line: number
+}
+
+export interface DialogueParseResult {
+  turns: DialogueTurn[]
+  /** Speakers in order of first appearance */
+  speakers: string[]
+  errors: DialogueError[]
+}
+
+// A colon followed directly by a digit ("10:30") is a time, not a speaker prefix
+const SPEAKER_LINE = /^\s*([^:\s][^:]{0,39}?)\s*:(?!\d)\s*(.*)$/
+const NOT_A_SPEAKER = /^(?:https?|ftp|mailto)$|^(?:\S+\s+){4}/i
+
+/**
+ * Parse a dialogue script, reporting lines that cannot be attributed to a speaker
+ */
+export function parseDialogue(script: string): DialogueParseResult {
+  const turns: DialogueTurn[] = []
+  const speakers: string[] = []
+  const errors: DialogueError[] = []
+
+  script.split('\n').forEach((raw, index) => {
+    const line = index + 1
+    if (!raw.trim()) return
+
+    const match = raw.match(SPEAKER_LINE)
+    if (match && !NOT_A_SPEAKER.test(match[1])) {
+      const speaker = match[1].trim()
+      if (!speakers.includes(speaker)) speakers.push(speaker)
+
+      if (!match[2].trim()) {
+        errors.push({ message: `${speaker} has an empty line`, line })
+        return
+      }
+      turns.push({ speaker, text: match[2].trim(), line })
+      return
+    }
+
+    const previous = turns[turns.length - 1]
+    if (!previous) {
+      errors.push({ message: 'Line has no speaker (expected "Speaker: text")', line })
+      return
+    }
+    previous.text += ` ${raw.trim()}`
+  })
+
+  return { turns, speakers, errors }
+}
+
+/**
+ * Join rendered turns into one track with a silent gap between speakers
+ * Also returns the sample offset at which each turn starts
+ */
+export function joinTurns(parts: Float32Array[], sampleRate: number, gapMs: number): { samples: Float32Array; offsets: number[] } {
+  const gap = Math.round(sampleRate * gapMs / 1000)
+  const total = parts.reduce((sum, part) => sum + part.length, 0) + gap * Math.max(0, parts.length - 1)
+  const output = new Float32Array(total)
+
+  const offsets: number[] = []
+  let offset = 0
+  parts.forEach((part, i) => {
+    offsets.push(offset)
+    output.set(part, offset)
+    offset += part.length + (i < parts.length - 1 ? gap : 0)
+  })
+
+  return { samples: output, offsets }
+}
@@ -0,0 +1,175 @@
+import { createHash } from 'node:crypto'
+import { describe, expect, it } from 'vitest'
+import { encodeFlac, FLAC_BLOCK_SIZE } from '@/lib/flacEncoder'
+
+class BitReader {
+  private position = 0
+
+  constructor(private bytes: Uint8Array, offset = 0) {
+    this.position = offset * 8
+  }
+
+  get byteOffset(): number {
+    return this.position >> 3
+  }
+
+  read(bits: number): number {
+    let value = 0
+    for (let i = 0; i < bits; i++, this.position++) {
+      value = value * 2 + ((this.bytes[this.position >> 3] >> (7 - (this.position & 7))) & 1)
+    }
+    return value
+  }
+
+  readSigned(bits: number): number {
+    const value = this.read(bits)
+    return value >= 2 ** (bits - 1) ? value - 2 ** bits : value
+  }
+
+  readRice(parameter: number): number {
+    let quotient = 0
+    while (this.read(1) === 0) quotient++
+    const folded = quotient * 2 ** parameter + this.read(parameter)
+    return folded % 2 ? -(folded + 1) / 2 : folded / 2
+  }
+
+  align(): void {
+    this.position = Math.ceil(this.position / 8) * 8
+  }
+}
+
+const FIXED_COEFFICIENTS = [[], [1], [2, -1], [3, -3, 1], [4, -6, 4, -1]]
+
+/**
+ * Just enough of a FLAC decoder to read back what encodeFlac writes: mono, fixed block size, constant, verbatim
+ * and fixed-predictor subframes
+ */
+function decodeFlac(bytes: Uint8Array) {
+  expect(new TextDecoder().decode(bytes.subarray(0, 4))).toBe('fLaC')
+  const blocks: { type: number; body: Uint8Array }[] = []
+  let offset = 4
+  for (let last = false; !last;) {
+    last = (bytes[offset] & 0x80) !== 0
+    const length = (bytes[offset + 1] << 16) | (bytes[offset + 2] << 8) | bytes[offset + 3]
+    blocks.push({ type: bytes[offset] & 0x7f, body: bytes.subarray(offset + 4, offset + 4 + length) })
+    offset += 4 + length
+  }
+
+  const info = new BitReader(blocks[0].body)
+  info.read(80) // block and frame sizes
+  const sampleRate = info.read(20)
+  const channels = info.read(3) + 1
+  const bitsPerSample = info.read(5) + 1
+  const totalSamples = info.read(36)
+  const md5 = blocks[0].body.subarray(18, 34)
+
+  const samples = new Int32Array(totalSamples)
+  const subframeTypes: string[] = []
+  const reader = new BitReader(bytes, offset)
+  let decoded = 0
+  while (decoded < totalSamples) {
+    expect(reader.read(16)).toBe(0xfff8)
+    const sizeCode = reader.read(4)
+    reader.read(12) // sample rate, channels, sample size, reserved
+    const lead = reader.read(8)
+    for (let mask = 0x40; lead & 0x80 && lead & mask; mask >>= 1) reader.read(8)
+    const blockSize = sizeCode === 0b1100 ? FLAC_BLOCK_SIZE : reader.read(16) + 1
+    reader.read(8) // CRC-8
+
+    reader.read(1)
+    const type = reader.read(6)
+    reader.read(1)
+    const block = samples.subarray(decoded, decoded + blockSize)
+    if (type === 0) {
+      subframeTypes.push('constant')
+      block.fill(reader.readSigned(bitsPerSample))
+    } else if (type === 1) {
+      subframeTypes.push('verbatim')
+      for (let i = 0; i < blockSize; i++) block[i] = reader.readSigned(bitsPerSample)
+    } else {
+      const order = type & 0x7
+      subframeTypes.push(`fixed${order}`)
+      for (let i = 0; i < order; i++) block[i] = reader.readSigned(bitsPerSample)
+      expect(reader.read(2)).toBe(1)
+      const partitionOrder = reader.read(4)
+      let index = order
+      for (let partition = 0; partition < 2 ** partitionOrder; partition++) {
+        const parameter = reader.read(5)
+        const end = (partition + 1) * (blockSize >> partitionOrder)
+        for (; index < end; index++) {
+          const prediction = FIXED_COEFFICIENTS[order].reduce((sum, c, j) => sum + c * block[index - 1 - j], 0)
+          block[index] = prediction + reader.readRice(parameter)
+        }
+      }
+    }
+    reader.align()
+    reader.read(16) // CRC-16
+    decoded += blockSize
+  }
+
+  expect(reader.byteOffset).toBe(bytes.length)
+  return { sampleRate, channels, bitsPerSample, samples, md5, blocks, subframeTypes }
+}
+
+const toPcm24 = (samples: Float32Array) => Int32Array.from(samples, value => Math.max(-0x800000, Math.min(0x7fffff, Math.round(value * 0x800000))))
+
+function noise(length: number, seed = 1): Float32Array {
+  let state = seed
+  return Float32Array.from({ length }, () => {
+    state = (state * 1103515245 + 12345) >>> 0
+    return state / 2 ** 31 - 1
+  })
+}
+
+describe('encodeFlac', () => {
+  it('round-trips speech-like audio sample for sample', () => {
+    const samples = Float32Array.from({ length: 10000 }, (_, i) => 0.6 * Math.sin(i / 7) * Math.sin(i / 900))
+    const flac = decodeFlac(encodeFlac(samples, 44100))
+    expect(flac).toMatchObject({ sampleRate: 44100, channels: 1, bitsPerSample: 24 })
+    expect(flac.samples).toEqual(toPcm24(samples))
+    expect(flac.subframeTypes.every(type => type.startsWith('fixed'))).toBe(true)
+  })
+
+  it('round-trips white noise through verbatim subframes', () => {
+    const samples = noise(5000)
+    const flac = decodeFlac(encodeFlac(samples, 48000))
+    expect(flac.samples).toEqual(toPcm24(samples))
+    expect(flac.subframeTypes).toEqual(['verbatim', 'verbatim'])
+  })
+
+  it('codes silence as constant subframes', () => {
+    const flac = decodeFlac(encodeFlac(new Float32Array(FLAC_BLOCK_SIZE * 2 + 10), 22050))
+    expect(flac.subframeTypes).toEqual(['constant', 'constant', 'constant'])
+    expect(flac.samples.every(sample => sample === 0)).toBe(true)
+  })
+
+  it('reads rates without a header code from STREAMINFO', () => {
+    const samples = Float32Array.from([0.1, -0.2, 0.3])
+    const flac = decodeFlac(encodeFlac(samples, 37000))
+    expect(flac.sampleRate).toBe(37000)
+    expect(flac.samples).toEqual(toPcm24(samples))
+  })
+
+  it('stores the MD5 of the 24-bit samples', () => {
+    const samples = noise(3000, 7)
+    const pcm = toPcm24(samples)
+    const bytes = new Uint8Array(pcm.length * 3)
+    pcm.forEach((sample, i) => bytes.set([sample & 0xff, (sample >> 8) & 0xff, (sample >> 16) & 0xff], i * 3))
+    const flac = decodeFlac(encodeFlac(samples, 44100))
+    expect(Buffer.from(flac.md5).toString('hex')).toBe(createHash('md5').update(bytes).digest('hex'))
+  })
+
+  it('keeps the detail of a 16-bit take exactly', () => {
+    const samples = Float32Array.from(toPcm24(noise(2000, 3)), value => Math.round(value / 256) / 0x8000)
+    const flac = decodeFlac(encodeFlac(samples, 44100))
+    expect(Array.from(flac.samples, value => value / 0x800000)).toEqual(Array.from(samples))
+  })
+
+  it('writes tags as a Vorbis comment block', () => {
+    const flac = decodeFlac(encodeFlac(new Float32Array(100), 44100, { title: 'Take', artist: 'Aria', album: '', comment: '', language: 'eng', date: '2026-01-02' }))
+    const comment = new TextDecoder().decode(flac.blocks.find(block => block.type === 4)!.body)
+    expect(comment).toContain('TITLE=Take')
+    expect(comment).toContain('ARTIST=Aria')
+    expect(comment).not.toContain('ALBUM=')
+  })
+})
@@ -0,0 +1,379 @@
+/**
+ * FlacEncoder - Lossless FLAC encoding of mono renders for archival downloads
+ * 24-bit samples, fixed-size blocks, constant/fixed-predictor/verbatim subframes with partitioned Rice residuals
+ */
+
+import { encodeFlacPicture, encodeVorbisComment, type AudioTags } from '@/lib/audioTags'
+
+export const FLAC_BLOCK_SIZE = 4096
+
+const BITS_PER_SAMPLE = 24
+const SAMPLE_MASK = 0xffffff
+const MAX_PARTITION_ORDER = 8
+// Residuals of 24-bit audio outgrow the 4-bit Rice parameters, so partitions use RICE2's 5-bit ones (31 is the escape code)
+const RICE_PARAMETER_BITS = 5
+const MAX_RICE_PARAMETER = 30
+const METADATA_STREAMINFO = 0
+const METADATA_VORBIS_COMMENT = 4
+const METADATA_PICTURE = 6
+// Header codes for the rates the frame header can name directly; others are read from STREAMINFO
+const SAMPLE_RATE_CODES: Record<number, number> = {
+  88200: 1, 176400: 2, 192000: 3, 8000: 4, 16000: 5, 22050: 6, 24000: 7, 32000: 8, 44100: 9, 48000: 10, 96000: 11
+}
+
+type Subframe =
+  | { type: 'constant'; bits: number }
+  | { type: 'verbatim'; bits: number }
+  | { type: 'fixed'; bits: number; order: number; residual: Int32Array; partitionOrder: number; parameters: number[] }
+
+/**
+ * Encode mono PCM as a FLAC file at its own sample rate
+ * Samples are rounded to 24 bits, so takes keep the detail of the float render and 16- or 24-bit WAVs
+ * round-trip exactly; tags become a VORBIS_COMMENT block and cover art a PICTURE block
+ */
+export function encodeFlac(samples: Float32Array, sampleRate: number, tags?: AudioTags): Uint8Array {
+  const pcm = new Int32Array(samples.length)
+  for (let i = 0; i < samples.length; i++) {
+    pcm[i] = Math.max(-0x800000, Math.min(0x7fffff, Math.round(samples[i] * 0x800000)))
+  }
+
+  const writer = new BitWriter()
+  const metadata = [{ type: METADATA_VORBIS_COMMENT, body: encodeVorbisComment('VoiceForge Pro', tags) }]
+  if (tags?.cover) metadata.push({ type: METADATA_PICTURE, body: encodeFlacPicture(tags.cover) })
+  const streamInfoOffset = writeStreamHeader(writer, sampleRate, pcm.length)
+  metadata.forEach(({ type, body }, index) => {
+    writer.write(index === metadata.length - 1 ? 1 : 0, 1) // last metadata block
+    writer.write(type, 7)
+    writer.write(body.length, 24)
+    for (const byte of body) writer.write(byte, 8)
+  })
+  let minFrameBytes = Infinity
+  let maxFrameBytes = 0
+
+  for (let start = 0, frame = 0; start < pcm.length; start += FLAC_BLOCK_SIZE, frame++) {
+    const before = writer.byteLength
+    writeFrame(writer, pcm.subarray(start, start + FLAC_BLOCK_SIZE), frame, sampleRate)
+    minFrameBytes = Math.min(minFrameBytes, writer.byteLength - before)
+    maxFrameBytes = Math.max(maxFrameBytes, writer.byteLength - before)
+  }
+
+  const bytes = writer.finish()
+  // Frame sizes and the checksum are only known once every frame is written
+  const view = new DataView(bytes.buffer)
+  if (maxFrameBytes > 0) {
+    view.setUint16(streamInfoOffset + 4, minFrameBytes >> 8)
+    view.setUint8(streamInfoOffset + 6, minFrameBytes & 0xff)
+    view.setUint16(streamInfoOffset + 7, maxFrameBytes >> 8)
+    view.setUint8(streamInfoOffset + 9, maxFrameBytes & 0xff)
+  }
+  bytes.set(md5(pcmBytes(pcm)), streamInfoOffset + 18)
+  return bytes
+}
+
+/**
+ * Write the "fLaC" marker and a STREAMINFO block, which other metadata blocks follow; returns the byte offset of the block body
+ */
+function writeStreamHeader(writer: BitWriter, sampleRate: number, totalSamples: number): number {
+  const blockSize = Math.max(16, Math.min(FLAC_BLOCK_SIZE, totalSamples))
+
+  writer.write(0x664c6143, 32) // "fLaC"
+  writer.write(0, 1) // not the last metadata block
+  writer.write(METADATA_STREAMINFO, 7)
+  writer.write(34, 24)
+
+  const offset = writer.byteLength
+  writer.write(blockSize, 16)
+  writer.write(blockSize, 16)
+  writer.write(0, 24) // minimum frame size, patched later
+  writer.write(0, 24) // maximum frame size, patched later
+  writer.write(sampleRate, 20)
+  writer.write(0, 3) // one channel
+  writer.write(BITS_PER_SAMPLE - 1, 5)
+  // 36-bit sample count, split so the shifts stay within 32 bits
+  writer.write(Math.floor(totalSamples / 2 ** 32), 4)
+  writer.write(totalSamples >>> 0, 32)
+  for (let i = 0; i < 4; i++) writer.write(0, 32) // MD5, patched later
+  return offset
+}
+
+function writeFrame(writer: BitWriter, block: Int32Array, frame: number, sampleRate: number): void {
+  const start = writer.byteLength
+  const fullBlock = block.length === FLAC_BLOCK_SIZE
+
+  writer.write(0xfff8, 16) // sync code, fixed block size
+  writer.write(fullBlock ? 0b1100 : 0b0111, 4)
+  writer.write(SAMPLE_RATE_CODES[sampleRate] ?? 0, 4)
+  writer.write(0, 4) // mono
+  writer.write(0b110, 3) // 24 bits per sample
+  writer.write(0, 1)
+  for (const byte of utf8Number(frame)) writer.write(byte, 8)
+  if (!fullBlock) writer.write(block.length - 1, 16)
+  writer.write(crc8(writer.bytesFrom(start)), 8)
+
+  writeSubframe(writer, block, chooseSubframe(block))
+
+  writer.alignToByte()
+  writer.write(crc16(writer.bytesFrom(start)), 16)
+}
+
+/**
+ * Pick the smallest of a constant, fixed-predictor or verbatim coding of the block
+ */
+function chooseSubframe(block: Int32Array): Subframe {
+  if (block.every(sample => sample === block[0])) {
+    return { type: 'constant', bits: BITS_PER_SAMPLE }
+  }
+
+  // Sizes leave out the 8-bit subframe header every type shares
+  let best: Subframe = { type: 'verbatim', bits: block.length * BITS_PER_SAMPLE }
+  for (let order = 0; order <= 4 && order < block.length; order++) {
+    const residual = fixedResidual(block, order)
+    const rice = chooseRicePartitions(residual, block.length, order)
+    const bits = order * BITS_PER_SAMPLE + rice.bits
+    if (bits < best.bits) {
+      best = { type: 'fixed', bits, order, residual, partitionOrder: rice.partitionOrder, parameters: rice.parameters }
+    }
+  }
+  return best
+}
+
+/**
+ * Residual of the fixed polynomial predictor of the given order, one value per sample after the warm-up
+ */
+function fixedResidual(x: Int32Array, order: number): Int32Array {
+  const residual = new Int32Array(x.length - order)
+  for (let i = order; i < x.length; i++) {
+    switch (order) {
+      case 0: residual[i] = x[i]; break
+      case 1: residual[i - 1] = x[i] - x[i - 1]; break
+      case 2: residual[i - 2] = x[i] - 2 * x[i - 1] + x[i - 2]; break
+      case 3: residual[i - 3] = x[i] - 3 * x[i - 1] + 3 * x[i - 2] - x[i - 3]; break
+      default: residual[i - 4] = x[i] - 4 * x[i - 1] + 6 * x[i - 2] - 4 * x[i - 3] + x[i - 4]
+    }
+  }
+  return residual
+}
+
+/**
+ * Best Rice partitioning of a residual: partition order and one parameter per partition
+ */
+function chooseRicePartitions(residual: Int32Array, blockLength: number, order: number): { bits: number; partitionOrder: number; parameters: number[] } {
+  const folded = new Uint32Array(residual.length)
+  for (let i = 0; i < residual.length; i++) {
+    folded[i] = residual[i] >= 0 ? residual[i] * 2 : -residual[i] * 2 - 1
+  }
+
+  let best = { bits: Infinity, partitionOrder: 0, parameters: [] as number[] }
+  for (let partitionOrder = 0; partitionOrder <= MAX_PARTITION_ORDER; partitionOrder++) {
+    const partitionLength = blockLength >> partitionOrder
+    if (blockLength % (1 << partitionOrder) !== 0 || partitionLength <= order) break
+
+    // Two bits of coding method and four of partition order, then a parameter per partition
+    let bits = 6
+    const parameters: number[] = []
+    for (let partition = 0, index = 0; partition < 1 << partitionOrder; partition++) {
+      const end = (partition + 1) * partitionLength - order
+      const choice = riceParameter(folded, index, end)
+      parameters.push(choice.parameter)
+      bits += RICE_PARAMETER_BITS + choice.bits
+      index = end
+    }
+
+    if (bits < best.bits) best = { bits, partitionOrder, parameters }
+  }
+  return best
+}
+
+function riceParameter(folded: Uint32Array, start: number, end: number): { parameter: number; bits: number } {
+  let sum = 0
+  for (let i = start; i < end; i++) sum += folded[i]
+  const count = end - start
+  // The mean picks the neighbourhood; the exact cost decides within it
+  const estimate = count > 0 && sum > count ? Math.min(MAX_RICE_PARAMETER, Math.floor(Math.log2(sum / count))) : 0
+
+  let best = { parameter: 0, bits: Infinity }
+  for (let parameter = Math.max(0, estimate - 1); parameter <= Math.min(MAX_RICE_PARAMETER, estimate + 1); parameter++) {
+    let bits = count * (parameter + 1)
+    for (let i = start; i < end; i++) bits += folded[i] >>> parameter
+    if (bits < best.bits) best = { parameter, bits }
+  }
+  return best
+}
+
+function writeSubframe(writer: BitWriter, block: Int32Array, subframe: Subframe): void {
+  writer.write(0, 1) // padding
+  switch (subframe.type) {
+    case 'constant':
+      writer.write(0b000000, 6)
+      writer.write(0, 1) // no wasted bits
+      writer.write(block[0] & SAMPLE_MASK, BITS_PER_SAMPLE)
+      return
+    case 'verbatim':
+      writer.write(0b000001, 6)
+      writer.write(0, 1)
+      block.forEach(sample => writer.write(sample & SAMPLE_MASK, BITS_PER_SAMPLE))
+      return
+    case 'fixed': {
+      writer.write(0b001000 | subframe.order, 6)
+      writer.write(0, 1)
+      for (let i = 0; i < subframe.order; i++) writer.write(block[i] & SAMPLE_MASK, BITS_PER_SAMPLE)
+
+      writer.write(1, 2) // Rice coding with 5-bit parameters
+      writer.write(subframe.partitionOrder, 4)
+      const partitionLength = block.length >> subframe.partitionOrder
+      let index = 0
+      subframe.parameters.forEach((parameter, partition) => {
+        writer.write(parameter, RICE_PARAMETER_BITS)
+        const end = (partition + 1) * partitionLength - subframe.order
+        for (; index < end; index++) {
+          const value = subframe.residual[index]
+          writer.writeRice(value >= 0 ? value * 2 : -value * 2 - 1, parameter)
+        }
+      })
+    }
+  }
+}
+
+/**
+ * Frame numbers are stored with the variable-length scheme UTF-8 uses for code points
+ */
+function utf8Number(value: number): number[] {
+  if (value < 0x80) return [value]
+
+  // A lead byte for n bytes holds 7 - n bits and each continuation byte 6 more
+  let count = 2
+  while (value >= 2 ** (7 - count + 6 * (count - 1))) count++
+
+  const bytes: number[] = []
+  for (let i = 1; i < count; i++) {
+    bytes.unshift(0x80 | (value % 64))
+    value = Math.floor(value / 64)
+  }
+  bytes.unshift(((0xff << (8 - count)) & 0xff) | value)
+  return bytes
+}
+
+function pcmBytes(pcm: Int32Array): Uint8Array {
+  // Little-endian, three bytes a sample, as the MD5 in STREAMINFO is defined over
+  const bytes = new Uint8Array(pcm.length * 3)
+  pcm.forEach((sample, i) => {
+    bytes[i * 3] = sample & 0xff
+    bytes[i * 3 + 1] = (sample >> 8) & 0xff
+    bytes[i * 3 + 2] = (sample >> 16) & 0xff
+  })
+  return bytes
+}
+
+function crc8(bytes: Uint8Array): number {
+  let crc = 0
+  for (const byte of bytes) {
+    crc ^= byte
+    for (let bit = 0; bit < 8; bit++) crc = crc & 0x80 ? ((crc << 1) ^ 0x07) & 0xff : (crc << 1) & 0xff
+  }
+  return crc
+}
+
+function crc16(bytes: Uint8Array): number {
+  let crc = 0
+  for (const byte of bytes) {
+    crc ^= byte << 8
+    for (let bit = 0; bit < 8; bit++) crc = crc & 0x8000 ? ((crc << 1) ^ 0x8005) & 0xffff : (crc << 1) & 0xffff
+  }
+  return crc
+}
+
+const MD5_SHIFTS = [7, 12, 17, 22, 5, 9, 14, 20, 4, 11, 16, 23, 6, 10, 15, 21]
+const MD5_CONSTANTS = Array.from({ length: 64 }, (_, i) => Math.floor(Math.abs(Math.sin(i + 1)) * 2 ** 32) >>> 0)
+
+/**
+ * MD5 of the decoded audio, which STREAMINFO carries so decoders can verify the stream
+ */
+function md5(data: Uint8Array): Uint8Array {
+  const padded = new Uint8Array((((data.length + 8) >> 6) + 1) << 6)
+  padded.set(data)
+  padded[data.length] = 0x80
+  const view = new DataView(padded.buffer)
+  view.setUint32(padded.length - 8, (data.length * 8) >>> 0, true)
+  view.setUint32(padded.length - 4, Math.floor(data.length / 2 ** 29), true)
+
+  const state = [0x67452301, 0xefcdab89, 0x98badcfe, 0x10325476]
+  const words = new Uint32Array(16)
+  for (let offset = 0; offset < padded.length; offset += 64) {
+    for (let i = 0; i < 16; i++) words[i] = view.getUint32(offset + i * 4, true)
+    let [a, b, c, d] = state
+
+    for (let i = 0; i < 64; i++) {
+      const round = i >> 4
+      const f = round === 0 ? (b & c) | (~b & d) : round === 1 ? (d & b) | (~d & c) : round === 2 ? b ^ c ^ d : c ^ (b | ~d)
+      const index = round === 0 ? i : round === 1 ? (5 * i + 1) & 15 : round === 2 ? (3 * i + 5) & 15 : (7 * i) & 15
+      const shift = MD5_SHIFTS[(round << 2) | (i & 3)]
+      const sum = (a + f + MD5_CONSTANTS[i] + words[index]) | 0
+      a = d
+      d = c
+      c = b
+      b = (b + ((sum << shift) | (sum >>> (32 - shift)))) | 0
+    }
+
+    state[0] = (state[0] + a) | 0
+    state[1] = (state[1] + b) | 0
+    state[2] = (state[2] + c) | 0
+    state[3] = (state[3] + d) | 0
+  }
+
+  const digest = new Uint8Array(16)
+  const digestView = new DataView(digest.buffer)
+  state.forEach((word, i) => digestView.setUint32(i * 4, word >>> 0, true))
+  return digest
+}
+
+/**
+ * Big-endian bit writer that grows as the stream is written
+ */
+class BitWriter {
+  private bytes = new Uint8Array(1 << 16)
+  private position = 0
+
+  get byteLength(): number {
+    return this.position >> 3
+  }
+
+  write(value: number, bits: number): void {
+    this.reserve(bits)
+    for (let bit = bits - 1; bit >= 0; bit--) {
+      if ((value >>> bit) & 1) this.bytes[this.position >> 3] |= 0x80 >> (this.position & 7)
+      this.position++
+    }
+  }
+
+  /**
+   * Quotient in unary (zeros closed by a one), then the low bits as they are
+   */
+  writeRice(value: number, parameter: number): void {
+    const quotient = value >>> parameter
+    this.reserve(quotient + 1 + parameter)
+    this.position += quotient
+    this.write(1, 1)
+    if (parameter > 0) this.write(value & ((1 << parameter) - 1), parameter)
+  }
+
+  alignToByte(): void {
+    this.position = (this.position + 7) & ~7
+  }
+
+  bytesFrom(start: number): Uint8Array {
+    return this.bytes.subarray(start, this.byteLength)
+  }
+
+  finish(): Uint8Array {
+    this.alignToByte()
+    return this.bytes.slice(0, this.byteLength)
+  }
+
+  private reserve(bits: number): void {
+    const needed = (this.position + bits + 7) >> 3
+    if (needed <= this.bytes.length) return
+    const grown = new Uint8Array(Math.max(needed, this.bytes.length * 2))
+    grown.set(this.bytes)
+    this.bytes = grown
+  }
+}
@@ -0,0 +1,573 @@
+/**
+ * FormantSynth - Offline cascade/parallel formant speech synthesizer
+ * Grows AudioManager's harmonic/formant preview model into a phoneme renderer
+ */
+
+import { createRandom, type RandomSource } from '@/lib/random'
+
+export type PhonemeClass =
+  | 'vowel'
+  | 'diphthong'
+  | 'glide'
+  | 'liquid'
+  | 'nasal'
+  | 'stop'
+  | 'affricate'
+  | 'fricative'
+  | 'aspirate'
+  | 'silence'
+
+type Formants = [number, number, number]
+
+interface NoiseSpec {
+  amplitude: number
+  freq: number
+  bandwidth: number
+}
+
+interface PhonemeSpec {
+  cls: PhonemeClass
+  duration: number
+  formants: Formants
+  endFormants?: Formants
+  voicing: number
+  frication?: NoiseSpec
+  burst?: NoiseSpec
+  aspiration?: number
+}
+
+export interface SynthPhoneme {
+  symbol: string
+  stress?: number
+  duration?: number
+}
+
+export interface FormantVoice {
+  f0: number
+  formantScale: number
+  breathiness: number
+}
+
+export interface FormantRenderOptions {
+  sampleRate: number
+  voice: FormantVoice
+  speed?: number
+  pitch?: number
+  question?: boolean
+  /** Scales intonation excursions around the base pitch; 1 is the default contour */
+  pitchRange?: number
+  /** Share of voicing kept, the rest turned into aspiration; 0 whispers */
+  voicing?: number
+  /** Noise source; a fixed seed is used when omitted so renders are always reproducible */
+  random?: RandomSource
+}
+
+const FRAME_MS = 5
+const DEFAULT_BANDWIDTHS: Formants = [60, 90, 150]
+const F4 = 3500
+const F5 = 4500
+const NASAL_POLE = 270
+
+const vowel = (duration: number, formants: Formants, endFormants?: Formants): PhonemeSpec => ({
+  cls: endFormants ? 'diphthong' : 'vowel',
+  duration,
+  formants,
+  endFormants,
+  voicing: 1
+})
+
+// Klatt-style targets for an adult male vocal tract; other voices scale them
+export const PHONEMES: Record<string, PhonemeSpec> = {
+  IY: vowel(155, [310, 2020, 2960]),
+  IH: vowel(135, [400, 1800, 2570]),
+  EH: vowel(150, [530, 1680, 2500]),
+  AE: vowel(230, [620, 1660, 2430]),
+  AA: vowel(240, [700, 1220, 2600]),
+  AO: vowel(240, [600, 990, 2570]),
+  AH: vowel(140, [620, 1220, 2550]),
+  UH: vowel(160, [450, 1100, 2350]),
+  ER: vowel(180, [470, 1270, 1540]),
+  AX: vowel(80, [500, 1400, 2300]),
+  UW: vowel(210, [350, 1250, 2200], [320, 900, 2200]),
+  EY: vowel(190, [480, 1720, 2520], [330, 2200, 2600]),
+  AY: vowel(250, [660, 1200, 2550], [400, 1880, 2500]),
+  AW: vowel(260, [640, 1230, 2550], [420, 940, 2350]),
+  OY: vowel(280, [550, 960, 2400], [360, 1820, 2450]),
+  OW: vowel(220, [540, 1100, 2300], [450, 900, 2300]),
+
+  W: { cls: 'glide', duration: 80, formants: [290, 610, 2150], voicing: 0.9 },
+  Y: { cls: 'glide', duration: 80, formants: [260, 2070, 3020], voicing: 0.9 },
+  R: { cls: 'liquid', duration: 80, formants: [310, 1060, 1380], voicing: 0.9 },
+  L: { cls: 'liquid', duration: 80, formants: [310, 1050, 2880], voicing: 0.9 },
+
+  M: { cls: 'nasal', duration: 70, formants: [480, 1270, 2130], voicing: 0.8 },
+  N: { cls: 'nasal', duration: 60, formants: [480, 1340, 2470], voicing: 0.8 },
+  NG: { cls: 'nasal', duration: 95, formants: [480, 2000, 2700], voicing: 0.8 },
+
+  B: { cls: 'stop', duration: 85, formants: [200, 1100, 2150], voicing: 0.15, burst: { amplitude: 0.5, freq: 800, bandwidth: 1600 } },
+  D: { cls: 'stop', duration: 75, formants: [200, 1600, 2600], voicing: 0.15, burst: { amplitude: 0.6, freq: 4000, bandwidth: 2000 } },
+  G: { cls: 'stop', duration: 80, formants: [200, 1990, 2850], voicing: 0.15, burst: { amplitude: 0.6, freq: 2000, bandwidth: 800 } },
+  P: { cls: 'stop', duration: 90, formants: [400, 1100, 2150], voicing: 0, burst: { amplitude: 0.6, freq: 800, bandwidth: 1600 }, aspiration: 0.35 },
+  T: { cls: 'stop', duration: 75, formants: [400, 1600, 2600], voicing: 0, burst: { amplitude: 0.7, freq: 4000, bandwidth: 2000 }, aspiration: 0.35 },
+  K: { cls: 'stop', duration: 80, formants: [300, 1990, 2850], voicing: 0, burst: { amplitude: 0.7, freq: 2000, bandwidth: 800 }, aspiration: 0.35 },
+
+  CH: { cls: 'affricate', duration: 110, formants: [300, 1840, 2750], voicing: 0, frication: { amplitude: 0.6, freq: 2800, bandwidth: 1200 } },
+  JH: { cls: 'affricate', duration: 90, formants: [260, 1840, 2750], voicing: 0.4, frication: { amplitude: 0.4, freq: 2800, bandwidth: 1200 } },
+
+  F: { cls: 'fricative', duration: 100, formants: [340, 1100, 2080], voicing: 0, frication: { amplitude: 0.12, freq: 6000, bandwidth: 4000 } },
+  V: { cls: 'fricative', duration: 60, formants: [220, 1100, 2080], voicing: 0.5, frication: { amplitude: 0.08, freq: 6000, bandwidth: 4000 } },
+  TH: { cls: 'fricative', duration: 90, formants: [320, 1290, 2540], voicing: 0, frication: { amplitude: 0.1, freq: 6000, bandwidth: 4000 } },
+  DH: { cls: 'fricative', duration: 50, formants: [270, 1290, 2540], voicing: 0.5, frication: { amplitude: 0.06, freq: 6000, bandwidth: 4000 } },
+  S: { cls: 'fricative', duration: 105, formants: [320, 1390, 2530], voicing: 0, frication: { amplitude: 0.6, freq: 5500, bandwidth: 2000 } },
+  Z: { cls: 'fricative', duration: 75, formants: [240, 1520, 2480], voicing: 0.5, frication: { amplitude: 0.4, freq: 5500, bandwidth: 2000 } },
+  SH: { cls: 'fricative', duration: 115, formants: [300, 1840, 2750], voicing: 0, frication: { amplitude: 0.6, freq: 2800, bandwidth: 1200 } },
+  ZH: { cls: 'fricative', duration: 70, formants: [300, 1840, 2750], voicing: 0.5, frication: { amplitude: 0.4, freq: 2800, bandwidth: 1200 } },
+
+  HH: { cls: 'aspirate', duration: 65, formants: [500, 1500, 2500], voicing: 0, aspiration: 0.45 },
+  SIL: { cls: 'silence', duration: 200, formants: [500, 1500, 2500], voicing: 0 }
+}
+
+// How strongly each class pulls shared transition boundaries towards its own targets
+const DOMINANCE: Record<PhonemeClass, number> = {
+  vowel: 1,
+  diphthong: 1,
+  glide: 1,
+  liquid: 2,
+  nasal: 2,
+  stop: 3,
+  affricate: 3,
+  fricative: 2,
+  aspirate: 0,
+  silence: 0
+}
+
+/**
+ * Check whether a symbol is a vowel nucleus (carries stress and pitch accents)
+ */
+export function isVowel(symbol: string): boolean {
+  const spec = PHONEMES[symbol]
+  return !!spec && (spec.cls === 'vowel' || spec.cls === 'diphthong')
+}
+
+/**
+ * Get voice fundamental frequency based on characteristics
+ */
+export function getVoiceFundamentalFreq(gender: 'male' | 'female', category: string, pitch?: number): number {
+  let baseFreq: number
+
+  if (gender === 'male') {
+    baseFreq = category === 'celebrity' ? 85 : 110
+  } else {
+    baseFreq = category === 'celebrity' ? 180 : 200
+  }
+
+  return pitch ? baseFreq * pitch : baseFreq
+}
+
+/**
+ * Build the synthesizer voice for a library voice
+ */
+export function getFormantVoice(gender: 'male' | 'female', category: string): FormantVoice {
+  return {
+    f0: getVoiceFundamentalFreq(gender, category),
+    formantScale: gender === 'male' ? (category === 'celebrity' ? 0.95 : 1) : 1.17,
+    breathiness: gender === 'male' ? 0.03 : 0.08
+  }
+}
+
+interface ParameterTrack {
+  frames: number
+  f0: Float32Array
+  av: Float32Array
+  ah: Float32Array
+  af: Float32Array
+  fricFreq: Float32Array
+  fricBw: Float32Array
+  nasal: Float32Array
+  formants: [Float32Array, Float32Array, Float32Array]
+}
+
+interface PlacedPhoneme {
+  spec: PhonemeSpec
+  stress: number
+  startFrame: number
+  frames: number
+  start: Formants
+  end: Formants
+}
+
+/**
+ * Render a phoneme sequence to mono PCM
+ */
+export function renderPhonemes(phonemes: SynthPhoneme[], options: FormantRenderOptions): Float32Array {
+  const placed = placePhonemes(phonemes, options)
+  const track = buildTrack(placed, options)
+  return synthesize(track, options)
+}
+
+/**
+ * Sample offset where each phoneme starts in the output of renderPhonemes, plus the total length
+ */
+export function phonemeBoundaries(phonemes: SynthPhoneme[], options: FormantRenderOptions): number[] {
+  const samplesPerFrame = Math.round(options.sampleRate * FRAME_MS / 1000)
+  const placed = placePhonemes(phonemes, options)
+  const last = placed[placed.length - 1]
+  return [...placed.map(p => p.startFrame * samplesPerFrame), last ? (last.startFrame + last.frames) * samplesPerFrame : samplesPerFrame]
+}
+
+function placePhonemes(phonemes: SynthPhoneme[], options: FormantRenderOptions): PlacedPhoneme[] {
+  const speed = options.speed || 1
+  const scale = options.voice.formantScale
+  const placed: PlacedPhoneme[] = []
+  let frame = 0
+
+  phonemes.forEach((phoneme, index) => {
+    const spec = PHONEMES[phoneme.symbol] || PHONEMES.SIL
+    const stress = phoneme.stress ?? 0
+    let duration = phoneme.duration ?? spec.duration
+
+    if (phoneme.duration === undefined && isVowel(phoneme.symbol)) {
+      duration *= stress === 1 ? 1.1 : stress === 2 ? 0.95 : 0.7
+    }
+    // Phrase-final lengthening
+    if (index >= phonemes.length - 2 && spec.cls !== 'silence') {
+      duration *= 1.3
+    }
+
+    const frames = Math.max(2, Math.round(duration / speed / FRAME_MS))
+    const scaleFormants = (f: Formants): Formants => [f[0] * scale, f[1] * scale, f[2] * scale]
+
+    placed.push({
+      spec,
+      stress,
+      startFrame: frame,
+      frames,
+      start: scaleFormants(spec.formants),
+      end: scaleFormants(spec.endFormants || spec.formants)
+    })
+    frame += frames
+  })
+
+  // Aspirates and silences borrow their neighbours' vocal tract shape
+  for (let i = 0; i < placed.length; i++) {
+    const current = placed[i]
+    if (DOMINANCE[current.spec.cls] > 0) continue
+    const neighbour = placed.slice(i + 1).find(p => DOMINANCE[p.spec.cls] > 0)
+      || placed.slice(0, i).reverse().find(p => DOMINANCE[p.spec.cls] > 0)
+    if (neighbour) {
+      current.start = [...neighbour.start]
+      current.end = [...neighbour.start]
+    }
+  }
+
+  return placed
+}
+
+function buildTrack(placed: PlacedPhoneme[], options: FormantRenderOptions): ParameterTrack {
+  const last = placed[placed.length - 1]
+  const frames = last ? last.startFrame + last.frames : 1
+  const track: ParameterTrack = {
+    frames,
+    f0: new Float32Array(frames),
+    av: new Float32Array(frames),
+    ah: new Float32Array(frames),
+    af: new Float32Array(frames),
+    fricFreq: new Float32Array(frames).fill(4000),
+    fricBw: new Float32Array(frames).fill(2000),
+    nasal: new Float32Array(frames),
+    formants: [new Float32Array(frames), new Float32Array(frames), new Float32Array(frames)]
+  }
+
+  placed.forEach((current, i) => {
+    const prev = placed[i - 1]
+    const next = placed[i + 1]
+    const entry = prev ? blendBoundary(prev, current) : current.start
+    const exit = next ? blendBoundary(current, next) : current.end
+    const cls = current.spec.cls
+    const ramp = cls === 'diphthong' ? 0.2 : Math.min(0.45, 8 / current.frames)
+
+    for (let k = 0; k < current.frames; k++) {
+      const frame = current.startFrame + k
+      const u = (k + 0.5) / current.frames
+
+      for (let f = 0; f < 3; f++) {
+        let value: number
+        if (u < ramp) {
+          value = ease(entry[f], current.start[f], u / ramp)
+        } else if (u > 1 - ramp) {
+          value = ease(current.end[f], exit[f], (u - (1 - ramp)) / ramp)
+        } else {
+          value = ease(current.start[f], current.end[f], (u - ramp) / Math.max(1e-6, 1 - 2 * ramp))
+        }
+        track.formants[f][frame] = value
+      }
+
+      applySource(track, current, frame, u, next)
+    }
+  })
+
+  applyPitchContour(track, placed, options)
+  return track
+}
+
+function blendBoundary(left: PlacedPhoneme, right: PlacedPhoneme): Formants {
+  const wl = Math.max(0.01, DOMINANCE[left.spec.cls])
+  const wr = Math.max(0.01, DOMINANCE[right.spec.cls])
+  return [0, 1, 2].map(f => (left.end[f] * wl + right.start[f] * wr) / (wl + wr)) as Formants
+}
+
+function ease(from: number, to: number, t: number): number {
+  const clamped = Math.max(0, Math.min(1, t))
+  return from + (to - from) * (0.5 - 0.5 * Math.cos(Math.PI * clamped))
+}
+
+function applySource(track: ParameterTrack, phoneme: PlacedPhoneme, frame: number, u: number, next?: PlacedPhoneme): void {
+  const { spec } = phoneme
+
+  switch (spec.cls) {
+    case 'stop': {
+      // Closure, release burst, then aspiration for voiceless stops
+      const burstStart = spec.aspiration ? 0.55 : 0.75
+      const burstEnd = burstStart + 0.12
+      if (u < burstStart) {
+        track.av[frame] = spec.voicing
+      } else if (u < burstEnd && spec.burst) {
+        track.af[frame] = spec.burst.amplitude
+        track.fricFreq[frame] = spec.burst.freq
+        track.fricBw[frame] = spec.burst.bandwidth
+        track.av[frame] = spec.voicing
+      } else {
+        track.ah[frame] = spec.aspiration || 0
+        track.av[frame] = spec.aspiration ? 0 : 0.6
+      }
+      break
+    }
+    case 'affricate': {
+      if (u >= 0.35 && spec.frication) {
+        track.af[frame] = spec.frication.amplitude
+        track.fricFreq[frame] = spec.frication.freq
+        track.fricBw[frame] = spec.frication.bandwidth
+      }
+      track.av[frame] = spec.voicing
+      break
+    }
+    case 'aspirate':
+      track.ah[frame] = spec.aspiration || 0
+      break
+    case 'silence':
+      break
+    default:
+      track.av[frame] = spec.voicing
+      if (spec.frication) {
+        track.af[frame] = spec.frication.amplitude
+        track.fricFreq[frame] = spec.frication.freq
+        track.fricBw[frame] = spec.frication.bandwidth
+      }
+      if (spec.cls === 'nasal') {
+        track.nasal[frame] = 1
+      }
+  }
+
+  // Anticipatory nasalisation at the tail of a vowel before a nasal
+  if (next?.spec.cls === 'nasal' && isVowelClass(spec.cls) && u > 0.7) {
+    track.nasal[frame] = (u - 0.7) / 0.3
+  }
+}
+
+function isVowelClass(cls: PhonemeClass): boolean {
+  return cls === 'vowel' || cls === 'diphthong'
+}
+
+function applyPitchContour(track: ParameterTrack, placed: PlacedPhoneme[], options: FormantRenderOptions): void {
+  const baseF0 = options.voice.f0 * (options.pitch || 1)
+  const range = options.pitchRange ?? 1
+  const framesPerSecond = 1000 / FRAME_MS
+  const tailFrames = Math.min(track.frames, Math.round(0.3 * framesPerSecond))
+
+  for (let frame = 0; frame < track.frames; frame++) {
+    // Declination across the phrase
+    const progress = frame / Math.max(1, track.frames - 1)
+    let f0 = baseF0 * (1 + range * (0.1 - 0.22 * progress))
+
+    // Terminal fall for statements, rise for questions
+    const tailStart = track.frames - tailFrames
+    if (frame >= tailStart) {
+      const t = (frame - tailStart) / Math.max(1, tailFrames)
+      f0 *= options.question ? 1 + range * 0.35 * t : 1 - range * 0.12 * t
+    }
+
+    track.f0[frame] = f0
+  }
+
+  // Pitch accents on stressed nuclei
+  for (const phoneme of placed) {
+    if (!isVowelClass(phoneme.spec.cls) || !phoneme.stress) continue
+    const accent = (phoneme.stress === 1 ? 0.12 : 0.05) * range
+    for (let k = 0; k < phoneme.frames; k++) {
+      track.f0[phoneme.startFrame + k] *= 1 + accent * Math.sin(Math.PI * (k + 0.5) / phoneme.frames)
+    }
+  }
+}
+
+class Resonator {
+  private a = 1
+  private b = 0
+  private c = 0
+  private y1 = 0
+  private y2 = 0
+
+  set(freq: number, bandwidth: number, sampleRate: number): void {
+    const r = Math.exp(-Math.PI * bandwidth / sampleRate)
+    this.c = -r * r
+    this.b = 2 * r * Math.cos(2 * Math.PI * Math.min(freq, sampleRate * 0.45) / sampleRate)
+    this.a = 1 - this.b - this.c
+  }
+
+  /**
+   * Gain at the centre frequency, used to level the parallel noise branch
+   */
+  peakGain(freq: number, sampleRate: number): number {
+    const w = 2 * Math.PI * Math.min(freq, sampleRate * 0.45) / sampleRate
+    const re = 1 - this.b * Math.cos(w) - this.c * Math.cos(2 * w)
+    const im = this.b * Math.sin(w) + this.c * Math.sin(2 * w)
+    return Math.abs(this.a) / Math.max(1e-9, Math.hypot(re, im))
+  }
+
+  process(x: number): number {
+    const y = this.a * x + this.b * this.y1 + this.c * this.y2
+    this.y2 = this.y1
+    this.y1 = y
+    return y
+  }
+}
+
+class AntiResonator {
+  private a = 1
+  private b = 0
+  private c = 0
+  private x1 = 0
+  private x2 = 0
+
+  set(freq: number, bandwidth: number, sampleRate: number): void {
+    const r = Math.exp(-Math.PI * bandwidth / sampleRate)
+    const c = -r * r
+    const b = 2 * r * Math.cos(2 * Math.PI * freq / sampleRate)
+    const a = 1 - b - c
+    this.a = 1 / a
+    this.b = -b / a
+    this.c = -c / a
+  }
+
+  process(x: number): number {
+    const y = this.a * x + this.b * this.x1 + this.c * this.x2
+    this.x2 = this.x1
+    this.x1 = x
+    return y
+  }
+}
+
+function synthesize(track: ParameterTrack, options: FormantRenderOptions): Float32Array {
+  const { sampleRate, voice } = options
+  const samplesPerFrame = Math.round(sampleRate * FRAME_MS / 1000)
+  const output = new Float32Array(track.frames * samplesPerFrame)
+  const formantScale = voice.formantScale
+  const bandwidths = DEFAULT_BANDWIDTHS
+
+  const cascade = [new Resonator(), new Resonator(), new Resonator(), new Resonator(), new Resonator()]
+  const nasalPole = new Resonator()
+  const nasalZero = new AntiResonator()
+  const frication = new Resonator()
+  cascade[3].set(F4 * formantScale, 250, sampleRate)
+  cascade[4].set(F5 * formantScale, 300, sampleRate)
+  nasalPole.set(NASAL_POLE, 100, sampleRate)
+
+  const openQuotient = 0.6
+  const voicing = options.voicing ?? 1
+  const random = options.random || createRandom(1)
+  const smoothing = Math.exp(-1 / (0.003 * sampleRate))
+  let phase = 0
+  let av = 0
+  let ah = 0
+  let af = 0
+  let fricNorm = 1
+  let dcX = 0
+  let dcY = 0
+
+  for (let frame = 0; frame < track.frames; frame++) {
+    const next = Math.min(frame + 1, track.frames - 1)
+
+    for (let s = 0; s < samplesPerFrame; s++) {
+      const t = s / samplesPerFrame
+      const index = frame * samplesPerFrame + s
+
+      // Refresh filter coefficients every 16 samples from interpolated targets
+      if ((s & 15) === 0) {
+        for (let f = 0; f < 3; f++) {
+          const freq = lerp(track.formants[f][frame], track.formants[f][next], t)
+          const nasalWiden = f === 0 ? track.nasal[frame] * 40 : 0
+          cascade[f].set(freq, bandwidths[f] + nasalWiden, sampleRate)
+        }
+        nasalZero.set(NASAL_POLE + 180 * lerp(track.nasal[frame], track.nasal[next], t), 100, sampleRate)
+        frication.set(track.fricFreq[frame], track.fricBw[frame], sampleRate)
+        fricNorm = 1 / frication.peakGain(track.fricFreq[frame], sampleRate)
+      }
+
+      // Devoiced energy moves to the aspiration source, which is how whispered speech is produced
+      const targetAv = track.av[frame] * voicing
+      const targetAh = track.ah[frame] + track.av[frame] * (1 - voicing) * 0.6
+      av = targetAv + (av - targetAv) * smoothing
+      ah = targetAh + (ah - targetAh) * smoothing
+      af = track.af[frame] + (af - track.af[frame]) * smoothing
+
+      // Glottal flow derivative (KLGLOTT88 shape) with breathy noise in the open phase
+      const f0 = lerp(track.f0[frame], track.f0[next], t)
+      phase += f0 / sampleRate
+      if (phase >= 1) phase -= 1
+      let glottal = 0
+      if (phase < openQuotient) {
+        const u = phase / openQuotient
+        glottal = 2 * u - 3 * u * u
+        glottal += voice.breathiness * (random() * 2 - 1)
+      }
+
+      const noise = random() * 2 - 1
+      let x = av * glottal + ah * noise * 0.5
+
+      x = nasalZero.process(nasalPole.process(x))
+      for (let r = cascade.length - 1; r >= 0; r--) {
+        x = cascade[r].process(x)
+      }
+
+      const fric = frication.process(noise * af * fricNorm) * 0.5
+
+      // DC blocker
+      const y = x + fric
+      dcY = y - dcX + 0.995 * dcY
+      dcX = y
+      output[index] = dcY
+    }
+  }
+
+  return output
+}
+
+function lerp(a: number, b: number, t: number): number {
+  return a + (b - a) * t
+}
+
+/**
+ * Scale samples in place so the loudest one hits the target peak
+ */
+export function normalizePeak(samples: Float32Array, target: number): Float32Array {
+  let peak = 0
+  for (let i = 0; i < samples.length; i++) {
+    peak = Math.max(peak, Math.abs(samples[i]))
+  }
+  if (peak > 0) {
+    const gain = target / peak
+    for (let i = 0; i < samples.length; i++) {
+      samples[i] *= gain
+    }
+  }
+  return samples
+}
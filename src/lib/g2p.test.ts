@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest'
+import { parseArpabet, parseIpa, pronounceWord, toArpabet, toIpa, transcribe } from '@/lib/g2p'
+import { numberToWords, ordinalToWords } from '@/lib/textNormalizer'
+
+const arpabet = (word: string) => toArpabet(pronounceWord(word).phonemes)
+
+describe('pronounceWord', () => {
+  it('reads number words from the lexicon', () => {
+    expect(arpabet('nineteen')).toBe('N AY0 N T IY1 N')
+    expect(arpabet('ninety')).toBe('N AY1 N T IY0')
+    expect(arpabet('eleven')).toBe('IH0 L EH1 V AH0 N')
+    expect(arpabet('hundred')).toBe('HH AH1 N D R AH0 D')
+    expect(arpabet('seventeen')).toBe('S EH2 V AH0 N T IY1 N')
+    expect(arpabet('ninth')).toBe('N AY1 N TH')
+    expect(arpabet('twentieth')).toBe('T W EH1 N T IY0 AH0 TH')
+  })
+
+  it('stresses the last syllable of every -teen', () => {
+    for (const word of ['thirteen', 'fourteen', 'fifteen', 'sixteen', 'seventeen', 'eighteen', 'nineteen']) {
+      const vowels = pronounceWord(word).phonemes.filter(p => /[AEIOU]/.test(p.symbol))
+      expect(vowels[vowels.length - 1].stress, word).toBe(1)
+    }
+  })
+
+  it('covers every word the normalizer spells numbers with', () => {
+    const values = [...Array.from({ length: 121 }, (_, i) => i), 1000, 1e6, 1e9, 1e12]
+    const words = new Set(values.flatMap(value => `${numberToWords(value)} ${ordinalToWords(value)}`.split(/[\s-]+/)))
+    const missing = Array.from(words).filter(word => pronounceWord(word).source !== 'lexicon')
+    expect(missing).toEqual([])
+  })
+
+  it('reads IE before a consonant as one vowel', () => {
+    expect(arpabet('believe')).toBe('B IH0 L IY1 V')
+    expect(arpabet('field')).toBe('F IY1 L D')
+    expect(arpabet('piece')).toBe('P IY1 S')
+    expect(arpabet('lies')).toBe('L AY1 Z')
+    expect(arpabet('cities')).toBe('S IH1 T IY0 Z')
+  })
+
+  it('drops the H of a word-initial RH', () => {
+    expect(arpabet('rhyme')).toBe('R AY1 M')
+    expect(arpabet('rhythm')).toBe('R IH1 DH AH0 M')
+  })
+
+  it('spells out short acronyms', () => {
+    const result = pronounceWord('FBI')
+    expect(result.source).toBe('spelled')
+    expect(toArpabet(result.phonemes)).toBe('EH2 F B IY2 AY1')
+  })
+
+  it('adds plural endings to lexicon words', () => {
+    expect(arpabet('hundreds')).toBe('HH AH1 N D R AH0 D Z')
+    expect(arpabet('voices')).toBe('V OY1 S IH0 Z')
+  })
+})
+
+describe('transcribe', () => {
+  it('keeps accented words whole', () => {
+    expect(transcribe('Her résumé, naïve café').map(entry => entry.word)).toEqual(['Her', 'resume', 'naive', 'cafe'])
+  })
+
+  it('keeps contractions together', () => {
+    expect(transcribe("don't stop").map(entry => entry.word)).toEqual(["don't", 'stop'])
+  })
+})
+
+describe('phoneme formats', () => {
+  it('round-trips ARPAbet', () => {
+    expect(toArpabet(parseArpabet('hh ah0 l ow1'))).toBe('HH AH0 L OW1')
+  })
+
+  it('rejects unknown ARPAbet symbols', () => {
+    expect(() => parseArpabet('HH XX1')).toThrow('Unknown ARPAbet symbol: XX1')
+  })
+
+  it('converts between IPA and ARPAbet', () => {
+    expect(toArpabet(parseIpa('həˈloʊ'))).toBe('HH AH0 L OW1')
+    expect(toIpa(parseArpabet('HH AH0 L OW1'))).toBe('həˈloʊ')
+  })
+})
@@ -0,0 +1,779 @@
+/**
+ * G2P - English grapheme-to-phoneme conversion
+ * Exception lexicon first, then NRL-style letter-to-sound rules with heuristic stress
+ *
+ * Pure and deterministic: no DOM or audio APIs, so it runs unchanged in Node.
+ */
+
+import { EXCEPTION_LEXICON, LETTER_NAMES } from '@/lib/g2pLexicon'
+
+export interface Phoneme {
+  symbol: string
+  stress: number
+}
+
+export interface WordPronunciation {
+  word: string
+  phonemes: Phoneme[]
+  source: 'lexicon' | 'rules' | 'spelled'
+}
+
+type Rule = [left: string, match: string, right: string, output: string]
+
+const VOWELS = new Set(['AA', 'AE', 'AH', 'AO', 'AW', 'AX', 'AY', 'EH', 'ER', 'EY', 'IH', 'IY', 'OW', 'OY', 'UH', 'UW'])
+
+// Letter-to-sound rules after Elovitz et al. (NRL Report 7948), output in ARPAbet.
+// Context symbols: ' ' word edge, '#' 1+ vowels, ':' 0+ consonants, '^' one consonant,
+// '.' voiced consonant, '%' suffix (E, ED, ER, ES, ELY, ING), '+' front vowel (E, I, Y)
+const RULES: Record<string, Rule[]> = {
+  A: [
+    ['', 'A', ' ', 'AX'],
+    [' ', 'ARE', ' ', 'AA R'],
+    [' ', 'AR', 'O', 'AX R'],
+    ['', 'AR', '#', 'EH R'],
+    ['^', 'AS', '#', 'EY S'],
+    ['', 'A', 'WA', 'AX'],
+    ['', 'AW', '', 'AO'],
+    [' :', 'ANY', '', 'EH N IY'],
+    ['', 'A', '^+#', 'EY'],
+    ['#:', 'ALLY', '', 'AX L IY'],
+    [' ', 'AL', '#', 'AX L'],
+    ['', 'AGAIN', '', 'AX G EH N'],
+    ['#:', 'AG', 'E', 'IH JH'],
+    ['', 'A', '^+:#', 'AE'],
+    [' :', 'A', '^+ ', 'EY'],
+    ['', 'A', '^%', 'EY'],
+    [' ', 'ARR', '', 'AX R'],
+    ['', 'ARR', '', 'AE R'],
+    [' :', 'AR', ' ', 'AA R'],
+    ['', 'AR', ' ', 'ER'],
+    ['', 'AR', '', 'AA R'],
+    ['', 'AIR', '', 'EH R'],
+    ['', 'AI', '', 'EY'],
+    ['', 'AY', '', 'EY'],
+    ['', 'AU', '', 'AO'],
+    ['#:', 'AL', ' ', 'AX L'],
+    ['#:', 'ALS', ' ', 'AX L Z'],
+    ['', 'ALK', '', 'AO K'],
+    ['', 'AL', '^', 'AO L'],
+    [' :', 'ABLE', '', 'EY B AX L'],
+    ['', 'ABLE', '', 'AX B AX L'],
+    ['', 'ANG', '+', 'EY N JH'],
+    ['', 'A', '', 'AE']
+  ],
+  B: [
+    [' ', 'BE', '^#', 'B IH'],
+    ['', 'BEING', '', 'B IY IH NG'],
+    [' ', 'BOTH', ' ', 'B OW TH'],
+    [' ', 'BUS', '#', 'B IH Z'],
+    ['', 'BUIL', '', 'B IH L'],
+    ['', 'B', '', 'B']
+  ],
+  C: [
+    [' ', 'CH', '^', 'K'],
+    ['^E', 'CH', '', 'K'],
+    ['', 'CH', '', 'CH'],
+    [' S', 'CI', '#', 'S AY'],
+    ['', 'CI', 'A', 'SH'],
+    ['', 'CI', 'O', 'SH'],
+    ['', 'CI', 'EN', 'SH'],
+    ['', 'C', '+', 'S'],
+    ['', 'CK', '', 'K'],
+    ['', 'COM', '%', 'K AH M'],
+    ['', 'C', '', 'K']
+  ],
+  D: [
+    ['#:', 'DED', ' ', 'D IH D'],
+    ['.E', 'D', ' ', 'D'],
+    ['#:^E', 'D', ' ', 'T'],
+    [' ', 'DE', '^#', 'D IH'],
+    [' ', 'DO', ' ', 'D UW'],
+    [' ', 'DOES', '', 'D AH Z'],
+    [' ', 'DOING', '', 'D UW IH NG'],
+    [' ', 'DOW', '', 'D AW'],
+    ['', 'DU', 'A', 'JH UW'],
+    ['', 'D', '', 'D']
+  ],
+  E: [
+    ['#:', 'E', ' ', ''],
+    ['\':^', 'E', ' ', ''],
+    [' :', 'E', ' ', 'IY'],
+    ['#', 'ED', ' ', 'D'],
+    ['#:', 'E', 'D ', ''],
+    ['', 'EV', 'ER', 'EH V'],
+    ['', 'E', '^%', 'IY'],
+    ['', 'ERI', '#', 'IY R IY'],
+    ['', 'ERI', '', 'EH R IH'],
+    ['#:', 'ER', '#', 'ER'],
+    ['', 'ER', '#', 'EH R'],
+    ['', 'ER', '', 'ER'],
+    [' ', 'EVEN', '', 'IY V EH N'],
+    ['#:', 'E', 'W', ''],
+    ['T', 'EW', '', 'UW'],
+    ['S', 'EW', '', 'UW'],
+    ['R', 'EW', '', 'UW'],
+    ['D', 'EW', '', 'UW'],
+    ['L', 'EW', '', 'UW'],
+    ['Z', 'EW', '', 'UW'],
+    ['N', 'EW', '', 'UW'],
+    ['J', 'EW', '', 'UW'],
+    ['TH', 'EW', '', 'UW'],
+    ['CH', 'EW', '', 'UW'],
+    ['SH', 'EW', '', 'UW'],
+    ['', 'EW', '', 'Y UW'],
+    ['', 'E', 'O', 'IY'],
+    ['#:S', 'ES', ' ', 'IH Z'],
+    ['#:C', 'ES', ' ', 'IH Z'],
+    ['#:G', 'ES', ' ', 'IH Z'],
+    ['#:Z', 'ES', ' ', 'IH Z'],
+    ['#:X', 'ES', ' ', 'IH Z'],
+    ['#:J', 'ES', ' ', 'IH Z'],
+    ['#:CH', 'ES', ' ', 'IH Z'],
+    ['#:SH', 'ES', ' ', 'IH Z'],
+    ['#:', 'E', 'S ', ''],
+    ['#:', 'ELY', ' ', 'L IY'],
+    ['#:', 'EMENT', '', 'M EH N T'],
+    ['', 'EFUL', '', 'F UH L'],
+    ['', 'EE', '', 'IY'],
+    ['', 'EARN', '', 'ER N'],
+    [' ', 'EAR', '^', 'ER'],
+    ['', 'EAD', '', 'EH D'],
+    ['#:', 'EA', ' ', 'IY AX'],
+    ['', 'EA', 'SU', 'EH'],
+    ['', 'EA', '', 'IY'],
+    ['', 'EIGH', '', 'EY'],
+    ['', 'EI', '', 'IY'],
+    [' ', 'EYE', '', 'AY'],
+    ['', 'EY', '', 'IY'],
+    ['', 'EU', '', 'Y UW'],
+    ['', 'E', '', 'EH']
+  ],
+  F: [
+    ['', 'FUL', '', 'F UH L'],
+    ['', 'F', '', 'F']
+  ],
+  G: [
+    ['', 'GIV', '', 'G IH V'],
+    [' ', 'G', 'I^', 'G'],
+    ['', 'GE', 'T', 'G EH'],
+    ['SU', 'GGES', '', 'G JH EH S'],
+    ['', 'GG', '', 'G'],
+    [' B#', 'G', '', 'G'],
+    ['', 'G', '+', 'JH'],
+    ['', 'GREAT', '', 'G R EY T'],
+    ['#', 'GH', '', ''],
+    ['', 'G', '', 'G']
+  ],
+  H: [
+    [' ', 'HAV', '', 'HH AE V'],
+    [' ', 'HERE', '', 'HH IY R'],
+    [' ', 'HOUR', '', 'AW ER'],
+    ['', 'HOW', '', 'HH AW'],
+    ['', 'H', '#', 'HH'],
+    ['', 'H', '', '']
+  ],
+  I: [
+    [' ', 'IN', '', 'IH N'],
+    [' ', 'I', ' ', 'AY'],
+    ['', 'IN', 'D', 'AY N'],
+    ['', 'IER', '', 'IY ER'],
+    ['#:R', 'IED', '', 'IY D'],
+    ['', 'IED', ' ', 'AY D'],
+    ['', 'IEN', '', 'IY EH N'],
+    ['', 'IE', 'T', 'AY EH'],
+    // IE before a consonant is one vowel ("field", "believe"); the I% rules below would read the E again
+    [' :', 'IES', ' ', 'AY Z'],
+    ['', 'IES', ' ', 'IY Z'],
+    ['', 'IE', '^', 'IY'],
+    [' :', 'I', '%', 'AY'],
+    ['', 'I', '%', 'IY'],
+    ['', 'IE', '', 'IY'],
+    ['', 'I', '^+:#', 'IH'],
+    ['', 'IR', '#', 'AY R'],
+    ['', 'IZ', '%', 'AY Z'],
+    ['', 'IS', '%', 'AY Z'],
+    ['', 'I', 'D%', 'AY'],
+    ['+^', 'I', '^+', 'IH'],
+    ['', 'I', 'T%', 'AY'],
+    ['#:^', 'I', '^+', 'IH'],
+    ['', 'I', '^+', 'AY'],
+    ['', 'IR', '', 'ER'],
+    ['', 'IGH', '', 'AY'],
+    ['', 'ILD', '', 'AY L D'],
+    ['', 'IGN', ' ', 'AY N'],
+    ['', 'IGN', '^', 'AY N'],
+    ['', 'IGN', '%', 'AY N'],
+    ['', 'IQUE', '', 'IY K'],
+    ['', 'I', '', 'IH']
+  ],
+  J: [
+    ['', 'J', '', 'JH']
+  ],
+  K: [
+    [' ', 'K', 'N', ''],
+    ['', 'K', '', 'K']
+  ],
+  L: [
+    ['', 'LO', 'C#', 'L OW'],
+    ['L', 'L', '', ''],
+    ['#:^', 'L', '%', 'AX L'],
+    ['', 'LEAD', '', 'L IY D'],
+    ['', 'L', '', 'L']
+  ],
+  M: [
+    ['', 'MOV', '', 'M UW V'],
+    ['', 'M', '', 'M']
+  ],
+  N: [
+    ['E', 'NG', '+', 'N JH'],
+    ['', 'NG', 'R', 'NG G'],
+    ['', 'NG', '#', 'NG G'],
+    ['', 'NGL', '%', 'NG G AX L'],
+    ['', 'NG', '', 'NG'],
+    ['', 'NK', '', 'NG K'],
+    [' ', 'NOW', ' ', 'N AW'],
+    ['', 'N', '', 'N']
+  ],
+  O: [
+    ['', 'OF', ' ', 'AX V'],
+    ['', 'OROUGH', '', 'ER OW'],
+    ['#:', 'OR', ' ', 'ER'],
+    ['#:', 'ORS', ' ', 'ER Z'],
+    ['', 'OR', '', 'AO R'],
+    [' ', 'ONE', '', 'W AH N'],
+    ['', 'OW', '', 'OW'],
+    [' ', 'OVER', '', 'OW V ER'],
+    ['', 'OV', '', 'AH V'],
+    ['', 'O', '^%', 'OW'],
+    ['', 'O', '^EN', 'OW'],
+    ['', 'O', '^I#', 'OW'],
+    ['', 'OL', 'D', 'OW L'],
+    ['', 'OUGHT', '', 'AO T'],
+    ['', 'OUGH', '', 'AH F'],
+    [' ', 'OU', '', 'AW'],
+    ['H', 'OU', 'S#', 'AW'],
+    ['', 'OUS', '', 'AX S'],
+    ['', 'OUR', '', 'AO R'],
+    ['', 'OULD', '', 'UH D'],
+    ['^', 'OU', '^L', 'AH'],
+    ['', 'OUP', '', 'UW P'],
+    ['', 'OU', '', 'AW'],
+    ['', 'OY', '', 'OY'],
+    ['', 'OING', '', 'OW IH NG'],
+    ['', 'OI', '', 'OY'],
+    ['', 'OOR', '', 'AO R'],
+    ['', 'OOK', '', 'UH K'],
+    ['', 'OOD', '', 'UH D'],
+    ['', 'OO', '', 'UW'],
+    ['', 'O', 'E', 'OW'],
+    ['', 'O', ' ', 'OW'],
+    ['', 'OA', '', 'OW'],
+    [' ', 'ONLY', '', 'OW N L IY'],
+    [' ', 'ONCE', '', 'W AH N S'],
+    ['', 'ON\'T', '', 'OW N T'],
+    ['C', 'O', 'N', 'AA'],
+    ['', 'O', 'NG', 'AO'],
+    [' :^', 'O', 'N', 'AH'],
+    ['I', 'ON', '', 'AX N'],
+    ['#:', 'ON', ' ', 'AX N'],
+    ['#^', 'ON', '', 'AX N'],
+    ['', 'O', 'ST ', 'OW'],
+    ['', 'OF', '^', 'AO F'],
+    ['', 'OTHER', '', 'AH DH ER'],
+    ['', 'OSS', ' ', 'AO S'],
+    ['#:^', 'OM', '', 'AH M'],
+    ['', 'O', '', 'AA']
+  ],
+  P: [
+    ['', 'PH', '', 'F'],
+    ['', 'PEOP', '', 'P IY P'],
+    ['', 'POW', '', 'P AW'],
+    ['', 'PUT', ' ', 'P UH T'],
+    ['', 'P', '', 'P']
+  ],
+  Q: [
+    ['', 'QUAR', '', 'K W AO R'],
+    ['', 'QU', '', 'K W'],
+    ['', 'Q', '', 'K']
+  ],
+  R: [
+    [' ', 'RE', '^#', 'R IY'],
+    ['', 'RH', '', 'R'],
+    ['', 'R', '', 'R']
+  ],
+  S: [
+    ['', 'SH', '', 'SH'],
+    ['#', 'SION', '', 'ZH AX N'],
+    ['', 'SOME', '', 'S AH M'],
+    ['#', 'SUR', '#', 'ZH ER'],
+    ['', 'SUR', '#', 'SH ER'],
+    ['#', 'SU', '#', 'ZH UW'],
+    ['#', 'SSU', '#', 'SH UW'],
+    ['#', 'SED', ' ', 'Z D'],
+    ['#', 'S', '#', 'Z'],
+    ['', 'SAID', '', 'S EH D'],
+    ['^', 'SION', '', 'SH AX N'],
+    ['', 'S', 'S', ''],
+    ['.', 'S', ' ', 'Z'],
+    ['#:.E', 'S', ' ', 'Z'],
+    ['#:^##', 'S', ' ', 'Z'],
+    ['#:^#', 'S', ' ', 'S'],
+    ['U', 'S', ' ', 'S'],
+    [' :#', 'S', ' ', 'Z'],
+    [' ', 'SCH', '', 'S K'],
+    ['', 'S', 'C+', ''],
+    ['#', 'SM', '', 'Z M'],
+    ['#', 'SN', '\'', 'Z AX N'],
+    ['', 'S', '', 'S']
+  ],
+  T: [
+    [' ', 'THE', ' ', 'DH AX'],
+    ['', 'TO', ' ', 'T UW'],
+    ['', 'THAT', ' ', 'DH AE T'],
+    [' ', 'THIS', ' ', 'DH IH S'],
+    [' ', 'THEY', '', 'DH EY'],
+    [' ', 'THERE', '', 'DH EH R'],
+    ['', 'THER', '', 'DH ER'],
+    ['', 'THEIR', '', 'DH EH R'],
+    [' ', 'THAN', ' ', 'DH AE N'],
+    [' ', 'THEM', ' ', 'DH EH M'],
+    ['', 'THESE', ' ', 'DH IY Z'],
+    [' ', 'THEN', '', 'DH EH N'],
+    ['', 'THROUGH', '', 'TH R UW'],
+    ['', 'THOSE', '', 'DH OW Z'],
+    ['', 'THOUGH', ' ', 'DH OW'],
+    [' ', 'THUS', '', 'DH AH S'],
+    ['', 'TH', '', 'TH'],
+    ['#:', 'TED', ' ', 'T IH D'],
+    ['S', 'TI', '#N', 'CH'],
+    ['', 'TI', 'O', 'SH'],
+    ['', 'TI', 'A', 'SH'],
+    ['', 'TIEN', '', 'SH AX N'],
+    ['', 'TUR', '#', 'CH ER'],
+    ['', 'TU', 'A', 'CH UW'],
+    [' ', 'TWO', '', 'T UW'],
+    ['', 'T', '', 'T']
+  ],
+  U: [
+    [' ', 'UN', 'I', 'Y UW N'],
+    [' ', 'UN', '', 'AH N'],
+    [' ', 'UPON', '', 'AX P AO N'],
+    ['T', 'UR', '#', 'UH R'],
+    ['S', 'UR', '#', 'UH R'],
+    ['R', 'UR', '#', 'UH R'],
+    ['D', 'UR', '#', 'UH R'],
+    ['L', 'UR', '#', 'UH R'],
+    ['Z', 'UR', '#', 'UH R'],
+    ['N', 'UR', '#', 'UH R'],
+    ['J', 'UR', '#', 'UH R'],
+    ['TH', 'UR', '#', 'UH R'],
+    ['CH', 'UR', '#', 'UH R'],
+    ['SH', 'UR', '#', 'UH R'],
+    ['', 'UR', '#', 'Y UH R'],
+    ['', 'UR', '', 'ER'],
+    ['', 'U', '^ ', 'AH'],
+    ['', 'U', '^^', 'AH'],
+    ['', 'UY', '', 'AY'],
+    [' G', 'U', '#', ''],
+    ['G', 'U', '%', ''],
+    ['G', 'U', '#', 'W'],
+    ['#N', 'U', '', 'Y UW'],
+    ['T', 'U', '', 'UW'],
+    ['S', 'U', '', 'UW'],
+    ['R', 'U', '', 'UW'],
+    ['D', 'U', '', 'UW'],
+    ['L', 'U', '', 'UW'],
+    ['Z', 'U', '', 'UW'],
+    ['N', 'U', '', 'UW'],
+    ['J', 'U', '', 'UW'],
+    ['TH', 'U', '', 'UW'],
+    ['CH', 'U', '', 'UW'],
+    ['SH', 'U', '', 'UW'],
+    ['', 'U', '', 'Y UW']
+  ],
+  V: [
+    ['', 'VIEW', '', 'V Y UW'],
+    ['', 'V', '', 'V']
+  ],
+  W: [
+    [' ', 'WERE', '', 'W ER'],
+    ['', 'WA', 'S', 'W AA'],
+    ['', 'WA', 'T', 'W AA'],
+    ['', 'WHERE', '', 'W EH R'],
+    ['', 'WHAT', '', 'W AA T'],
+    ['', 'WHOL', '', 'HH OW L'],
+    ['', 'WHO', '', 'HH UW'],
+    ['', 'WH', '', 'W'],
+    ['', 'WAR', '', 'W AO R'],
+    ['', 'WOR', '^', 'W ER'],
+    ['', 'WR', '', 'R'],
+    ['', 'W', '', 'W']
+  ],
+  X: [
+    ['', 'X', '', 'K S']
+  ],
+  Y: [
+    ['', 'YOUNG', '', 'Y AH NG'],
+    [' ', 'YOU', '', 'Y UW'],
+    [' ', 'YES', '', 'Y EH S'],
+    [' ', 'Y', '', 'Y'],
+    ['#:^', 'Y', ' ', 'IY'],
+    ['#:^', 'Y', 'I', 'IY'],
+    [' :', 'Y', ' ', 'AY'],
+    [' :', 'Y', '#', 'AY'],
+    [' :', 'Y', '^+:#', 'IH'],
+    [' :', 'Y', '^#', 'AY'],
+    ['', 'Y', '', 'IH']
+  ],
+  Z: [
+    ['', 'Z', '', 'Z']
+  ]
+}
+
+// Suffixes that pull primary stress onto the syllable right before them
+const STRESS_SUFFIXES = ['TION', 'SION', 'CIAN', 'TIAN', 'ICAL', 'ICS', 'IC', 'ITY', 'IAL', 'IAN', 'IOUS', 'EOUS', 'UAL', 'ITIVE']
+// Unstressed prefixes that push stress onto the following syllable
+const UNSTRESSED_PREFIXES = ['BE', 'DE', 'RE', 'PRE', 'EX', 'CON', 'COM', 'DIS', 'MIS', 'EN', 'EM', 'IM', 'OB', 'A']
+
+const IPA: Record<string, string> = {
+  AA: 'ɑ', AE: 'æ', AH: 'ʌ', AO: 'ɔ', AW: 'aʊ', AX: 'ə', AY: 'aɪ', EH: 'ɛ', ER: 'ɝ', EY: 'eɪ',
+  IH: 'ɪ', IY: 'i', OW: 'oʊ', OY: 'ɔɪ', UH: 'ʊ', UW: 'u',
+  B: 'b', CH: 'tʃ', D: 'd', DH: 'ð', F: 'f', G: 'ɡ', HH: 'h', JH: 'dʒ', K: 'k', L: 'l', M: 'm',
+  N: 'n', NG: 'ŋ', P: 'p', R: 'ɹ', S: 's', SH: 'ʃ', T: 't', TH: 'θ', V: 'v', W: 'w', Y: 'j',
+  Z: 'z', ZH: 'ʒ'
+}
+
+// Extra IPA spellings accepted on input (broad transcriptions, British vowels, length marks)
+const IPA_ALIASES: Record<string, string> = {
+  'ə': 'AH', 'ɚ': 'ER', 'ɜ': 'ER', 'ɜr': 'ER', 'ɝ': 'ER', 'ɒ': 'AA', 'a': 'AA', 'e': 'EY', 'o': 'OW',
+  'əʊ': 'OW', 'ɐ': 'AH', 'ɪə': 'IH', 'r': 'R', 'ɾ': 'T', 'g': 'G', 'ʧ': 'CH', 'ʤ': 'JH', 'ɫ': 'L', 'x': 'HH'
+}
+
+/**
+ * Check whether an ARPAbet symbol is a vowel
+ */
+export function isArpabetVowel(symbol: string): boolean {
+  return VOWELS.has(symbol)
+}
+
+/**
+ * Parse an ARPAbet string such as "HH AH0 L OW1"
+ */
+export function parseArpabet(value: string): Phoneme[] {
+  return value.trim().toUpperCase().split(/\s+/).filter(Boolean).map(token => {
+    const match = token.match(/^([A-Z]+)([012])?$/)
+    if (!match || !(match[1] in IPA)) {
+      throw new Error(`Unknown ARPAbet symbol: ${token}`)
+    }
+    return { symbol: match[1], stress: match[2] ? Number(match[2]) : 0 }
+  })
+}
+
+/**
+ * Parse an IPA transcription such as "həˈloʊ", taking stress marks onto the next vowel
+ */
+export function parseIpa(value: string): Phoneme[] {
+  const inventory = new Map<string, string>()
+  for (const [symbol, ipa] of Object.entries(IPA)) {
+    if (symbol !== 'AX') inventory.set(ipa, symbol)
+  }
+  for (const [ipa, symbol] of Object.entries(IPA_ALIASES)) {
+    inventory.set(ipa, symbol)
+  }
+  const longest = Math.max(...Array.from(inventory.keys(), key => key.length))
+
+  const phonemes: Phoneme[] = []
+  const input = value.normalize('NFC').replace(/[/[\]ː.\s]/g, '')
+  let pendingStress = 0
+  let index = 0
+
+  while (index < input.length) {
+    const char = input[index]
+    if (char === 'ˈ' || char === "'") {
+      pendingStress = 1
+      index++
+      continue
+    }
+    if (char === 'ˌ' || char === ',') {
+      pendingStress = 2
+      index++
+      continue
+    }
+
+    let matched = ''
+    for (let length = Math.min(longest, input.length - index); length > 0; length--) {
+      const candidate = input.slice(index, index + length)
+      if (inventory.has(candidate)) {
+        matched = candidate
+        break
+      }
+    }
+    if (!matched) {
+      throw new Error(`Unknown IPA symbol: ${char}`)
+    }
+
+    const symbol = inventory.get(matched)!
+    if (VOWELS.has(symbol)) {
+      phonemes.push({ symbol, stress: pendingStress })
+      pendingStress = 0
+    } else {
+      phonemes.push({ symbol, stress: 0 })
+    }
+    index += matched.length
+  }
+
+  // Single-syllable transcriptions rarely carry a stress mark but are still stressed
+  const nuclei = phonemes.filter(p => VOWELS.has(p.symbol))
+  if (nuclei.length === 1) nuclei[0].stress = 1
+
+  return phonemes
+}
+
+/**
+ * Format phonemes as ARPAbet, with stress digits on vowels
+ */
+export function toArpabet(phonemes: Phoneme[]): string {
+  return phonemes
+    .map(({ symbol, stress }) => (VOWELS.has(symbol) ? `${symbol}${stress}` : symbol))
+    .join(' ')
+}
+
+/**
+ * Format phonemes as IPA, marking stress before the stressed syllable's onset
+ */
+export function toIpa(phonemes: Phoneme[]): string {
+  const parts = phonemes.map(({ symbol, stress }) => {
+    if (symbol === 'AH' && stress === 0) return 'ə'
+    if (symbol === 'ER' && stress === 0) return 'ɚ'
+    return IPA[symbol] || ''
+  })
+
+  for (let i = phonemes.length - 1; i >= 0; i--) {
+    const { symbol, stress } = phonemes[i]
+    if (!VOWELS.has(symbol) || stress === 0) continue
+    const wordInitial = phonemes.slice(0, i).every(p => !VOWELS.has(p.symbol))
+    const onset = wordInitial ? 0 : i > 0 && !VOWELS.has(phonemes[i - 1].symbol) ? i - 1 : i
+    parts[onset] = (stress === 1 ? 'ˈ' : 'ˌ') + parts[onset]
+  }
+
+  return parts.join('')
+}
+
+/**
+ * Pronounce a single word
+ */
+export function pronounceWord(word: string): WordPronunciation {
+  const normalized = word.toLowerCase().replace(/[^a-z']/g, '')
+  const lexical = EXCEPTION_LEXICON[normalized] ?? EXCEPTION_LEXICON[normalized.replace(/'/g, '')]
+
+  if (lexical) {
+    return { word, phonemes: parseArpabet(lexical), source: 'lexicon' }
+  }
+
+  if (shouldSpell(word)) {
+    const phonemes = normalized.split('').flatMap(letter => LETTER_NAMES[letter] ? parseArpabet(LETTER_NAMES[letter]) : [])
+    return { word, phonemes: demoteAllButLast(phonemes), source: 'spelled' }
+  }
+
+  // Regular plurals and possessives of lexicon words
+  const stem = normalized.replace(/'?s$/, '')
+  if (stem !== normalized && EXCEPTION_LEXICON[stem]) {
+    const phonemes = parseArpabet(EXCEPTION_LEXICON[stem])
+    return { word, phonemes: [...phonemes, ...pluralSuffix(phonemes)], source: 'lexicon' }
+  }
+
+  const { phonemes, sources } = applyRules(normalized.toUpperCase())
+  return { word, phonemes: assignStress(normalized.toUpperCase(), phonemes, sources), source: 'rules' }
+}
+
+/**
+ * Split text into words and pronounce each one
+ */
+export function transcribe(text: string): WordPronunciation[] {
+  // Strip accents first so "résumé" stays one word instead of splitting at each accented letter
+  const plain = text.normalize('NFD').replace(/\p{M}/gu, '')
+  const words = plain.match(/[A-Za-z]+(?:'[A-Za-z]+)*/g) || []
+  return words.map(pronounceWord).filter(entry => entry.phonemes.length > 0)
+}
+
+function shouldSpell(word: string): boolean {
+  const letters = word.replace(/[^A-Za-z]/g, '')
+  if (letters.length === 1) return letters.toLowerCase() !== 'a' && letters !== 'I'
+  const isAcronym = letters === letters.toUpperCase() && letters.length <= 5
+  return isAcronym && (!/[AEIOUY]/.test(letters) || letters.length <= 3)
+}
+
+function demoteAllButLast(phonemes: Phoneme[]): Phoneme[] {
+  const lastStressed = phonemes.map(p => p.stress).lastIndexOf(1)
+  return phonemes.map((p, i) => (p.stress === 1 && i !== lastStressed ? { ...p, stress: 2 } : p))
+}
+
+function pluralSuffix(phonemes: Phoneme[]): Phoneme[] {
+  const last = phonemes[phonemes.length - 1]?.symbol
+  if (['S', 'Z', 'SH', 'ZH', 'CH', 'JH'].includes(last)) {
+    return [{ symbol: 'IH', stress: 0 }, { symbol: 'Z', stress: 0 }]
+  }
+  return [{ symbol: ['P', 'T', 'K', 'F', 'TH'].includes(last) ? 'S' : 'Z', stress: 0 }]
+}
+
+/**
+ * Run the letter-to-sound rules, remembering which letter produced each phoneme
+ */
+function applyRules(word: string): { phonemes: Phoneme[]; sources: number[] } {
+  const padded = ` ${word} `
+  const phonemes: Phoneme[] = []
+  const sources: number[] = []
+  let index = 1
+
+  while (index < padded.length - 1) {
+    const letter = padded[index]
+    const rules = RULES[letter]
+
+    if (!rules) {
+      index++
+      continue
+    }
+
+    const rule = rules.find(([left, match, right]) =>
+      padded.startsWith(match, index) &&
+      matchLeft(padded, index - 1, left) &&
+      matchRight(padded, index + match.length, right)
+    )
+
+    if (!rule) {
+      index++
+      continue
+    }
+
+    for (const symbol of rule[3].split(' ').filter(Boolean)) {
+      // Letters like the X in "excite" can emit a consonant the next rule repeats
+      if (!VOWELS.has(symbol) && phonemes[phonemes.length - 1]?.symbol === symbol) continue
+      phonemes.push({ symbol, stress: 0 })
+      sources.push(index - 1)
+    }
+    index += rule[1].length
+  }
+
+  return { phonemes, sources }
+}
+
+const isVowelLetter = (c: string) => 'AEIOUY'.includes(c) && c !== ''
+const isConsonantLetter = (c: string) => /[A-Z]/.test(c) && !isVowelLetter(c)
+
+function matchLeft(text: string, position: number, pattern: string): boolean {
+  let pos = position
+
+  for (let p = pattern.length - 1; p >= 0; p--) {
+    const symbol = pattern[p]
+    switch (symbol) {
+      case ' ':
+        if (/[A-Z']/.test(text[pos] || '')) return false
+        pos--
+        break
+      case '#':
+        if (!isVowelLetter(text[pos] || '')) return false
+        while (isVowelLetter(text[pos] || '')) pos--
+        break
+      case ':':
+        while (isConsonantLetter(text[pos] || '')) pos--
+        break
+      case '^':
+        if (!isConsonantLetter(text[pos] || '')) return false
+        pos--
+        break
+      case '.':
+        if (!'BDVGJLMNRWZ'.includes(text[pos] || '_')) return false
+        pos--
+        break
+      case '+':
+        if (!'EIY'.includes(text[pos] || '_')) return false
+        pos--
+        break
+      default:
+        if (text[pos] !== symbol) return false
+        pos--
+    }
+  }
+
+  return true
+}
+
+function matchRight(text: string, position: number, pattern: string): boolean {
+  let pos = position
+
+  for (let p = 0; p < pattern.length; p++) {
+    const symbol = pattern[p]
+    switch (symbol) {
+      case ' ':
+        if (/[A-Z']/.test(text[pos] || '')) return false
+        pos++
+        break
+      case '#':
+        if (!isVowelLetter(text[pos] || '')) return false
+        while (isVowelLetter(text[pos] || '')) pos++
+        break
+      case ':':
+        while (isConsonantLetter(text[pos] || '')) pos++
+        break
+      case '^':
+        if (!isConsonantLetter(text[pos] || '')) return false
+        pos++
+        break
+      case '.':
+        if (!'BDVGJLMNRWZ'.includes(text[pos] || '_')) return false
+        pos++
+        break
+      case '+':
+        if (!'EIY'.includes(text[pos] || '_')) return false
+        pos++
+        break
+      case '%': {
+        const suffix = ['ING', 'ELY', 'ER', 'ES', 'ED', 'E'].find(s => text.startsWith(s, pos))
+        if (!suffix) return false
+        pos += suffix.length
+        break
+      }
+      default:
+        if (text[pos] !== symbol) return false
+        pos++
+    }
+  }
+
+  return true
+}
+
+/**
+ * Place primary and secondary stress on rule-derived pronunciations
+ */
+function assignStress(word: string, phonemes: Phoneme[], sources: number[]): Phoneme[] {
+  const nuclei = phonemes.map((p, i) => (VOWELS.has(p.symbol) ? i : -1)).filter(i => i >= 0)
+  if (nuclei.length === 0) return phonemes
+
+  const result = phonemes.map(p => ({ ...p }))
+  const stressable = nuclei.filter(i => result[i].symbol !== 'AX')
+  const candidates = stressable.length > 0 ? stressable : nuclei
+  let primary = candidates[0]
+
+  const suffix = STRESS_SUFFIXES.find(s => word.endsWith(s) && word.length > s.length + 1)
+  const prefix = UNSTRESSED_PREFIXES.find(p => word.startsWith(p) && word.length - p.length >= 3)
+
+  if (suffix) {
+    const suffixStart = word.length - suffix.length
+    const before = candidates.filter(i => sources[i] < suffixStart)
+    if (before.length > 0) primary = before[before.length - 1]
+  } else if (prefix && nuclei.length >= 2 && nuclei.length <= 3) {
+    const after = candidates.filter(i => sources[i] >= prefix.length)
+    if (after.length > 0) primary = after[0]
+  }
+
+  result[primary].stress = 1
+
+  // Secondary stress on an early full vowel at least two syllables before the primary
+  const primaryPosition = nuclei.indexOf(primary)
+  if (primaryPosition >= 2 && result[nuclei[0]].symbol !== 'AX') {
+    result[nuclei[0]].stress = 2
+  }
+
+  // Rules spell schwa as AX; CMUdict-style output writes it as unstressed AH
+  return result.map(p => (p.symbol === 'AX' ? { symbol: 'AH', stress: 0 } : p))
+}
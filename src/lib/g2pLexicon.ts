@@ -0,0 +1,395 @@
+/**
+ * G2P exception lexicon - Words the letter-to-sound rules get wrong
+ * Pronunciations are CMUdict-style ARPAbet with stress digits on vowels
+ */
+
+export const EXCEPTION_LEXICON: Record<string, string> = {
+  a: 'AH0',
+  about: 'AH0 B AW1 T',
+  above: 'AH0 B AH1 V',
+  across: 'AH0 K R AO1 S',
+  after: 'AE1 F T ER0',
+  again: 'AH0 G EH1 N',
+  against: 'AH0 G EH1 N S T',
+  ago: 'AH0 G OW1',
+  all: 'AO1 L',
+  almost: 'AO1 L M OW2 S T',
+  already: 'AO0 L R EH1 D IY0',
+  also: 'AO1 L S OW0',
+  always: 'AO1 L W EY2 Z',
+  am: 'AE1 M',
+  among: 'AH0 M AH1 NG',
+  an: 'AE1 N',
+  and: 'AH0 N D',
+  another: 'AH0 N AH1 DH ER0',
+  answer: 'AE1 N S ER0',
+  any: 'EH1 N IY0',
+  anyone: 'EH1 N IY0 W AH2 N',
+  are: 'AA1 R',
+  area: 'EH1 R IY0 AH0',
+  around: 'ER0 AW1 N D',
+  as: 'AE1 Z',
+  ask: 'AE1 S K',
+  audio: 'AA1 D IY0 OW2',
+  away: 'AH0 W EY1',
+  be: 'B IY1',
+  beautiful: 'B Y UW1 T AH0 F AH0 L',
+  because: 'B IH0 K AO1 Z',
+  been: 'B IH1 N',
+  before: 'B IH0 F AO1 R',
+  behind: 'B IH0 HH AY1 N D',
+  being: 'B IY1 IH0 NG',
+  below: 'B IH0 L OW1',
+  between: 'B IH0 T W IY1 N',
+  billion: 'B IH1 L Y AH0 N',
+  billionth: 'B IH1 L Y AH0 N TH',
+  both: 'B OW1 TH',
+  bread: 'B R EH1 D',
+  break: 'B R EY1 K',
+  brother: 'B R AH1 DH ER0',
+  build: 'B IH1 L D',
+  business: 'B IH1 Z N AH0 S',
+  busy: 'B IH1 Z IY0',
+  but: 'B AH1 T',
+  buy: 'B AY1',
+  by: 'B AY1',
+  can: 'K AE1 N',
+  change: 'CH EY1 N JH',
+  child: 'CH AY1 L D',
+  children: 'CH IH1 L D R AH0 N',
+  city: 'S IH1 T IY0',
+  clone: 'K L OW1 N',
+  colonel: 'K ER1 N AH0 L',
+  come: 'K AH1 M',
+  company: 'K AH1 M P AH0 N IY0',
+  computer: 'K AH0 M P Y UW1 T ER0',
+  content: 'K AA1 N T EH0 N T',
+  could: 'K UH1 D',
+  country: 'K AH1 N T R IY0',
+  data: 'D EY1 T AH0',
+  day: 'D EY1',
+  did: 'D IH1 D',
+  different: 'D IH1 F ER0 AH0 N T',
+  do: 'D UW1',
+  does: 'D AH1 Z',
+  done: 'D AH1 N',
+  door: 'D AO1 R',
+  down: 'D AW1 N',
+  during: 'D UH1 R IH0 NG',
+  each: 'IY1 CH',
+  early: 'ER1 L IY0',
+  earth: 'ER1 TH',
+  eight: 'EY1 T',
+  eighteen: 'EY0 T IY1 N',
+  eighteenth: 'EY0 T IY1 N TH',
+  eighth: 'EY1 T TH',
+  eighties: 'EY1 T IY0 Z',
+  eightieth: 'EY1 T IY0 AH0 TH',
+  eighty: 'EY1 T IY0',
+  either: 'IY1 DH ER0',
+  eleven: 'IH0 L EH1 V AH0 N',
+  eleventh: 'IH0 L EH1 V AH0 N TH',
+  else: 'EH1 L S',
+  engine: 'EH1 N JH AH0 N',
+  english: 'IH1 NG G L IH0 SH',
+  enough: 'IH0 N AH1 F',
+  even: 'IY1 V IH0 N',
+  every: 'EH1 V ER0 IY0',
+  everyone: 'EH1 V R IY0 W AH2 N',
+  example: 'IH0 G Z AE1 M P AH0 L',
+  eye: 'AY1',
+  family: 'F AE1 M AH0 L IY0',
+  father: 'F AA1 DH ER0',
+  few: 'F Y UW1',
+  fifteen: 'F IH0 F T IY1 N',
+  fifteenth: 'F IH0 F T IY1 N TH',
+  fifth: 'F IH1 F TH',
+  fifties: 'F IH1 F T IY0 Z',
+  fiftieth: 'F IH1 F T IY0 AH0 TH',
+  fifty: 'F IH1 F T IY0',
+  find: 'F AY1 N D',
+  first: 'F ER1 S T',
+  five: 'F AY1 V',
+  for: 'F AO1 R',
+  forties: 'F AO1 R T IY0 Z',
+  fortieth: 'F AO1 R T IY0 AH0 TH',
+  forty: 'F AO1 R T IY0',
+  four: 'F AO1 R',
+  fourteen: 'F AO0 R T IY1 N',
+  fourteenth: 'F AO0 R T IY1 N TH',
+  fourth: 'F AO1 R TH',
+  friend: 'F R EH1 N D',
+  from: 'F R AH1 M',
+  front: 'F R AH1 N T',
+  future: 'F Y UW1 CH ER0',
+  generate: 'JH EH1 N ER0 EY2 T',
+  give: 'G IH1 V',
+  go: 'G OW1',
+  goes: 'G OW1 Z',
+  gone: 'G AO1 N',
+  good: 'G UH1 D',
+  great: 'G R EY1 T',
+  group: 'G R UW1 P',
+  had: 'HH AE1 D',
+  half: 'HH AE1 F',
+  has: 'HH AE1 Z',
+  have: 'HH AE1 V',
+  he: 'HH IY1',
+  head: 'HH EH1 D',
+  heart: 'HH AA1 R T',
+  hello: 'HH AH0 L OW1',
+  her: 'HH ER1',
+  here: 'HH IY1 R',
+  his: 'HH IH1 Z',
+  home: 'HH OW1 M',
+  hour: 'AW1 ER0',
+  house: 'HH AW1 S',
+  how: 'HH AW1',
+  hundred: 'HH AH1 N D R AH0 D',
+  hundredth: 'HH AH1 N D R AH0 D TH',
+  i: 'AY1',
+  idea: 'AY0 D IY1 AH0',
+  if: 'IH1 F',
+  important: 'IH0 M P AO1 R T AH0 N T',
+  in: 'IH0 N',
+  into: 'IH1 N T UW0',
+  is: 'IH1 Z',
+  island: 'AY1 L AH0 N D',
+  it: 'IH1 T',
+  its: 'IH1 T S',
+  just: 'JH AH1 S T',
+  key: 'K IY1',
+  know: 'N OW1',
+  knowledge: 'N AA1 L IH0 JH',
+  language: 'L AE1 NG G W AH0 JH',
+  laugh: 'L AE1 F',
+  learn: 'L ER1 N',
+  leopard: 'L EH1 P ER0 D',
+  library: 'L AY1 B R EH2 R IY0',
+  listen: 'L IH1 S AH0 N',
+  little: 'L IH1 T AH0 L',
+  live: 'L IH1 V',
+  love: 'L AH1 V',
+  many: 'M EH1 N IY0',
+  may: 'M EY1',
+  me: 'M IY1',
+  million: 'M IH1 L Y AH0 N',
+  millionth: 'M IH1 L Y AH0 N TH',
+  minute: 'M IH1 N AH0 T',
+  money: 'M AH1 N IY0',
+  month: 'M AH1 N TH',
+  more: 'M AO1 R',
+  mother: 'M AH1 DH ER0',
+  move: 'M UW1 V',
+  mr: 'M IH1 S T ER0',
+  mrs: 'M IH1 S IH0 Z',
+  much: 'M AH1 CH',
+  music: 'M Y UW1 Z IH0 K',
+  my: 'M AY1',
+  nation: 'N EY1 SH AH0 N',
+  natural: 'N AE1 CH ER0 AH0 L',
+  never: 'N EH1 V ER0',
+  new: 'N UW1',
+  news: 'N UW1 Z',
+  night: 'N AY1 T',
+  nine: 'N AY1 N',
+  nineteen: 'N AY0 N T IY1 N',
+  nineteenth: 'N AY0 N T IY1 N TH',
+  nineties: 'N AY1 N T IY0 Z',
+  ninetieth: 'N AY1 N T IY0 AH0 TH',
+  ninety: 'N AY1 N T IY0',
+  ninth: 'N AY1 N TH',
+  no: 'N OW1',
+  none: 'N AH1 N',
+  not: 'N AA1 T',
+  nothing: 'N AH1 TH IH0 NG',
+  now: 'N AW1',
+  number: 'N AH1 M B ER0',
+  ocean: 'OW1 SH AH0 N',
+  of: 'AH1 V',
+  off: 'AO1 F',
+  often: 'AO1 F AH0 N',
+  oh: 'OW1',
+  ok: 'OW2 K EY1',
+  okay: 'OW2 K EY1',
+  on: 'AA1 N',
+  once: 'W AH1 N S',
+  one: 'W AH1 N',
+  only: 'OW1 N L IY0',
+  or: 'AO1 R',
+  other: 'AH1 DH ER0',
+  our: 'AW1 ER0',
+  out: 'AW1 T',
+  over: 'OW1 V ER0',
+  own: 'OW1 N',
+  people: 'P IY1 P AH0 L',
+  person: 'P ER1 S AH0 N',
+  picture: 'P IH1 K CH ER0',
+  place: 'P L EY1 S',
+  please: 'P L IY1 Z',
+  point: 'P OY1 N T',
+  power: 'P AW1 ER0',
+  pretty: 'P R IH1 T IY0',
+  preview: 'P R IY1 V Y UW2',
+  professional: 'P R AH0 F EH1 SH AH0 N AH0 L',
+  put: 'P UH1 T',
+  question: 'K W EH1 S CH AH0 N',
+  quite: 'K W AY1 T',
+  read: 'R IY1 D',
+  really: 'R IH1 L IY0',
+  rhythm: 'R IH1 DH AH0 M',
+  right: 'R AY1 T',
+  said: 'S EH1 D',
+  says: 'S EH1 Z',
+  school: 'S K UW1 L',
+  second: 'S EH1 K AH0 N D',
+  see: 'S IY1',
+  seven: 'S EH1 V AH0 N',
+  seventeen: 'S EH2 V AH0 N T IY1 N',
+  seventeenth: 'S EH2 V AH0 N T IY1 N TH',
+  seventh: 'S EH1 V AH0 N TH',
+  seventies: 'S EH1 V AH0 N T IY0 Z',
+  seventieth: 'S EH1 V AH0 N T IY0 AH0 TH',
+  seventy: 'S EH1 V AH0 N T IY0',
+  she: 'SH IY1',
+  should: 'SH UH1 D',
+  show: 'SH OW1',
+  six: 'S IH1 K S',
+  sixteen: 'S IH0 K S T IY1 N',
+  sixteenth: 'S IH0 K S T IY1 N TH',
+  sixth: 'S IH1 K S TH',
+  sixties: 'S IH1 K S T IY0 Z',
+  sixtieth: 'S IH1 K S T IY0 AH0 TH',
+  sixty: 'S IH1 K S T IY0',
+  small: 'S M AO1 L',
+  so: 'S OW1',
+  some: 'S AH1 M',
+  someone: 'S AH1 M W AH2 N',
+  something: 'S AH1 M TH IH0 NG',
+  sound: 'S AW1 N D',
+  speak: 'S P IY1 K',
+  speech: 'S P IY1 CH',
+  studio: 'S T UW1 D IY0 OW2',
+  sugar: 'SH UH1 G ER0',
+  sure: 'SH UH1 R',
+  talk: 'T AO1 K',
+  ten: 'T EH1 N',
+  tenth: 'T EH1 N TH',
+  text: 'T EH1 K S T',
+  than: 'DH AE1 N',
+  thank: 'TH AE1 NG K',
+  thanks: 'TH AE1 NG K S',
+  that: 'DH AE1 T',
+  the: 'DH AH0',
+  their: 'DH EH1 R',
+  them: 'DH EH1 M',
+  then: 'DH EH1 N',
+  there: 'DH EH1 R',
+  these: 'DH IY1 Z',
+  they: 'DH EY1',
+  thing: 'TH IH1 NG',
+  think: 'TH IH1 NG K',
+  third: 'TH ER1 D',
+  thirteen: 'TH ER0 T IY1 N',
+  thirteenth: 'TH ER0 T IY1 N TH',
+  thirties: 'TH ER1 T IY0 Z',
+  thirtieth: 'TH ER1 T IY0 AH0 TH',
+  thirty: 'TH ER1 T IY0',
+  this: 'DH IH1 S',
+  those: 'DH OW1 Z',
+  though: 'DH OW1',
+  thought: 'TH AO1 T',
+  thousand: 'TH AW1 Z AH0 N D',
+  thousandth: 'TH AW1 Z AH0 N D TH',
+  three: 'TH R IY1',
+  through: 'TH R UW1',
+  time: 'T AY1 M',
+  to: 'T UW1',
+  today: 'T AH0 D EY1',
+  together: 'T AH0 G EH1 DH ER0',
+  tomorrow: 'T AH0 M AA1 R OW2',
+  tonight: 'T AH0 N AY1 T',
+  too: 'T UW1',
+  trillion: 'T R IH1 L Y AH0 N',
+  trillionth: 'T R IH1 L Y AH0 N TH',
+  twelfth: 'T W EH1 L F TH',
+  twelve: 'T W EH1 L V',
+  twenties: 'T W EH1 N T IY0 Z',
+  twentieth: 'T W EH1 N T IY0 AH0 TH',
+  twenty: 'T W EH1 N T IY0',
+  two: 'T UW1',
+  under: 'AH1 N D ER0',
+  until: 'AH0 N T IH1 L',
+  up: 'AH1 P',
+  us: 'AH1 S',
+  use: 'Y UW1 Z',
+  very: 'V EH1 R IY0',
+  video: 'V IH1 D IY0 OW2',
+  voice: 'V OY1 S',
+  voices: 'V OY1 S IH0 Z',
+  want: 'W AA1 N T',
+  was: 'W AA1 Z',
+  water: 'W AO1 T ER0',
+  way: 'W EY1',
+  we: 'W IY1',
+  wednesday: 'W EH1 N Z D EY2',
+  welcome: 'W EH1 L K AH0 M',
+  were: 'W ER1',
+  what: 'W AH1 T',
+  when: 'W EH1 N',
+  where: 'W EH1 R',
+  which: 'W IH1 CH',
+  while: 'W AY1 L',
+  who: 'HH UW1',
+  whole: 'HH OW1 L',
+  whose: 'HH UW1 Z',
+  why: 'W AY1',
+  will: 'W IH1 L',
+  with: 'W IH1 DH',
+  without: 'W IH0 TH AW1 T',
+  woman: 'W UH1 M AH0 N',
+  women: 'W IH1 M AH0 N',
+  word: 'W ER1 D',
+  words: 'W ER1 D Z',
+  work: 'W ER1 K',
+  world: 'W ER1 L D',
+  would: 'W UH1 D',
+  write: 'R AY1 T',
+  year: 'Y IH1 R',
+  yes: 'Y EH1 S',
+  you: 'Y UW1',
+  young: 'Y AH1 NG',
+  your: 'Y AO1 R',
+  zero: 'Z IH1 R OW0',
+  zeroth: 'Z IH1 R OW0 TH'
+}
+
+// Letter names, used to spell out acronyms
+export const LETTER_NAMES: Record<string, string> = {
+  a: 'EY1',
+  b: 'B IY1',
+  c: 'S IY1',
+  d: 'D IY1',
+  e: 'IY1',
+  f: 'EH1 F',
+  g: 'JH IY1',
+  h: 'EY1 CH',
+  i: 'AY1',
+  j: 'JH EY1',
+  k: 'K EY1',
+  l: 'EH1 L',
+  m: 'EH1 M',
+  n: 'EH1 N',
+  o: 'OW1',
+  p: 'P IY1',
+  q: 'K Y UW1',
+  r: 'AA1 R',
+  s: 'EH1 S',
+  t: 'T IY1',
+  u: 'Y UW1',
+  v: 'V IY1',
+  w: 'D AH1 B AH0 L Y UW0',
+  x: 'EH1 K S',
+  y: 'W AY1',
+  z: 'Z IY1'
+}
@@ -0,0 +1,105 @@
+/**
+ * HttpSynthesisProvider - Remote synthesis engine behind a configurable base URL
+ *
+ * Contract: POST {baseUrl}/synthesize with a JSON body of
+ * { text, voiceId, settings, segments? } answered by any browser-decodable audio file.
+ * segments carries SSML spans with prosody multipliers relative to settings.
+ * settings.style and segment style are speaking-style ids for the engine to interpret.
+ * Speed and pitch arrive neutral; the client time-stretches and pitch-shifts the result itself.
+ */
+
+import type { SynthesisProvider, SynthesisRequest, SynthesisResult } from '@/lib/synthesisProvider'
+
+export class HttpSynthesisProvider implements SynthesisProvider {
+  readonly id = 'http'
+  readonly label = 'Remote (HTTP)'
+  readonly rendersProsody = false
+  private baseUrl = ''
+
+  setBaseUrl(baseUrl: string): void {
+    this.baseUrl = baseUrl.trim().replace(/\/+$/, '')
+  }
+
+  getBaseUrl(): string {
+    return this.baseUrl
+  }
+
+  async synthesize({ text, voice, settings, segments, signal, onProgress }: SynthesisRequest): Promise<SynthesisResult> {
+    if (!this.baseUrl) {
+      throw new Error('HTTP synthesis provider has no base URL configured')
+    }
+
+    onProgress?.({ progress: 0, stage: 'requesting' })
+
+    const response = await fetch(`${this.baseUrl}/synthesize`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ text, voiceId: voice.id, settings, segments }),
+      signal
+    })
+
+    if (!response.ok) {
+      throw new Error(`Synthesis request failed: ${response.status} ${response.statusText}`)
+    }
+
+    const data = await this.readBody(response, onProgress)
+
+    onProgress?.({ progress: 95, stage: 'decoding' })
+    const decoded = await this.decode(data)
+    onProgress?.({ progress: 100, stage: 'decoding' })
+
+    return decoded
+  }
+
+  /**
+   * Read the response body, reporting download progress when the size is known
+   */
+  private async readBody(response: Response, onProgress: SynthesisRequest['onProgress']): Promise<ArrayBuffer> {
+    const total = Number(response.headers.get('Content-Length')) || 0
+    if (!response.body || !total) {
+      return response.arrayBuffer()
+    }
+
+    const reader = response.body.getReader()
+    const chunks: Uint8Array[] = []
+    let received = 0
+
+    for (;;) {
+      const { done, value } = await reader.read()
+      if (done) break
+      chunks.push(value)
+      received += value.length
+      onProgress?.({ progress: Math.min(90, (received / total) * 90), stage: 'downloading' })
+    }
+
+    const data = new Uint8Array(received)
+    let offset = 0
+    for (const chunk of chunks) {
+      data.set(chunk, offset)
+      offset += chunk.length
+    }
+    return data.buffer
+  }
+
+  /**
+   * Decode the returned audio file down to mono PCM
+   */
+  private async decode(data: ArrayBuffer): Promise<SynthesisResult> {
+    const context = new OfflineAudioContext(1, 1, 44100)
+    const buffer = await context.decodeAudioData(data)
+    const samples = new Float32Array(buffer.length)
+
+    for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+      const channelData = buffer.getChannelData(channel)
+      for (let i = 0; i < buffer.length; i++) {
+        samples[i] += channelData[i] / buffer.numberOfChannels
+      }
+    }
+
+    return {
+      samples,
+      sampleRate: buffer.sampleRate,
+      duration: buffer.duration
+    }
+  }
+}
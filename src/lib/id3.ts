@@ -0,0 +1,75 @@
+/**
+ * Id3 - ID3v2.4 tag writer for MP3 and WAV downloads
+ * Text is UTF-8, frame sizes are synchsafe; no unsynchronisation, extended header or padding
+ */
+
+import type { AudioTags } from '@/lib/audioTags'
+
+const ENCODING_UTF8 = 0x03
+const PICTURE_TYPE_FRONT_COVER = 0x03
+const ENCODER_NAME = 'VoiceForge Pro'
+
+/**
+ * Encode a complete tag (10-byte header plus frames); empty fields get no frame
+ */
+export function encodeId3v2(tags: AudioTags): Uint8Array {
+  const frames: Uint8Array[] = []
+  const text = (id: string, value: string) => {
+    if (value) frames.push(frame(id, [ENCODING_UTF8], utf8(value)))
+  }
+
+  text('TIT2', tags.title)
+  text('TPE1', tags.artist)
+  text('TALB', tags.album)
+  text('TDRC', tags.date)
+  if (tags.language !== 'und') text('TLAN', tags.language)
+  text('TSSE', ENCODER_NAME)
+  // Comment and lyrics frames: encoding, language, empty description, then the text
+  if (tags.comment) frames.push(frame('COMM', [ENCODING_UTF8], latin1(tags.language), [0], utf8(tags.comment)))
+  if (tags.lyrics) frames.push(frame('USLT', [ENCODING_UTF8], latin1(tags.language), [0], utf8(tags.lyrics)))
+  if (tags.cover) {
+    frames.push(frame('APIC', [ENCODING_UTF8], latin1(tags.cover.mimeType), [0, PICTURE_TYPE_FRONT_COVER, 0], tags.cover.data))
+  }
+
+  const size = frames.reduce((total, bytes) => total + bytes.length, 0)
+  const tag = new Uint8Array(10 + size)
+  tag.set([0x49, 0x44, 0x33, 4, 0, 0]) // "ID3", version 2.4.0, no flags
+  tag.set(synchsafe(size), 6)
+  let offset = 10
+  for (const bytes of frames) {
+    tag.set(bytes, offset)
+    offset += bytes.length
+  }
+  return tag
+}
+
+/**
+ * Frame header (id, synchsafe size, no flags) followed by the body parts
+ */
+function frame(id: string, ...parts: ArrayLike<number>[]): Uint8Array {
+  const size = parts.reduce((total, part) => total + part.length, 0)
+  const bytes = new Uint8Array(10 + size)
+  bytes.set(latin1(id))
+  bytes.set(synchsafe(size), 4)
+  let offset = 10
+  for (const part of parts) {
+    bytes.set(part, offset)
+    offset += part.length
+  }
+  return bytes
+}
+
+/**
+ * 28-bit size spread over four bytes with the top bit of each clear
+ */
+function synchsafe(value: number): number[] {
+  return [(value >>> 21) & 0x7f, (value >>> 14) & 0x7f, (value >>> 7) & 0x7f, value & 0x7f]
+}
+
+function utf8(value: string): Uint8Array {
+  return new TextEncoder().encode(value)
+}
+
+function latin1(value: string): number[] {
+  return Array.from(value, char => char.charCodeAt(0) & 0xff)
+}
@@ -0,0 +1,30 @@
+/**
+ * IndexedDB helpers - Promise wrappers shared by the stores kept in the browser's database
+ */
+
+/**
+ * Open a database, creating its stores in upgrade on first use or after a version bump
+ */
+export function openDatabase(name: string, version: number, upgrade: (db: IDBDatabase) => void): Promise<IDBDatabase> {
+  return new Promise<IDBDatabase>((resolve, reject) => {
+    const openRequest = indexedDB.open(name, version)
+    openRequest.onupgradeneeded = () => upgrade(openRequest.result)
+    openRequest.onsuccess = () => resolve(openRequest.result)
+    openRequest.onerror = () => reject(openRequest.error)
+  })
+}
+
+export function request<T>(req: IDBRequest): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result as T)
+    req.onerror = () => reject(req.error)
+  })
+}
+
+export function complete(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve()
+    transaction.onerror = () => reject(transaction.error)
+    transaction.onabort = () => reject(transaction.error)
+  })
+}
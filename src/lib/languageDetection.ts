@@ -0,0 +1,126 @@
+/**
+ * LanguageDetection - Offline language identification
+ * Non-Latin scripts are recognised by Unicode block; Latin-script languages by
+ * character trigram profiles ranked with the Cavnar-Trenkle out-of-place measure
+ */
+
+export interface DetectedLanguage {
+  /** ISO 639-1 code */
+  language: string
+  /** 0-1, how clearly the best language beat the runner-up */
+  confidence: number
+}
+
+const PROFILE_SIZE = 300
+const MIN_LETTERS = 12
+
+// Short samples of everyday prose; their trigram ranks are the language profiles
+const SAMPLES: Record<string, string> = {
+  en: `The quick answer is that we have been working on this for a long time, and there is still a lot to do.
+    When you want to find out what they think about it, you should ask them directly. It was the first time that
+    anyone had seen the results, which were better than expected. They would like to know where the money went and
+    how much of it is left. This is one of the things that people often forget. We will be there in the morning with
+    all of our friends, and then we can talk about what should happen next. Thank you for listening.`,
+  es: `La respuesta rápida es que hemos estado trabajando en esto durante mucho tiempo y todavía queda mucho por
+    hacer. Cuando quieras saber lo que piensan sobre el tema, deberías preguntarles directamente. Era la primera vez
+    que alguien había visto los resultados, que fueron mejores de lo esperado. Ellos quieren saber dónde fue el dinero
+    y cuánto queda. Esta es una de las cosas que la gente suele olvidar. Estaremos allí por la mañana con todos
+    nuestros amigos, y después podemos hablar de lo que debería pasar. Gracias por escuchar.`,
+  fr: `La réponse rapide est que nous travaillons sur ce projet depuis longtemps et qu'il reste encore beaucoup à
+    faire. Quand vous voulez savoir ce qu'ils en pensent, il faut leur demander directement. C'était la première fois
+    que quelqu'un voyait les résultats, qui étaient meilleurs que prévu. Ils aimeraient savoir où est passé l'argent et
+    combien il en reste. C'est une des choses que les gens oublient souvent. Nous serons là demain matin avec tous nos
+    amis, et ensuite nous pourrons parler de ce qui doit se passer. Merci de votre écoute.`,
+  de: `Die schnelle Antwort ist, dass wir schon lange daran arbeiten und noch viel zu tun ist. Wenn Sie wissen
+    wollen, was sie darüber denken, sollten Sie sie direkt fragen. Es war das erste Mal, dass jemand die Ergebnisse
+    gesehen hatte, und sie waren besser als erwartet. Sie möchten wissen, wohin das Geld gegangen ist und wie viel
+    davon übrig ist. Das ist eines der Dinge, die die Leute oft vergessen. Wir werden morgen früh mit allen unseren
+    Freunden dort sein, und dann können wir darüber sprechen, was als Nächstes geschehen soll. Vielen Dank fürs Zuhören.`,
+  it: `La risposta breve è che ci stiamo lavorando da molto tempo e c'è ancora molto da fare. Quando vuoi sapere
+    cosa ne pensano, dovresti chiederlo direttamente a loro. Era la prima volta che qualcuno vedeva i risultati, che
+    erano migliori del previsto. Vorrebbero sapere dove sono finiti i soldi e quanti ne sono rimasti. Questa è una
+    delle cose che le persone dimenticano spesso. Saremo lì domani mattina con tutti i nostri amici, e poi potremo
+    parlare di quello che dovrebbe succedere. Grazie per l'ascolto.`,
+  pt: `A resposta rápida é que estamos trabalhando nisso há muito tempo e ainda há muito a fazer. Quando você quiser
+    saber o que eles pensam sobre isso, deve perguntar diretamente. Foi a primeira vez que alguém viu os resultados,
+    que foram melhores do que o esperado. Eles gostariam de saber para onde foi o dinheiro e quanto ainda resta. Esta
+    é uma das coisas que as pessoas costumam esquecer. Estaremos lá pela manhã com todos os nossos amigos, e depois
+    podemos conversar sobre o que deve acontecer. Obrigado por ouvir.`,
+  nl: `Het korte antwoord is dat we hier al heel lang aan werken en dat er nog veel te doen is. Als je wilt weten
+    wat ze ervan vinden, moet je het hun direct vragen. Het was de eerste keer dat iemand de resultaten had gezien, en
+    die waren beter dan verwacht. Ze willen graag weten waar het geld naartoe is gegaan en hoeveel er nog over is. Dit
+    is een van de dingen die mensen vaak vergeten. We zullen er morgenochtend zijn met al onze vrienden, en dan kunnen
+    we praten over wat er moet gebeuren. Bedankt voor het luisteren.`
+}
+
+// Checked in order; kana must win over the shared CJK ideographs for Japanese
+const SCRIPTS: { language: string; pattern: RegExp }[] = [
+  { language: 'ja', pattern: /[぀-ヿ]/g },
+  { language: 'ko', pattern: /[가-힯ᄀ-ᇿ]/g },
+  { language: 'zh', pattern: /[一-鿿]/g },
+  { language: 'ru', pattern: /[Ѐ-ӿ]/g },
+  { language: 'el', pattern: /[Ͱ-Ͽ]/g },
+  { language: 'ar', pattern: /[؀-ۿ]/g },
+  { language: 'he', pattern: /[֐-׿]/g },
+  { language: 'hi', pattern: /[ऀ-ॿ]/g }
+]
+
+let profiles: Map<string, Map<string, number>> | null = null
+
+/**
+ * Detect the language of a text; null when there is too little text to tell
+ */
+export function detectLanguage(text: string): DetectedLanguage | null {
+  const letters = text.match(/\p{L}/gu)?.length || 0
+  if (letters < MIN_LETTERS) return null
+
+  for (const { language, pattern } of SCRIPTS) {
+    const count = text.match(pattern)?.length || 0
+    if (count / letters > 0.3) return { language, confidence: Math.min(1, count / letters) }
+  }
+
+  const ranks = rankTrigrams(text)
+  const scores = [...getProfiles()]
+    .map(([language, profile]) => ({ language, distance: outOfPlace(ranks, profile) }))
+    .sort((a, b) => a.distance - b.distance)
+
+  const [best, runnerUp] = scores
+  // How far ahead of the runner-up the best language is says how sure the guess is
+  const confidence = runnerUp && runnerUp.distance > 0 ? (runnerUp.distance - best.distance) / runnerUp.distance : 1
+  return { language: best.language, confidence }
+}
+
+function getProfiles(): Map<string, Map<string, number>> {
+  if (!profiles) {
+    profiles = new Map(Object.entries(SAMPLES).map(([language, sample]) => [language, rankTrigrams(sample)]))
+  }
+  return profiles
+}
+
+/**
+ * Rank the most frequent character trigrams, padding each word with spaces so word edges count
+ */
+function rankTrigrams(text: string): Map<string, number> {
+  const counts = new Map<string, number>()
+  const words = text.toLowerCase().match(/\p{L}+(?:'\p{L}+)?/gu) || []
+
+  for (const word of words) {
+    const padded = ` ${word} `
+    for (let i = 0; i + 3 <= padded.length; i++) {
+      const gram = padded.slice(i, i + 3)
+      counts.set(gram, (counts.get(gram) || 0) + 1)
+    }
+  }
+
+  const ranked = [...counts].sort((a, b) => b[1] - a[1] || (a[0] < b[0] ? -1 : 1)).slice(0, PROFILE_SIZE)
+  return new Map(ranked.map(([gram], rank) => [gram, rank]))
+}
+
+function outOfPlace(ranks: Map<string, number>, profile: Map<string, number>): number {
+  let distance = 0
+  for (const [gram, rank] of ranks) {
+    const other = profile.get(gram)
+    distance += other === undefined ? PROFILE_SIZE : Math.abs(rank - other)
+  }
+  return distance
+}
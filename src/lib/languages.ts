@@ -0,0 +1,73 @@
+/**
+ * Languages - Language and locale metadata for voices and text normalization
+ * Languages are ISO 639-1 codes; locales are BCP 47 tags such as "en-GB"
+ */
+
+export interface LanguageInfo {
+  code: string
+  label: string
+  /** Three-letter ISO 639-2 code, as audio tag formats expect */
+  iso6392: string
+}
+
+export interface LocaleInfo {
+  code: string
+  language: string
+  label: string
+}
+
+export const DEFAULT_LOCALE = 'en-US'
+
+export const LANGUAGES: LanguageInfo[] = [
+  { code: 'en', label: 'English', iso6392: 'eng' },
+  { code: 'es', label: 'Spanish', iso6392: 'spa' },
+  { code: 'fr', label: 'French', iso6392: 'fra' },
+  { code: 'de', label: 'German', iso6392: 'deu' },
+  { code: 'it', label: 'Italian', iso6392: 'ita' },
+  { code: 'pt', label: 'Portuguese', iso6392: 'por' },
+  { code: 'nl', label: 'Dutch', iso6392: 'nld' },
+  { code: 'ru', label: 'Russian', iso6392: 'rus' },
+  { code: 'el', label: 'Greek', iso6392: 'ell' },
+  { code: 'ar', label: 'Arabic', iso6392: 'ara' },
+  { code: 'he', label: 'Hebrew', iso6392: 'heb' },
+  { code: 'hi', label: 'Hindi', iso6392: 'hin' },
+  { code: 'zh', label: 'Chinese', iso6392: 'zho' },
+  { code: 'ja', label: 'Japanese', iso6392: 'jpn' },
+  { code: 'ko', label: 'Korean', iso6392: 'kor' }
+]
+
+export const LOCALES: LocaleInfo[] = [
+  { code: 'en-US', language: 'en', label: 'English (US)' },
+  { code: 'en-GB', language: 'en', label: 'English (UK)' },
+  { code: 'en-AU', language: 'en', label: 'English (Australia)' },
+  { code: 'en-CA', language: 'en', label: 'English (Canada)' },
+  { code: 'en-IN', language: 'en', label: 'English (India)' },
+  { code: 'es-ES', language: 'es', label: 'Spanish (Spain)' },
+  { code: 'es-MX', language: 'es', label: 'Spanish (Mexico)' },
+  { code: 'fr-FR', language: 'fr', label: 'French (France)' },
+  { code: 'fr-CA', language: 'fr', label: 'French (Canada)' },
+  { code: 'de-DE', language: 'de', label: 'German (Germany)' },
+  { code: 'it-IT', language: 'it', label: 'Italian (Italy)' },
+  { code: 'pt-BR', language: 'pt', label: 'Portuguese (Brazil)' },
+  { code: 'pt-PT', language: 'pt', label: 'Portuguese (Portugal)' },
+  { code: 'nl-NL', language: 'nl', label: 'Dutch (Netherlands)' }
+]
+
+/**
+ * Language code of a locale tag, e.g. "en-GB" -> "en"
+ */
+export function localeLanguage(locale: string): string {
+  return locale.split(/[-_]/)[0].toLowerCase()
+}
+
+export function getLanguageIso6392(code: string): string {
+  return LANGUAGES.find(language => language.code === code)?.iso6392 || 'und'
+}
+
+export function getLanguageLabel(code: string): string {
+  return LANGUAGES.find(language => language.code === code)?.label || code
+}
+
+export function getLocaleLabel(code: string): string {
+  return LOCALES.find(locale => locale.code === code)?.label || code
+}
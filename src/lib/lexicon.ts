@@ -0,0 +1,195 @@
+/**
+ * Lexicon - User pronunciation overrides applied before synthesis
+ * Respellings replace the word's text; IPA and ARPAbet entries become explicit phoneme spans
+ */
+
+import type { SynthesisSegment } from '@/lib/synthesisProvider'
+import { parseArpabet, parseIpa, type Phoneme } from '@/lib/g2p'
+
+export type LexiconAlphabet = 'respelling' | 'ipa' | 'arpabet'
+
+export interface LexiconEntry {
+  id: string
+  word: string
+  pronunciation: string
+  alphabet: LexiconAlphabet
+}
+
+export const LEXICON_ALPHABETS: { id: LexiconAlphabet; label: string }[] = [
+  { id: 'respelling', label: 'Respelling' },
+  { id: 'ipa', label: 'IPA' },
+  { id: 'arpabet', label: 'ARPAbet' }
+]
+
+const CSV_HEADER = ['word', 'pronunciation', 'alphabet']
+
+/**
+ * Check an entry, returning a message describing the first problem or null when it is usable
+ */
+export function validateLexiconEntry(entry: Pick<LexiconEntry, 'word' | 'pronunciation' | 'alphabet'>): string | null {
+  if (!entry.word.trim()) return 'Word is required'
+  if (!entry.pronunciation.trim()) return 'Pronunciation is required'
+  if (!LEXICON_ALPHABETS.some(alphabet => alphabet.id === entry.alphabet)) return `Unknown alphabet "${entry.alphabet}"`
+
+  try {
+    toPhonemes(entry)
+  } catch (error) {
+    return error instanceof Error ? error.message : 'Invalid pronunciation'
+  }
+  return null
+}
+
+/**
+ * Rewrite spans so lexicon words are spoken as configured
+ * Returns undefined when plain text (no segments) contains no lexicon word, so callers can keep the plain-text path
+ */
+export function applyLexicon(text: string, segments: SynthesisSegment[] | undefined, entries: LexiconEntry[]): SynthesisSegment[] | undefined {
+  const usable = entries.filter(entry => validateLexiconEntry(entry) === null)
+  const pattern = buildPattern(usable)
+  if (!pattern || (!segments && !new RegExp(pattern.source, pattern.flags).test(text))) return segments
+
+  const byWord = new Map(usable.map(entry => [entry.word.trim().toLowerCase(), entry]))
+  const spans = segments || [{ text, rate: 1, pitch: 1, volume: 1 }]
+
+  return spans.flatMap(segment => {
+    // Explicit phonemes (e.g. SSML <phoneme>) already say exactly how to pronounce the span
+    if (segment.phonemes) return [segment]
+
+    const { pause, ...prosody } = segment
+    const pieces: SynthesisSegment[] = []
+    let plain = ''
+    let last = 0
+    let match: RegExpExecArray | null
+    const matcher = new RegExp(pattern.source, pattern.flags)
+
+    while ((match = matcher.exec(segment.text)) !== null) {
+      const entry = byWord.get(match[0].toLowerCase())
+      if (!entry) continue
+
+      plain += segment.text.slice(last, match.index)
+      last = match.index + match[0].length
+
+      if (entry.alphabet === 'respelling') {
+        plain += entry.pronunciation.trim()
+        continue
+      }
+      if (plain) pieces.push({ ...prosody, text: plain })
+      pieces.push({ ...prosody, text: match[0], phonemes: toPhonemes(entry) })
+      plain = ''
+    }
+    plain += segment.text.slice(last)
+    if (plain) pieces.push({ ...prosody, text: plain })
+
+    // The span's break belongs after everything it contained
+    if (pause && pieces.length > 0) pieces[pieces.length - 1].pause = pause
+    return pieces.length > 0 ? pieces : [segment]
+  })
+}
+
+/**
+ * Parse a JSON array or CSV file of entries; rows that fail validation are reported, not imported
+ */
+export function importLexicon(content: string, fileName: string): { entries: LexiconEntry[]; errors: string[] } {
+  const rows = /\.json$/i.test(fileName) || content.trim().startsWith('[') ? parseJsonRows(content) : parseCsvRows(content)
+  const entries: LexiconEntry[] = []
+  const errors: string[] = []
+
+  rows.forEach((row, index) => {
+    const entry = {
+      id: `lexicon-${Date.now()}-${index}`,
+      word: String(row.word ?? '').trim(),
+      pronunciation: String(row.pronunciation ?? '').trim(),
+      alphabet: String(row.alphabet || 'respelling').toLowerCase() as LexiconAlphabet
+    }
+    const problem = validateLexiconEntry(entry)
+    if (problem) {
+      errors.push(`Entry ${index + 1}: ${problem}`)
+      return
+    }
+    entries.push(entry)
+  })
+
+  return { entries, errors }
+}
+
+export function exportLexiconJson(entries: LexiconEntry[]): string {
+  return JSON.stringify(entries.map(({ word, pronunciation, alphabet }) => ({ word, pronunciation, alphabet })), null, 2)
+}
+
+export function exportLexiconCsv(entries: LexiconEntry[]): string {
+  const rows = entries.map(entry => [entry.word, entry.pronunciation, entry.alphabet].map(csvField).join(','))
+  return [CSV_HEADER.join(','), ...rows].join('\n') + '\n'
+}
+
+function toPhonemes(entry: Pick<LexiconEntry, 'pronunciation' | 'alphabet'>): Phoneme[] | undefined {
+  if (entry.alphabet === 'ipa') return parseIpa(entry.pronunciation)
+  if (entry.alphabet === 'arpabet') return parseArpabet(entry.pronunciation)
+  return undefined
+}
+
+/**
+ * One case-insensitive alternation over all words, longest first so "New York City" wins over "New York"
+ */
+function buildPattern(entries: LexiconEntry[]): RegExp | null {
+  if (entries.length === 0) return null
+  const words = [...new Set(entries.map(entry => entry.word.trim()))]
+    .sort((a, b) => b.length - a.length)
+    .map(word => word.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+  return new RegExp(`(?<![\\p{L}\\p{N}])(?:${words.join('|')})(?![\\p{L}\\p{N}])`, 'giu')
+}
+
+function parseJsonRows(content: string): Record<string, unknown>[] {
+  const data: unknown = JSON.parse(content)
+  if (!Array.isArray(data)) throw new Error('Expected a JSON array of entries')
+  return data.filter((row): row is Record<string, unknown> => typeof row === 'object' && row !== null)
+}
+
+/**
+ * Minimal RFC 4180 reader: quoted fields may contain commas, newlines and doubled quotes
+ */
+function parseCsvRows(content: string): Record<string, unknown>[] {
+  const records: string[][] = []
+  let record: string[] = []
+  let field = ''
+  let quoted = false
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i]
+    if (quoted) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        field += char
+      }
+    } else if (char === '"') {
+      quoted = true
+    } else if (char === ',') {
+      record.push(field)
+      field = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++
+      record.push(field)
+      records.push(record)
+      record = []
+      field = ''
+    } else {
+      field += char
+    }
+  }
+  if (field || record.length > 0) {
+    record.push(field)
+    records.push(record)
+  }
+
+  const rows = records.filter(cells => cells.some(cell => cell.trim()))
+  const hasHeader = rows[0]?.[0]?.trim().toLowerCase() === CSV_HEADER[0]
+  const header = hasHeader ? rows[0].map(cell => cell.trim().toLowerCase()) : CSV_HEADER
+  return rows.slice(hasHeader ? 1 : 0).map(cells => Object.fromEntries(header.map((key, i) => [key, cells[i] ?? ''])))
+}
+
+function csvField(value: string): string {
+  return /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value
+}
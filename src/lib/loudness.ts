@@ -0,0 +1,222 @@
+/**
+ * Loudness - ITU-R BS.1770 loudness measurement and normalization
+ * K-weighted, gated integrated loudness plus a 4x-oversampled true-peak limiter
+ */
+
+import { resample } from '@/lib/resample'
+
+const BLOCK_MS = 400
+const BLOCK_OVERLAP = 0.75
+const ABSOLUTE_GATE = -70
+const RELATIVE_GATE = -10
+const OVERSAMPLING = 4
+const LIMITER_LOOKAHEAD_MS = 5
+const LIMITER_RELEASE_MS = 80
+
+export const DEFAULT_TRUE_PEAK_CEILING = -1
+
+export interface LoudnessTarget {
+  id: string
+  label: string
+  lufs: number | null
+}
+
+export const LOUDNESS_TARGETS: LoudnessTarget[] = [
+  { id: 'podcast', label: 'Podcast (-16 LUFS)', lufs: -16 },
+  { id: 'broadcast', label: 'Broadcast (-23 LUFS)', lufs: -23 },
+  { id: 'streaming', label: 'Streaming (-14 LUFS)', lufs: -14 },
+  { id: 'off', label: 'Off (engine level)', lufs: null }
+]
+
+export interface LoudnessMeasurement {
+  /** Integrated loudness in LUFS, -Infinity for silence */
+  integrated: number
+  /** True peak in dBTP */
+  truePeak: number
+}
+
+export interface NormalizedAudio extends LoudnessMeasurement {
+  samples: Float32Array
+}
+
+interface Biquad {
+  b0: number
+  b1: number
+  b2: number
+  a1: number
+  a2: number
+}
+
+/**
+ * Measure integrated loudness and true peak of mono PCM
+ */
+export function measureLoudness(samples: Float32Array, sampleRate: number): LoudnessMeasurement {
+  return {
+    integrated: integratedLoudness(samples, sampleRate),
+    truePeak: toDecibels(truePeakEnvelope(samples, sampleRate).reduce((max, value) => Math.max(max, value), 0))
+  }
+}
+
+/**
+ * Gain audio to the target loudness, then limit true peaks to the ceiling
+ */
+export function normalizeLoudness(
+  samples: Float32Array,
+  sampleRate: number,
+  target: number,
+  ceiling = DEFAULT_TRUE_PEAK_CEILING
+): NormalizedAudio {
+  const measured = integratedLoudness(samples, sampleRate)
+  if (!Number.isFinite(measured)) {
+    return { samples: samples.slice(), ...measureLoudness(samples, sampleRate) }
+  }
+
+  const gain = Math.pow(10, (target - measured) / 20)
+  const gained = samples.map(sample => sample * gain)
+  const limited = limitTruePeak(gained, sampleRate, ceiling)
+
+  return { samples: limited, ...measureLoudness(limited, sampleRate) }
+}
+
+/**
+ * Gated integrated loudness (BS.1770-4), single channel with unity weight
+ */
+function integratedLoudness(samples: Float32Array, sampleRate: number): number {
+  const weighted = kWeight(samples, sampleRate)
+  const blockSize = Math.round(sampleRate * BLOCK_MS / 1000)
+  const hop = Math.max(1, Math.round(blockSize * (1 - BLOCK_OVERLAP)))
+  if (weighted.length < blockSize) {
+    return blockLoudness(meanSquare(weighted, 0, weighted.length))
+  }
+
+  const powers: number[] = []
+  for (let start = 0; start + blockSize <= weighted.length; start += hop) {
+    powers.push(meanSquare(weighted, start, blockSize))
+  }
+
+  const absoluteGated = powers.filter(power => blockLoudness(power) > ABSOLUTE_GATE)
+  if (absoluteGated.length === 0) return -Infinity
+
+  const relativeThreshold = blockLoudness(mean(absoluteGated)) + RELATIVE_GATE
+  const relativeGated = absoluteGated.filter(power => blockLoudness(power) > relativeThreshold)
+  return blockLoudness(mean(relativeGated))
+}
+
+/**
+ * Apply the BS.1770 K-weighting: a high-shelf "head" filter followed by the RLB high-pass
+ */
+function kWeight(samples: Float32Array, sampleRate: number): Float32Array {
+  // Analog prototypes from the standard, re-derived for any sample rate (as libebur128 does)
+  let K = Math.tan(Math.PI * 1681.974450955533 / sampleRate)
+  const Vh = Math.pow(10, 3.999843853973347 / 20)
+  const Vb = Math.pow(Vh, 0.4996667741545416)
+  let Q = 0.7071752369554196
+  let a0 = 1 + K / Q + K * K
+  const shelf: Biquad = {
+    b0: (Vh + Vb * K / Q + K * K) / a0,
+    b1: 2 * (K * K - Vh) / a0,
+    b2: (Vh - Vb * K / Q + K * K) / a0,
+    a1: 2 * (K * K - 1) / a0,
+    a2: (1 - K / Q + K * K) / a0
+  }
+
+  K = Math.tan(Math.PI * 38.13547087602444 / sampleRate)
+  Q = 0.5003270373238773
+  a0 = 1 + K / Q + K * K
+  const highpass: Biquad = {
+    b0: 1,
+    b1: -2,
+    b2: 1,
+    a1: 2 * (K * K - 1) / a0,
+    a2: (1 - K / Q + K * K) / a0
+  }
+
+  return filter(filter(samples, shelf), highpass)
+}
+
+function filter(samples: Float32Array, { b0, b1, b2, a1, a2 }: Biquad): Float32Array {
+  const output = new Float32Array(samples.length)
+  let x1 = 0, x2 = 0, y1 = 0, y2 = 0
+  for (let i = 0; i < samples.length; i++) {
+    const x = samples[i]
+    const y = b0 * x + b1 * x1 + b2 * x2 - a1 * y1 - a2 * y2
+    output[i] = y
+    x2 = x1
+    x1 = x
+    y2 = y1
+    y1 = y
+  }
+  return output
+}
+
+/**
+ * Per-sample true-peak estimate: the largest oversampled magnitude around each input sample
+ */
+function truePeakEnvelope(samples: Float32Array, sampleRate: number): Float32Array {
+  const oversampled = resample(samples, sampleRate, sampleRate * OVERSAMPLING)
+  const envelope = new Float32Array(samples.length)
+  for (let i = 0; i < samples.length; i++) {
+    let peak = Math.abs(samples[i])
+    for (let j = 0; j < OVERSAMPLING; j++) {
+      const index = i * OVERSAMPLING + j
+      if (index < oversampled.length) peak = Math.max(peak, Math.abs(oversampled[index]))
+    }
+    envelope[i] = peak
+  }
+  return envelope
+}
+
+/**
+ * Look-ahead limiter driven by the true-peak envelope
+ * The gain reaches its target before each peak arrives, so nothing overshoots the ceiling
+ */
+function limitTruePeak(samples: Float32Array, sampleRate: number, ceilingDb: number): Float32Array {
+  const ceiling = Math.pow(10, ceilingDb / 20)
+  const envelope = truePeakEnvelope(samples, sampleRate)
+  const lookahead = Math.max(1, Math.round(sampleRate * LIMITER_LOOKAHEAD_MS / 1000))
+  const release = 1 - Math.exp(-1 / (sampleRate * LIMITER_RELEASE_MS / 1000))
+
+  const required = envelope.map(peak => (peak > ceiling ? ceiling / peak : 1))
+  if (required.every(gain => gain === 1)) return samples
+
+  // Minimum required gain over the next `lookahead` samples
+  const upcoming = new Float32Array(samples.length)
+  const window: number[] = []
+  for (let i = samples.length - 1; i >= 0; i--) {
+    while (window.length > 0 && required[window[window.length - 1]] >= required[i]) window.pop()
+    window.push(i)
+    while (window[0] > i + lookahead - 1) window.shift()
+    upcoming[i] = required[window[0]]
+  }
+
+  // Averaging the look-ahead minimum over the same span ramps into each reduction smoothly;
+  // the span before the first sample is padded with the first minimum so an opening peak is caught too
+  const output = new Float32Array(samples.length)
+  let runningSum = lookahead * upcoming[0]
+  let gain = upcoming[0]
+  for (let i = 0; i < samples.length; i++) {
+    runningSum += upcoming[i] - upcoming[Math.max(0, i - lookahead)]
+    const smoothed = runningSum / lookahead
+    gain = Math.min(smoothed, gain + release * (1 - gain))
+    output[i] = samples[i] * gain
+  }
+  return output
+}
+
+function meanSquare(samples: Float32Array, start: number, length: number): number {
+  let sum = 0
+  for (let i = start; i < start + length; i++) sum += samples[i] * samples[i]
+  return length > 0 ? sum / length : 0
+}
+
+function mean(values: number[]): number {
+  return values.reduce((sum, value) => sum + value, 0) / values.length
+}
+
+function blockLoudness(power: number): number {
+  return power > 0 ? -0.691 + 10 * Math.log10(power) : -Infinity
+}
+
+function toDecibels(amplitude: number): number {
+  return amplitude > 0 ? 20 * Math.log10(amplitude) : -Infinity
+}
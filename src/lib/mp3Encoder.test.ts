@@ -0,0 +1,105 @@
+import { describe, expect, it } from 'vitest'
+import { encodeMp3, MP3_SAMPLE_RATE } from '@/lib/mp3Encoder'
+import { BITRATES_KBPS } from '@/lib/mp3Tables'
+
+interface Frame {
+  offset: number
+  length: number
+  bitrate: number
+}
+
+function parseFrames(bytes: Uint8Array, start = 0): Frame[] {
+  const frames: Frame[] = []
+  let offset = start
+  while (offset < bytes.length) {
+    // MPEG-1 Layer III at 44.1 kHz, mono, no CRC
+    expect(bytes[offset]).toBe(0xff)
+    expect(bytes[offset + 1]).toBe(0xfb)
+    const bitrate = BITRATES_KBPS[bytes[offset + 2] >> 4]
+    expect(bytes[offset + 2] & 0x0c).toBe(0)
+    expect(bytes[offset + 3] >> 6).toBe(0b11)
+    const length = Math.floor(144000 * bitrate / MP3_SAMPLE_RATE) + ((bytes[offset + 2] >> 1) & 1)
+    frames.push({ offset, length, bitrate })
+    offset += length
+  }
+  expect(offset).toBe(bytes.length)
+  return frames
+}
+
+function crc16(bytes: Uint8Array, crc = 0): number {
+  for (const byte of bytes) {
+    crc ^= byte
+    for (let bit = 0; bit < 8; bit++) crc = crc & 1 ? (crc >>> 1) ^ 0xa001 : crc >>> 1
+  }
+  return crc
+}
+
+const XING = 4 + 17
+const LAME = XING + 120
+const tone = (seconds: number) => Float32Array.from({ length: Math.round(seconds * MP3_SAMPLE_RATE) }, (_, i) =>
+  0.4 * Math.sin(2 * Math.PI * 220 * i / MP3_SAMPLE_RATE) + 0.2 * Math.sin(2 * Math.PI * 1760 * i / MP3_SAMPLE_RATE))
+
+function readInfo(bytes: Uint8Array, frames: Frame[]) {
+  const info = bytes.subarray(frames[0].offset, frames[0].offset + frames[0].length)
+  const view = new DataView(info.buffer, info.byteOffset)
+  return {
+    tag: new TextDecoder().decode(info.subarray(XING, XING + 4)),
+    frameCount: view.getUint32(XING + 8),
+    byteCount: view.getUint32(XING + 12),
+    encoder: new TextDecoder().decode(info.subarray(LAME, LAME + 9)),
+    delay: (info[LAME + 21] << 4) | (info[LAME + 22] >> 4),
+    padding: ((info[LAME + 22] & 0xf) << 8) | info[LAME + 23],
+    musicCrc: view.getUint16(LAME + 32),
+    tagCrc: view.getUint16(LAME + 34),
+    header: info.subarray(0, LAME + 34)
+  }
+}
+
+describe('encodeMp3', () => {
+  it('writes constant-bitrate frames behind an Info frame that describes them', () => {
+    const samples = tone(0.5)
+    const bytes = encodeMp3(samples, MP3_SAMPLE_RATE, { bitrate: 128, mode: 'cbr' })
+    const frames = parseFrames(bytes)
+    const audio = frames.slice(1)
+    const info = readInfo(bytes, frames)
+
+    expect(audio.every(frame => frame.bitrate === 128)).toBe(true)
+    expect(info).toMatchObject({ tag: 'Info', frameCount: audio.length, byteCount: bytes.length, encoder: 'LAME3.100', delay: 528 })
+    // Delay, signal and padding add up to the decoded length, which lets players trim to the exact input
+    expect(info.delay + samples.length + info.padding).toBe(audio.length * 1152)
+    expect(info.musicCrc).toBe(crc16(bytes.subarray(audio[0].offset)))
+    expect(info.tagCrc).toBe(crc16(info.header))
+  })
+
+  it('varies the bitrate in VBR mode and labels the header Xing', () => {
+    const samples = new Float32Array(MP3_SAMPLE_RATE / 2)
+    samples.set(tone(0.25), MP3_SAMPLE_RATE / 4)
+    const bytes = encodeMp3(samples, MP3_SAMPLE_RATE, { bitrate: 128, mode: 'vbr' })
+    const frames = parseFrames(bytes)
+    expect(readInfo(bytes, frames).tag).toBe('Xing')
+    expect(new Set(frames.slice(1).map(frame => frame.bitrate)).size).toBeGreaterThan(1)
+  })
+
+  it('resamples other rates to 44.1 kHz', () => {
+    const bytes = encodeMp3(new Float32Array(22050), 22050, { bitrate: 64, mode: 'cbr' })
+    const frames = parseFrames(bytes)
+    const info = readInfo(bytes, frames)
+    expect(info.delay + 44100 + info.padding).toBe((frames.length - 1) * 1152)
+  })
+
+  it('puts an ID3v2 tag in front when tags are given', () => {
+    const bytes = encodeMp3(tone(0.1), MP3_SAMPLE_RATE, {
+      bitrate: 96,
+      mode: 'cbr',
+      tags: { title: 'Take', artist: 'Aria', album: '', comment: '', language: 'eng', date: '2026-01-02' }
+    })
+    expect(new TextDecoder().decode(bytes.subarray(0, 3))).toBe('ID3')
+    const size = (bytes[6] << 21) | (bytes[7] << 14) | (bytes[8] << 7) | bytes[9]
+    expect(parseFrames(bytes, 10 + size).length).toBeGreaterThan(1)
+  })
+
+  it('encodes the same input to the same bytes', () => {
+    const samples = tone(0.2)
+    expect(encodeMp3(samples, MP3_SAMPLE_RATE, { bitrate: 128, mode: 'vbr' })).toEqual(encodeMp3(samples, MP3_SAMPLE_RATE, { bitrate: 128, mode: 'vbr' }))
+  })
+})
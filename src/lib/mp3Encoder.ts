@@ -0,0 +1,652 @@
+/**
+ * Mp3Encoder - MPEG-1 Layer III encoding of mono renders at a constant or variable bitrate
+ * ISO/IEC 11172-3 polyphase analysis and MDCT; one global gain per granule, long blocks only, no bit reservoir
+ */
+
+import type { AudioTags } from '@/lib/audioTags'
+import { encodeId3v2 } from '@/lib/id3'
+import { BITRATES_KBPS, COUNT1_TABLE_A, HUFFMAN_TABLES, SFB_LONG_44100 } from '@/lib/mp3Tables'
+import { resample } from '@/lib/resample'
+
+export type Mp3BitrateMode = 'cbr' | 'vbr'
+
+export interface Mp3Options {
+  /** kbps; in VBR mode the average the encoder aims for */
+  bitrate: number
+  mode: Mp3BitrateMode
+  /** Written as an ID3v2.4 tag ahead of the first frame */
+  tags?: AudioTags
+}
+
+export const MP3_SAMPLE_RATE = 44100
+export const DEFAULT_MP3_BITRATE = 128
+export const DEFAULT_MP3_BITRATE_MODE: Mp3BitrateMode = 'cbr'
+
+/** Download bitrate for each render quality */
+export const MP3_QUALITY_BITRATES: Record<string, number> = {
+  standard: 128,
+  high: 256,
+  premium: 320
+}
+
+const GRANULE = 576
+const SUBBANDS = 32
+const SUBBAND_SAMPLES = 18
+const HEADER_BYTES = 4
+const SIDE_INFO_BYTES = 17
+const MAX_PART23_BITS = 4095
+// Largest magnitude the escape tables can carry with 13 linbits
+const MAX_QUANTIZED = 15 + (1 << 13) - 1
+// Rounding offset from the ISO reference quantizer; biases small values towards zero
+const QUANTIZE_ROUNDING = 0.4054
+const XING_OFFSET = HEADER_BYTES + SIDE_INFO_BYTES
+const XING_FLAGS = 0xf // frame count, byte count, seek table and quality
+const LAME_OFFSET = XING_OFFSET + 120
+// The LAME extension ends with a CRC of everything before it in the frame
+const INFO_FRAME_BYTES = LAME_OFFSET + 36
+// Samples the analysis filterbank and MDCT put ahead of the signal, measured against a reference decoder;
+// players skip these plus their own 529-sample decoder delay
+const ENCODER_DELAY = 528
+
+// Tables tried for each big-values region; 16 and 24 stand for their escape families
+const CANDIDATE_TABLES = [1, 2, 3, 5, 6, 7, 8, 9, 10, 11, 12, 13, 15, 16, 24]
+const BANDS = SFB_LONG_44100.length - 1
+
+/**
+ * Bitrate a download should use for a render quality
+ */
+export function mp3Bitrate(quality: string): number {
+  return MP3_QUALITY_BITRATES[quality] ?? DEFAULT_MP3_BITRATE
+}
+
+/**
+ * Encode mono PCM as an MP3 file; input at other rates is resampled to 44.1 kHz
+ */
+export function encodeMp3(samples: Float32Array, sampleRate: number, { bitrate, mode, tags }: Mp3Options): Uint8Array {
+  const pcm = resample(samples, sampleRate, MP3_SAMPLE_RATE)
+  // One frame of zeros flushes the analysis filterbank and MDCT overlap
+  const frameCount = Math.ceil((pcm.length + 2 * GRANULE) / (2 * GRANULE))
+  const spectrum = analyze(pcm, frameCount * 2)
+  const magnitudes = powerSpectrum(spectrum, bandwidthLines(bitrate))
+  const bitrateIndex = nearestBitrateIndex(bitrate)
+
+  const frames = mode === 'vbr'
+    ? encodeVbr(spectrum, magnitudes, frameCount, bitrateIndex)
+    : encodeCbr(spectrum, magnitudes, frameCount, bitrateIndex)
+  const info = infoFrame(frames, bitrateIndex, mode, pcm.length)
+  return concat(tags ? [encodeId3v2(tags), info, ...frames] : [info, ...frames])
+}
+
+const ANALYSIS_WINDOW = createAnalysisWindow()
+const ANALYSIS_MATRIX = createAnalysisMatrix()
+const MDCT_MATRIX = createMdctMatrix()
+const ALIAS_CS = [-0.6, -0.535, -0.33, -0.185, -0.095, -0.041, -0.0142, -0.0037].map(c => 1 / Math.sqrt(1 + c * c))
+const ALIAS_CA = [-0.6, -0.535, -0.33, -0.185, -0.095, -0.041, -0.0142, -0.0037].map(c => c / Math.sqrt(1 + c * c))
+
+/**
+ * The standard's 512-tap analysis window, rebuilt from its lowpass prototype instead of the printed table:
+ * a Kaiser-windowed sinc fitted to the published coefficients, with the sign flipped every 64 taps
+ */
+function createAnalysisWindow(): Float64Array {
+  const gain = 1.1437021207476252
+  const zeroSpacing = 56.03627925529872
+  const beta = 10.7577273753365
+  const window = new Float64Array(512)
+
+  for (let n = 0; n < 512; n++) {
+    const m = n - 256
+    const x = Math.PI * m / zeroSpacing
+    const sinc = m === 0 ? 1 : Math.sin(x) / x
+    const r = m / 256
+    const kaiser = Math.abs(r) >= 1 ? 0 : besselI0(beta * Math.sqrt(1 - r * r)) / besselI0(beta)
+    const sign = Math.floor(n / 64) % 2 === 0 ? 1 : -1
+    window[n] = sign * gain * sinc * kaiser / 32
+  }
+
+  return window
+}
+
+function createAnalysisMatrix(): Float64Array {
+  const matrix = new Float64Array(SUBBANDS * 64)
+  for (let k = 0; k < SUBBANDS; k++) {
+    for (let i = 0; i < 64; i++) {
+      matrix[k * 64 + i] = Math.cos((2 * k + 1) * (i - 16) * Math.PI / 64)
+    }
+  }
+  return matrix
+}
+
+// Sine-windowed 36-point MDCT, scaled so the decoder's unnormalized IMDCT restores unit gain
+function createMdctMatrix(): Float64Array {
+  const matrix = new Float64Array(SUBBAND_SAMPLES * 36)
+  for (let k = 0; k < SUBBAND_SAMPLES; k++) {
+    for (let i = 0; i < 36; i++) {
+      const window = Math.sin(Math.PI / 36 * (i + 0.5))
+      matrix[k * 36 + i] = window * Math.cos(Math.PI / 72 * (2 * i + 1 + 18) * (2 * k + 1)) / 9
+    }
+  }
+  return matrix
+}
+
+function besselI0(x: number): number {
+  let sum = 1
+  let term = 1
+  for (let k = 1; k < 50; k++) {
+    term *= (x / (2 * k)) ** 2
+    sum += term
+  }
+  return sum
+}
+
+/**
+ * Split PCM into 576 frequency lines per granule: subband filtering, MDCT and alias reduction
+ */
+function analyze(pcm: Float32Array, granules: number): Float32Array {
+  const spectrum = new Float32Array(granules * GRANULE)
+  const fifo = new Float64Array(512)
+  const folded = new Float64Array(64)
+  let previous = new Float64Array(SUBBANDS * SUBBAND_SAMPLES)
+  let position = 0
+
+  for (let granule = 0; granule < granules; granule++) {
+    const current = new Float64Array(SUBBANDS * SUBBAND_SAMPLES)
+
+    for (let t = 0; t < SUBBAND_SAMPLES; t++) {
+      fifo.copyWithin(32, 0, 480)
+      for (let i = 31; i >= 0; i--) {
+        fifo[i] = position < pcm.length ? pcm[position] : 0
+        position++
+      }
+
+      for (let i = 0; i < 64; i++) {
+        let sum = 0
+        for (let j = i; j < 512; j += 64) sum += ANALYSIS_WINDOW[j] * fifo[j]
+        folded[i] = sum
+      }
+
+      for (let k = 0; k < SUBBANDS; k++) {
+        let sum = 0
+        for (let i = 0; i < 64; i++) sum += ANALYSIS_MATRIX[k * 64 + i] * folded[i]
+        // Odd subbands are frequency-inverted on every other sample, mirroring the decoder
+        current[k * SUBBAND_SAMPLES + t] = k % 2 === 1 && t % 2 === 1 ? -sum : sum
+      }
+    }
+
+    const lines = spectrum.subarray(granule * GRANULE, (granule + 1) * GRANULE)
+    for (let band = 0; band < SUBBANDS; band++) {
+      const base = band * SUBBAND_SAMPLES
+      for (let k = 0; k < SUBBAND_SAMPLES; k++) {
+        let sum = 0
+        for (let i = 0; i < SUBBAND_SAMPLES; i++) {
+          sum += MDCT_MATRIX[k * 36 + i] * previous[base + i] + MDCT_MATRIX[k * 36 + SUBBAND_SAMPLES + i] * current[base + i]
+        }
+        lines[base + k] = sum
+      }
+    }
+
+    // Inverse of the decoder's alias-reduction butterflies
+    for (let band = 1; band < SUBBANDS; band++) {
+      for (let i = 0; i < 8; i++) {
+        const lower = band * SUBBAND_SAMPLES - 1 - i
+        const upper = band * SUBBAND_SAMPLES + i
+        const a = lines[lower]
+        const b = lines[upper]
+        lines[lower] = a * ALIAS_CS[i] + b * ALIAS_CA[i]
+        lines[upper] = b * ALIAS_CS[i] - a * ALIAS_CA[i]
+      }
+    }
+
+    previous = current
+  }
+
+  return spectrum
+}
+
+// Lower bitrates spend their bits below a cutoff instead of spreading them thin across the band
+function bandwidthLines(bitrate: number): number {
+  const cutoff = bitrate <= 96 ? 15000 : bitrate <= 160 ? 17000 : 20000
+  return Math.min(GRANULE, Math.round(cutoff / (MP3_SAMPLE_RATE / 2) * GRANULE))
+}
+
+// |x|^(3/4) of every line, the domain the quantizer rounds in
+function powerSpectrum(spectrum: Float32Array, lines: number): Float32Array {
+  const magnitudes = new Float32Array(spectrum.length)
+  for (let i = 0; i < spectrum.length; i++) {
+    magnitudes[i] = i % GRANULE < lines ? Math.abs(spectrum[i]) ** 0.75 : 0
+  }
+  return magnitudes
+}
+
+interface GranuleLayout {
+  bits: number
+  bigValues: number
+  tables: [number, number, number]
+  region0: number
+  region1: number
+  count1Table: 0 | 1
+  /** End of the count1 quadruples; everything after is zero */
+  count1End: number
+}
+
+interface GranuleCode extends GranuleLayout {
+  gain: number
+  values: Int32Array
+}
+
+const SILENT_GRANULE: GranuleCode = {
+  gain: 0,
+  bits: 0,
+  bigValues: 0,
+  tables: [0, 0, 0],
+  region0: 0,
+  region1: 0,
+  count1Table: 0,
+  count1End: 0,
+  values: new Int32Array(GRANULE)
+}
+
+/**
+ * Quantize a granule's magnitudes at a global gain; false when a value overflows the escape tables
+ */
+function quantize(magnitudes: Float32Array, offset: number, gain: number, out: Int32Array): boolean {
+  const scale = 2 ** (-(gain - 210) * 3 / 16)
+  for (let i = 0; i < GRANULE; i++) {
+    const value = Math.floor(magnitudes[offset + i] * scale + QUANTIZE_ROUNDING)
+    if (value > MAX_QUANTIZED) return false
+    out[i] = value
+  }
+  return true
+}
+
+// Smallest gain whose quantized values still fit the escape tables
+function minimumGain(magnitudes: Float32Array, offset: number): number {
+  let peak = 0
+  for (let i = 0; i < GRANULE; i++) peak = Math.max(peak, magnitudes[offset + i])
+  if (peak === 0) return 0
+  return Math.max(0, Math.ceil(210 + 16 / 3 * Math.log2(peak / (MAX_QUANTIZED - QUANTIZE_ROUNDING))))
+}
+
+// Escape table of a family (16 or 24) with the fewest linbits that still cover the largest value
+function escapeTable(family: number, max: number): number {
+  for (let table = family; table < family + 8; table++) {
+    if (max <= 15 + (1 << HUFFMAN_TABLES[table]!.linbits) - 1) return table
+  }
+  return family + 7
+}
+
+/**
+ * Work out the region split, tables and bit count for quantized magnitudes
+ */
+function layoutGranule(values: Int32Array): GranuleLayout {
+  let end = GRANULE
+  while (end > 0 && values[end - 1] === 0) end--
+  end += end % 2
+
+  let bigEnd = end
+  while (bigEnd >= 4 && values[bigEnd - 1] <= 1 && values[bigEnd - 2] <= 1 && values[bigEnd - 3] <= 1 && values[bigEnd - 4] <= 1) {
+    bigEnd -= 4
+  }
+
+  let countA = 0
+  let countB = 0
+  for (let i = bigEnd; i < end; i += 4) {
+    const index = values[i] * 8 + values[i + 1] * 4 + values[i + 2] * 2 + values[i + 3]
+    const signs = values[i] + values[i + 1] + values[i + 2] + values[i + 3]
+    countA += COUNT1_TABLE_A.lengths[index] + signs
+    countB += 4 + signs
+  }
+
+  // Per band: bits under each candidate table (escape families counted without linbits) and the largest value
+  const bandCosts = CANDIDATE_TABLES.map(() => new Float64Array(BANDS))
+  const bandEscapes = new Float64Array(BANDS)
+  const bandMax = new Int32Array(BANDS)
+  for (let band = 0; band < BANDS; band++) {
+    const stop = Math.min(SFB_LONG_44100[band + 1], bigEnd)
+    for (let i = SFB_LONG_44100[band]; i < stop; i += 2) {
+      const x = values[i]
+      const y = values[i + 1]
+      bandMax[band] = Math.max(bandMax[band], x, y)
+      bandEscapes[band] += (x >= 15 ? 1 : 0) + (y >= 15 ? 1 : 0)
+      const index = Math.min(x, 15) * 16 + Math.min(y, 15)
+      const signs = (x !== 0 ? 1 : 0) + (y !== 0 ? 1 : 0)
+      CANDIDATE_TABLES.forEach((table, t) => {
+        const huffman = HUFFMAN_TABLES[table]!
+        if (huffman.size === 16) {
+          bandCosts[t][band] += huffman.lengths[index] + signs
+        } else if (Math.max(x, y) < huffman.size) {
+          bandCosts[t][band] += huffman.lengths[x * huffman.size + y] + signs
+        }
+      })
+    }
+  }
+
+  // Cheapest table and its cost for every run of bands
+  const best = (from: number, to: number): { table: number; bits: number } => {
+    let max = 0
+    let escapes = 0
+    for (let band = from; band < to; band++) {
+      max = Math.max(max, bandMax[band])
+      escapes += bandEscapes[band]
+    }
+    if (max === 0) return { table: 0, bits: 0 }
+
+    let choice = { table: 0, bits: Infinity }
+    CANDIDATE_TABLES.forEach((candidate, t) => {
+      const huffman = HUFFMAN_TABLES[candidate]!
+      const escape = huffman.linbits > 0
+      if (!escape && max >= huffman.size) return
+      const table = escape ? escapeTable(candidate, max) : candidate
+      let bits = escape ? escapes * HUFFMAN_TABLES[table]!.linbits : 0
+      for (let band = from; band < to; band++) bits += bandCosts[t][band]
+      if (bits < choice.bits) choice = { table, bits }
+    })
+    return choice
+  }
+
+  let layout: GranuleLayout = {
+    bits: Infinity,
+    bigValues: bigEnd / 2,
+    tables: [0, 0, 0],
+    region0: 0,
+    region1: 0,
+    count1Table: countB < countA ? 1 : 0,
+    count1End: end
+  }
+  const count1Bits = Math.min(countA, countB)
+  const lastBand = SFB_LONG_44100.findIndex(edge => edge >= bigEnd)
+
+  for (let region0 = 0; region0 < 16; region0++) {
+    const split1 = region0 + 1
+    if (split1 > lastBand && region0 > 0) break
+    const first = best(0, Math.min(split1, BANDS))
+
+    for (let region1 = 0; region1 < 8; region1++) {
+      const split2 = split1 + region1 + 1
+      if (split2 > BANDS) break
+      const second = best(split1, split2)
+      const third = best(split2, BANDS)
+      const bits = first.bits + second.bits + third.bits + count1Bits
+      if (bits < layout.bits) {
+        layout = { ...layout, bits, tables: [first.table, second.table, third.table], region0, region1 }
+      }
+      if (split2 > lastBand) break
+    }
+  }
+
+  return layout
+}
+
+/**
+ * Quantize and lay out a granule at a given gain; null if the values overflow
+ */
+function codeGranule(magnitudes: Float32Array, granule: number, gain: number): GranuleCode | null {
+  const values = new Int32Array(GRANULE)
+  if (!quantize(magnitudes, granule * GRANULE, gain, values)) return null
+  return { ...layoutGranule(values), gain, values }
+}
+
+/**
+ * Finest gain at which a granule fits a bit budget, found by bisection
+ */
+function fitGranule(magnitudes: Float32Array, granule: number, budget: number): GranuleCode {
+  let low = minimumGain(magnitudes, granule * GRANULE)
+  let high = 255
+  let fitted = codeGranule(magnitudes, granule, high) ?? SILENT_GRANULE
+
+  while (low < high) {
+    const gain = (low + high) >> 1
+    const code = codeGranule(magnitudes, granule, gain)
+    if (code && code.bits <= budget) {
+      fitted = code
+      high = gain
+    } else {
+      low = gain + 1
+    }
+  }
+
+  return fitted.bits <= budget ? fitted : SILENT_GRANULE
+}
+
+class BitWriter {
+  private position = 0
+
+  constructor(readonly bytes: Uint8Array) {}
+
+  write(value: number, bits: number): void {
+    for (let bit = bits - 1; bit >= 0; bit--) {
+      if ((value >>> bit) & 1) this.bytes[this.position >> 3] |= 0x80 >> (this.position & 7)
+      this.position++
+    }
+  }
+}
+
+function frameBytes(bitrateIndex: number, padding: boolean): number {
+  return Math.floor(144000 * BITRATES_KBPS[bitrateIndex] / MP3_SAMPLE_RATE) + (padding ? 1 : 0)
+}
+
+function nearestBitrateIndex(bitrate: number): number {
+  let index = 1
+  for (let i = 1; i < BITRATES_KBPS.length; i++) {
+    if (BITRATES_KBPS[i] <= bitrate) index = i
+  }
+  return index
+}
+
+function writeHeader(writer: BitWriter, bitrateIndex: number, padding: boolean): void {
+  writer.write(0x7ff, 11)
+  writer.write(0b11, 2) // MPEG-1
+  writer.write(0b01, 2) // Layer III
+  writer.write(1, 1) // no CRC
+  writer.write(bitrateIndex, 4)
+  writer.write(0b00, 2) // 44.1 kHz
+  writer.write(padding ? 1 : 0, 1)
+  writer.write(0, 1) // private
+  writer.write(0b11, 2) // single channel
+  writer.write(0, 2) // mode extension
+  writer.write(0, 1) // copyright
+  writer.write(1, 1) // original
+  writer.write(0, 2) // no emphasis
+}
+
+function writeSideInfo(writer: BitWriter, granules: GranuleCode[]): void {
+  writer.write(0, 9) // main_data_begin: no bit reservoir
+  writer.write(0, 5) // private bits
+  writer.write(0, 4) // scfsi
+  for (const granule of granules) {
+    writer.write(granule.bits, 12)
+    writer.write(granule.bigValues, 9)
+    writer.write(granule.gain, 8)
+    writer.write(0, 4) // scalefac_compress: no scale factors
+    writer.write(0, 1) // long blocks
+    granule.tables.forEach(table => writer.write(table, 5))
+    writer.write(granule.region0, 4)
+    writer.write(granule.region1, 3)
+    writer.write(0, 1) // preflag
+    writer.write(0, 1) // scalefac_scale
+    writer.write(granule.count1Table, 1)
+  }
+}
+
+function writeMainData(writer: BitWriter, granule: GranuleCode, spectrum: Float32Array, offset: number): void {
+  const { values } = granule
+  const negative = (i: number) => (spectrum[offset + i] < 0 ? 1 : 0)
+  const region1Start = SFB_LONG_44100[granule.region0 + 1]
+  const region2Start = SFB_LONG_44100[Math.min(granule.region0 + granule.region1 + 2, BANDS)]
+  const bigEnd = granule.bigValues * 2
+
+  for (let i = 0; i < bigEnd; i += 2) {
+    const table = granule.tables[i < region1Start ? 0 : i < region2Start ? 1 : 2]
+    if (table === 0) continue
+
+    const huffman = HUFFMAN_TABLES[table]!
+    const x = values[i]
+    const y = values[i + 1]
+    const cx = Math.min(x, 15)
+    const cy = Math.min(y, 15)
+    const index = cx * huffman.size + cy
+    writer.write(huffman.codes[index], huffman.lengths[index])
+    if (huffman.linbits > 0 && cx === 15) writer.write(x - 15, huffman.linbits)
+    if (x !== 0) writer.write(negative(i), 1)
+    if (huffman.linbits > 0 && cy === 15) writer.write(y - 15, huffman.linbits)
+    if (y !== 0) writer.write(negative(i + 1), 1)
+  }
+
+  for (let i = bigEnd; i < granule.count1End; i += 4) {
+    const index = values[i] * 8 + values[i + 1] * 4 + values[i + 2] * 2 + values[i + 3]
+    if (granule.count1Table === 0) {
+      writer.write(COUNT1_TABLE_A.codes[index], COUNT1_TABLE_A.lengths[index])
+    } else {
+      writer.write(15 - index, 4)
+    }
+    for (let j = i; j < i + 4; j++) {
+      if (values[j] !== 0) writer.write(negative(j), 1)
+    }
+  }
+}
+
+function writeFrame(bitrateIndex: number, padding: boolean, granules: GranuleCode[], spectrum: Float32Array, frame: number): Uint8Array {
+  const bytes = new Uint8Array(frameBytes(bitrateIndex, padding))
+  const writer = new BitWriter(bytes)
+  writeHeader(writer, bitrateIndex, padding)
+  writeSideInfo(writer, granules)
+  granules.forEach((granule, i) => writeMainData(writer, granule, spectrum, (frame * 2 + i) * GRANULE))
+  return bytes
+}
+
+function mainDataBits(bitrateIndex: number, padding: boolean): number {
+  return (frameBytes(bitrateIndex, padding) - HEADER_BYTES - SIDE_INFO_BYTES) * 8
+}
+
+function concat(frames: Uint8Array[]): Uint8Array {
+  const output = new Uint8Array(frames.reduce((sum, frame) => sum + frame.length, 0))
+  let offset = 0
+  for (const frame of frames) {
+    output.set(frame, offset)
+    offset += frame.length
+  }
+  return output
+}
+
+function encodeCbr(spectrum: Float32Array, magnitudes: Float32Array, frameCount: number, bitrateIndex: number): Uint8Array[] {
+  const frames: Uint8Array[] = []
+  // Padding slots keep the average frame length at exactly the nominal bitrate
+  const remainder = (144000 * BITRATES_KBPS[bitrateIndex]) % MP3_SAMPLE_RATE
+  let slack = 0
+
+  for (let frame = 0; frame < frameCount; frame++) {
+    slack += remainder
+    const padding = slack >= MP3_SAMPLE_RATE
+    if (padding) slack -= MP3_SAMPLE_RATE
+
+    const budget = mainDataBits(bitrateIndex, padding)
+    const first = fitGranule(magnitudes, frame * 2, Math.min(MAX_PART23_BITS, budget >> 1))
+    const second = fitGranule(magnitudes, frame * 2 + 1, Math.min(MAX_PART23_BITS, budget - first.bits))
+    frames.push(writeFrame(bitrateIndex, padding, [first, second], spectrum, frame))
+  }
+
+  return frames
+}
+
+/**
+ * Every frame shares one gain, so quality is constant and loud passages get the larger frames;
+ * the gain is the finest whose total size stays within the requested average bitrate
+ */
+function encodeVbr(spectrum: Float32Array, magnitudes: Float32Array, frameCount: number, averageIndex: number): Uint8Array[] {
+  const maxIndex = BITRATES_KBPS.length - 1
+  const targetBytes = frameCount * frameBytes(averageIndex, false)
+
+  const plan = (gain: number) => {
+    const frames: { bitrateIndex: number; granules: GranuleCode[] }[] = []
+    let bytes = 0
+    for (let frame = 0; frame < frameCount; frame++) {
+      let granules = [frame * 2, frame * 2 + 1].map(granule =>
+        codeGranule(magnitudes, granule, Math.max(gain, minimumGain(magnitudes, granule * GRANULE)))!
+      )
+      const needed = granules[0].bits + granules[1].bits
+      let bitrateIndex = 1
+      while (bitrateIndex < maxIndex && mainDataBits(bitrateIndex, false) < needed) bitrateIndex++
+
+      if (mainDataBits(bitrateIndex, false) < needed || granules.some(granule => granule.bits > MAX_PART23_BITS)) {
+        const budget = mainDataBits(maxIndex, false)
+        const first = fitGranule(magnitudes, frame * 2, Math.min(MAX_PART23_BITS, budget >> 1))
+        const second = fitGranule(magnitudes, frame * 2 + 1, Math.min(MAX_PART23_BITS, budget - first.bits))
+        granules = [first, second]
+        bitrateIndex = maxIndex
+      }
+
+      frames.push({ bitrateIndex, granules })
+      bytes += frameBytes(bitrateIndex, false)
+    }
+    return { frames, bytes }
+  }
+
+  let low = 0
+  let high = 255
+  while (low < high) {
+    const gain = (low + high) >> 1
+    if (plan(gain).bytes <= targetBytes) high = gain
+    else low = gain + 1
+  }
+
+  const { frames } = plan(low)
+  return frames.map(({ bitrateIndex, granules }, frame) => writeFrame(bitrateIndex, false, granules, spectrum, frame))
+}
+
+/**
+ * Leading frame of silence carrying a Xing header ("Info" for CBR) and LAME extension, so players report the right
+ * duration, can seek, and trim the encoder delay and final-frame padding for gapless playback
+ */
+function infoFrame(frames: Uint8Array[], streamIndex: number, mode: Mp3BitrateMode, length: number): Uint8Array {
+  // Low bitrates have frames too small for the tag, so it gets the smallest frame that fits
+  let bitrateIndex = streamIndex
+  while (frameBytes(bitrateIndex, false) < INFO_FRAME_BYTES) bitrateIndex++
+  const bytes = new Uint8Array(frameBytes(bitrateIndex, false))
+  writeHeader(new BitWriter(bytes), bitrateIndex, false)
+
+  const audioBytes = frames.reduce((sum, frame) => sum + frame.length, 0)
+  const totalBytes = bytes.length + audioBytes
+  const view = new DataView(bytes.buffer)
+  bytes.set(mode === 'vbr' ? [0x58, 0x69, 0x6e, 0x67] : [0x49, 0x6e, 0x66, 0x6f], XING_OFFSET) // "Xing" or "Info"
+  view.setUint32(XING_OFFSET + 4, XING_FLAGS)
+  view.setUint32(XING_OFFSET + 8, frames.length)
+  view.setUint32(XING_OFFSET + 12, totalBytes)
+
+  // Seek table: byte position, out of 256, at each percent of the duration
+  const offsets: number[] = []
+  let offset = bytes.length
+  for (const frame of frames) {
+    offsets.push(offset)
+    offset += frame.length
+  }
+  for (let percent = 0; percent < 100; percent++) {
+    const position = offsets[Math.min(frames.length - 1, Math.floor(percent / 100 * frames.length))] ?? 0
+    bytes[XING_OFFSET + 16 + percent] = Math.min(255, Math.floor(position / totalBytes * 256))
+  }
+  view.setUint32(XING_OFFSET + 116, 0) // quality, unused
+
+  // LAME extension; players only read its delay fields behind a LAME (or Lavc/Lavf) version string
+  bytes.set(Array.from('LAME3.100', char => char.charCodeAt(0)), LAME_OFFSET)
+  bytes[LAME_OFFSET + 9] = mode === 'vbr' ? 3 : 1 // tag revision 0; average or constant bitrate
+  bytes[LAME_OFFSET + 20] = Math.min(255, BITRATES_KBPS[streamIndex])
+  // 12 bits each: samples before the signal, and samples after it in the last frame
+  const padding = frames.length * 2 * GRANULE - ENCODER_DELAY - length
+  bytes[LAME_OFFSET + 21] = ENCODER_DELAY >> 4
+  bytes[LAME_OFFSET + 22] = ((ENCODER_DELAY & 0xf) << 4) | (padding >> 8)
+  bytes[LAME_OFFSET + 23] = padding & 0xff
+  view.setUint32(LAME_OFFSET + 28, totalBytes)
+  view.setUint16(LAME_OFFSET + 32, frames.reduce((crc, frame) => crc16(frame, crc), 0))
+  view.setUint16(LAME_OFFSET + 34, crc16(bytes.subarray(0, LAME_OFFSET + 34)))
+
+  return bytes
+}
+
+/**
+ * CRC-16/ARC (reflected 0x8005), which the LAME extension uses for its music and tag checksums
+ */
+function crc16(bytes: Uint8Array, crc = 0): number {
+  for (const byte of bytes) {
+    crc ^= byte
+    for (let bit = 0; bit < 8; bit++) crc = crc & 1 ? (crc >>> 1) ^ 0xa001 : crc >>> 1
+  }
+  return crc
+}
@@ -0,0 +1,194 @@
+/**
+ * OfflineSynthesisProvider - In-browser synthesis engine, no network required
+ */
+
+import type { SynthesisProvider, SynthesisRequest, SynthesisResult, SynthesisSegment, SynthesisVoice, TimedSpan } from '@/lib/synthesisProvider'
+import { getFormantVoice, normalizePeak, phonemeBoundaries, renderPhonemes, type FormantRenderOptions, type SynthPhoneme } from '@/lib/formantSynth'
+import { transcribe, type Phoneme } from '@/lib/g2p'
+import { groupSentences } from '@/lib/timings'
+import { getSpeakingStyle } from '@/lib/speakingStyles'
+import { createRandom, hashSeed } from '@/lib/random'
+
+const SAMPLE_RATE = 22050
+const MALE_VOICES = ['Marcus', 'James', 'Morgan', 'David', 'Benedict', 'Ryan', 'Samuel', 'Matthew', 'Keanu', 'Kai']
+const PAUSES: Record<string, number> = { ',': 200, ';': 300, ':': 300, '.': 450, '!': 450, '?': 450 }
+
+interface PhraseWord {
+  text: string
+  /** Index of the word's first phoneme within the phrase */
+  first: number
+  count: number
+}
+
+interface Phrase {
+  phonemes: SynthPhoneme[]
+  words: PhraseWord[]
+  endsSentence: boolean
+  pause: number
+  /** Explicit break in ms, not scaled by speaking rate */
+  hold?: number
+  question: boolean
+  rate: number
+  pitch: number
+  volume: number
+  style?: string
+}
+
+type PhraseProsody = Pick<Phrase, 'rate' | 'pitch' | 'volume' | 'style'>
+
+/**
+ * Infer a voice's gender from its display name
+ */
+export function getVoiceGender(voice: Pick<SynthesisVoice, 'name'>): 'male' | 'female' {
+  return MALE_VOICES.some(name => voice.name.includes(name)) ? 'male' : 'female'
+}
+
+export class OfflineSynthesisProvider implements SynthesisProvider {
+  readonly id = 'offline'
+  readonly label = 'Offline (in-browser)'
+  readonly rendersProsody = true
+
+  async synthesize({ text, voice, settings, segments, signal, onProgress }: SynthesisRequest): Promise<SynthesisResult> {
+    const phrases = segments ? segments.flatMap(segment => this.segmentToPhrases(segment)) : this.toPhrases(text)
+    const formantVoice = voice.profile || getFormantVoice(getVoiceGender(voice), voice.category)
+    const random = createRandom(settings.seed ?? hashSeed(text, voice.id, settings, segments))
+    const rendered: Float32Array[] = []
+    const words: TimedSpan[] = []
+    const sentenceEnds = new Set<number>()
+    let offset = 0
+
+    onProgress?.({ progress: 0, stage: 'rendering' })
+
+    for (let i = 0; i < phrases.length; i++) {
+      signal?.throwIfAborted()
+
+      const phrase = phrases[i]
+      const style = getSpeakingStyle(phrase.style ?? settings.style)
+      const speed = settings.speed * phrase.rate * style.rate
+      if (phrase.phonemes.length > 0) {
+        const options: FormantRenderOptions = {
+          sampleRate: SAMPLE_RATE,
+          voice: { ...formantVoice, breathiness: formantVoice.breathiness + style.breathiness },
+          speed,
+          pitch: settings.pitch * phrase.pitch * style.pitch,
+          question: phrase.question,
+          pitchRange: style.pitchRange,
+          voicing: style.voicing,
+          random
+        }
+        const samples = renderPhonemes(phrase.phonemes, options)
+        // Span volume is relative, so it is baked in before the utterance is peak-normalized
+        const volume = phrase.volume * style.energy
+        if (volume !== 1) {
+          for (let j = 0; j < samples.length; j++) samples[j] *= volume
+        }
+
+        const boundaries = phonemeBoundaries(phrase.phonemes, options)
+        for (const word of phrase.words) {
+          words.push({
+            text: word.text,
+            start: (offset + boundaries[word.first]) / SAMPLE_RATE,
+            end: (offset + boundaries[word.first + word.count]) / SAMPLE_RATE
+          })
+        }
+        if (phrase.endsSentence) sentenceEnds.add(words.length - 1)
+
+        rendered.push(samples)
+        offset += samples.length
+      }
+      const silence = new Float32Array(Math.round(SAMPLE_RATE * (phrase.pause / speed + (phrase.hold || 0)) / 1000))
+      rendered.push(silence)
+      offset += silence.length
+
+      onProgress?.({ progress: ((i + 1) / phrases.length) * 100, stage: 'rendering' })
+      // Yield so the UI can repaint between phrases
+      await new Promise(resolve => setTimeout(resolve, 0))
+    }
+
+    const samples = normalizePeak(concat(rendered), 0.9)
+
+    return {
+      samples,
+      sampleRate: SAMPLE_RATE,
+      duration: samples.length / SAMPLE_RATE,
+      words,
+      sentences: groupSentences(words, (_, index) => sentenceEnds.has(index))
+    }
+  }
+
+  /**
+   * Split text at punctuation into phrases, each rendered with its own intonation
+   */
+  private toPhrases(text: string, prosody: PhraseProsody = { rate: 1, pitch: 1, volume: 1 }): Phrase[] {
+    const phrases: Phrase[] = []
+    const pattern = /([^,;:.!?]+)([,;:.!?]*)/g
+    let match: RegExpExecArray | null
+
+    while ((match = pattern.exec(text)) !== null) {
+      const words = transcribe(match[1])
+      const punctuation = match[2].slice(-1)
+      if (words.length === 0) continue
+
+      let first = 0
+      phrases.push({
+        phonemes: words.flatMap(word => word.phonemes.map(toSynthPhoneme)),
+        words: words.map(word => {
+          const entry = { text: word.word, first, count: word.phonemes.length }
+          first += word.phonemes.length
+          return entry
+        }),
+        endsSentence: /[.!?]/.test(punctuation),
+        pause: PAUSES[punctuation] ?? 150,
+        question: punctuation === '?',
+        ...prosody
+      })
+    }
+
+    return phrases
+  }
+
+  /**
+   * Turn a marked-up span into phrases; explicit phonemes bypass grapheme-to-phoneme
+   */
+  private segmentToPhrases({ text, phonemes, rate, pitch, volume, pause, style }: SynthesisSegment): Phrase[] {
+    const prosody: PhraseProsody = { rate, pitch, volume, style }
+    const phrases: Phrase[] = phonemes
+      ? [{
+          phonemes: phonemes.map(toSynthPhoneme),
+          words: [{ text: text.trim(), first: 0, count: phonemes.length }],
+          endsSentence: false,
+          pause: 0,
+          question: false,
+          ...prosody
+        }]
+      : this.toPhrases(text, prosody)
+
+    // Phrases inside a span run together; only the span's own break and final punctuation pause
+    const last = phrases[phrases.length - 1]
+    if (!last) {
+      return pause ? [{ phonemes: [], words: [], endsSentence: false, pause: 0, hold: pause, question: false, ...prosody }] : []
+    }
+    if (!/[,;:.!?]\s*$/.test(text)) last.pause = 0
+    last.hold = pause
+
+    return phrases
+  }
+}
+
+/**
+ * Map CMUdict-style phonemes onto the synthesizer inventory (unstressed AH is a schwa)
+ */
+function toSynthPhoneme({ symbol, stress }: Phoneme): SynthPhoneme {
+  return { symbol: symbol === 'AH' && stress === 0 ? 'AX' : symbol, stress }
+}
+
+function concat(parts: Float32Array[]): Float32Array {
+  const total = parts.reduce((sum, part) => sum + part.length, 0)
+  const output = new Float32Array(total)
+  let offset = 0
+  for (const part of parts) {
+    output.set(part, offset)
+    offset += part.length
+  }
+  return output
+}
@@ -0,0 +1,112 @@
+import { describe, expect, it } from 'vitest'
+import { OggWriter } from '@/lib/ogg'
+
+interface ParsedPage {
+  flags: number
+  granule: bigint
+  serial: number
+  sequence: number
+  lacing: number[]
+  body: Uint8Array
+}
+
+function crc32(bytes: Uint8Array): number {
+  let crc = 0
+  for (const byte of bytes) {
+    crc ^= byte << 24
+    for (let bit = 0; bit < 8; bit++) crc = crc & 0x80000000 ? (crc << 1) ^ 0x04c11db7 : crc << 1
+  }
+  return crc >>> 0
+}
+
+function parsePages(bytes: Uint8Array): ParsedPage[] {
+  const pages: ParsedPage[] = []
+  let offset = 0
+  while (offset < bytes.length) {
+    const view = new DataView(bytes.buffer, bytes.byteOffset + offset)
+    expect(new TextDecoder().decode(bytes.subarray(offset, offset + 4))).toBe('OggS')
+    const segments = bytes[offset + 26]
+    const lacing = Array.from(bytes.subarray(offset + 27, offset + 27 + segments))
+    const length = 27 + segments + lacing.reduce((sum, value) => sum + value, 0)
+
+    const page = bytes.slice(offset, offset + length)
+    const checksum = view.getUint32(22, true)
+    page.fill(0, 22, 26)
+    expect(crc32(page)).toBe(checksum)
+
+    pages.push({
+      flags: bytes[offset + 5],
+      granule: view.getBigInt64(6, true),
+      serial: view.getUint32(14, true),
+      sequence: view.getUint32(18, true),
+      lacing,
+      body: bytes.subarray(offset + 27 + segments, offset + length)
+    })
+    offset += length
+  }
+  return pages
+}
+
+function packetsOf(pages: ParsedPage[]): Uint8Array[] {
+  const packets: Uint8Array[] = []
+  let pending: number[] = []
+  for (const page of pages) {
+    let offset = 0
+    for (const length of page.lacing) {
+      pending.push(...page.body.subarray(offset, offset + length))
+      offset += length
+      if (length < 255) {
+        packets.push(Uint8Array.from(pending))
+        pending = []
+      }
+    }
+  }
+  expect(pending).toEqual([])
+  return packets
+}
+
+const packet = (length: number, fill: number) => Uint8Array.from({ length }, (_, i) => (i * 31 + fill) & 0xff)
+
+describe('OggWriter', () => {
+  it('round-trips packets of every size, including ones that span pages', () => {
+    const input = [packet(19, 1), packet(0, 2), packet(255, 3), packet(510, 4), packet(70000, 5), ...Array.from({ length: 40 }, (_, i) => packet(200 + i, i))]
+    const ogg = new OggWriter(1234)
+    input.forEach((data, i) => ogg.addPacket(data, i * 960))
+    const pages = parsePages(ogg.finish())
+
+    expect(packetsOf(pages)).toEqual(input)
+    expect(pages.map(page => page.sequence)).toEqual(pages.map((_, i) => i))
+    expect(pages.every(page => page.serial === 1234)).toBe(true)
+    expect(pages[0].flags & 0x02).toBe(0x02)
+    expect(pages[pages.length - 1].flags & 0x04).toBe(0x04)
+    expect(pages[pages.length - 1].granule).toBe(BigInt((input.length - 1) * 960))
+  })
+
+  it('marks pages that continue a packet and leaves their granule unset when no packet ends', () => {
+    const ogg = new OggWriter(1)
+    ogg.addPacket(packet(255 * 300, 9), 960)
+    const pages = parsePages(ogg.finish())
+    expect(pages).toHaveLength(2)
+    expect(pages[0].granule).toBe(-1n)
+    expect(pages[1].flags & 0x01).toBe(0x01)
+    expect(pages[1].granule).toBe(960n)
+  })
+
+  it('starts a new page after flush', () => {
+    const ogg = new OggWriter(1)
+    ogg.addPacket(packet(19, 0), 0)
+    ogg.flush()
+    ogg.addPacket(packet(30, 0), 0)
+    expect(parsePages(ogg.finish()).map(page => page.lacing)).toEqual([[19], [30]])
+  })
+
+  it('writes identical bytes for identical input', () => {
+    const write = () => {
+      const ogg = new OggWriter(0xdeadbeef)
+      ogg.addPacket(packet(100, 0), 0)
+      ogg.addPacket(packet(5000, 1), 960)
+      return ogg.finish()
+    }
+    expect(write()).toEqual(write())
+  })
+})
@@ -0,0 +1,142 @@
+/**
+ * Ogg - Muxes codec packets into an Ogg bitstream (RFC 3533)
+ * Small packets share pages; one too large for a page, such as a header carrying cover art, continues on the next
+ */
+
+// Pages are closed around this size so players can seek without reading far
+const TARGET_PAGE_BYTES = 4096
+const MAX_SEGMENTS = 255
+const FLAG_CONTINUED = 0x01
+const FLAG_FIRST_PAGE = 0x02
+const FLAG_LAST_PAGE = 0x04
+
+interface OggPage {
+  lacing: number[]
+  body: Uint8Array[]
+  /** Granule position of the last packet that ends on the page; -1 when none does */
+  granule: number
+  /** The page opens with the rest of a packet begun on the previous page */
+  continued: boolean
+}
+
+const CRC_TABLE = createCrcTable()
+
+export class OggWriter {
+  private pages: OggPage[] = []
+  private current: OggPage = emptyPage(false)
+  private bytes = 0
+
+  /**
+   * Serial number of the logical stream; taken from the caller so identical input gives identical files
+   */
+  constructor(private serial: number) {}
+
+  /**
+   * Append a packet; granule is the stream position once it has been decoded
+   */
+  addPacket(data: Uint8Array, granule: number): void {
+    // A packet is cut into 255-byte segments and closed by a shorter one, possibly empty
+    const lacing = Array.from({ length: Math.floor(data.length / 255) + 1 }, (_, i) => Math.min(255, data.length - i * 255))
+    if (this.current.lacing.length > 0 && (this.current.lacing.length + lacing.length > MAX_SEGMENTS || this.bytes + data.length > TARGET_PAGE_BYTES)) {
+      this.flush()
+    }
+
+    let offset = 0
+    for (let i = 0; i < lacing.length; i++) {
+      if (this.current.lacing.length === MAX_SEGMENTS) {
+        this.pages.push(this.current)
+        this.current = emptyPage(true)
+        this.bytes = 0
+      }
+      this.current.lacing.push(lacing[i])
+      this.current.body.push(data.subarray(offset, offset + lacing[i]))
+      offset += lacing[i]
+      this.bytes += lacing[i]
+    }
+    this.current.granule = granule
+  }
+
+  /**
+   * Close the current page so the next packet starts a new one, as codec headers require
+   */
+  flush(): void {
+    if (this.current.lacing.length === 0) return
+    this.pages.push(this.current)
+    this.current = emptyPage(false)
+    this.bytes = 0
+  }
+
+  /**
+   * Serialize every page, marking the first and last
+   */
+  finish(): Uint8Array {
+    this.flush()
+    const encoded = this.pages.map((page, sequence) => this.encodePage(
+      page,
+      sequence,
+      (sequence === 0 ? FLAG_FIRST_PAGE : 0) | (sequence === this.pages.length - 1 ? FLAG_LAST_PAGE : 0)
+    ))
+
+    const output = new Uint8Array(encoded.reduce((total, page) => total + page.length, 0))
+    let offset = 0
+    for (const page of encoded) {
+      output.set(page, offset)
+      offset += page.length
+    }
+    return output
+  }
+
+  private encodePage(page: OggPage, sequence: number, flags: number): Uint8Array {
+    const bodyLength = page.lacing.reduce((total, length) => total + length, 0)
+    const bytes = new Uint8Array(27 + page.lacing.length + bodyLength)
+    const view = new DataView(bytes.buffer)
+
+    bytes.set([0x4f, 0x67, 0x67, 0x53]) // "OggS"
+    view.setUint8(4, 0) // version
+    view.setUint8(5, flags | (page.continued ? FLAG_CONTINUED : 0))
+    // Split into halves since bitwise operators stop at 32 bits; -1 comes out as all ones
+    view.setUint32(6, page.granule >>> 0, true)
+    view.setUint32(10, page.granule < 0 ? 0xffffffff : Math.floor(page.granule / 2 ** 32), true)
+    view.setUint32(14, this.serial, true)
+    view.setUint32(18, sequence, true)
+    view.setUint8(26, page.lacing.length)
+    bytes.set(page.lacing, 27)
+
+    let offset = 27 + page.lacing.length
+    for (const segment of page.body) {
+      bytes.set(segment, offset)
+      offset += segment.length
+    }
+
+    // The checksum is computed with its own field zeroed
+    view.setUint32(22, crc32(bytes), true)
+    return bytes
+  }
+}
+
+function emptyPage(continued: boolean): OggPage {
+  return { lacing: [], body: [], granule: -1, continued }
+}
+
+/**
+ * Ogg's CRC-32: polynomial 0x04c11db7, not reflected, zero initial value
+ */
+function crc32(bytes: Uint8Array): number {
+  let crc = 0
+  for (const byte of bytes) {
+    crc = (crc << 8) ^ CRC_TABLE[((crc >>> 24) ^ byte) & 0xff]
+  }
+  return crc >>> 0
+}
+
+function createCrcTable(): Uint32Array {
+  const table = new Uint32Array(256)
+  for (let i = 0; i < 256; i++) {
+    let value = i << 24
+    for (let bit = 0; bit < 8; bit++) {
+      value = value & 0x80000000 ? (value << 1) ^ 0x04c11db7 : value << 1
+    }
+    table[i] = value >>> 0
+  }
+  return table
+}
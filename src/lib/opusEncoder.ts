@@ -0,0 +1,179 @@
+/**
+ * OpusEncoder - Ogg Opus encoding of mono renders through the browser's WebCodecs AudioEncoder
+ * Packets come from the platform codec; this module resamples, drives the encoder and writes the Ogg Opus headers (RFC 7845)
+ */
+
+import { encodeVorbisComment, type AudioTags } from '@/lib/audioTags'
+import { OggWriter } from '@/lib/ogg'
+import { resample } from '@/lib/resample'
+
+export const OPUS_SAMPLE_RATE = 48000
+export const DEFAULT_OPUS_BITRATE = 64
+
+/** Download bitrate for each render quality; Opus needs far less than MP3 for the same result */
+export const OPUS_QUALITY_BITRATES: Record<string, number> = {
+  standard: 48,
+  high: 96,
+  premium: 128
+}
+
+export interface OpusOptions {
+  /** kbps */
+  bitrate: number
+  mode: 'cbr' | 'vbr'
+  /** Ogg stream serial number */
+  serial: number
+  /** Written as Vorbis comments in the OpusTags header */
+  tags?: AudioTags
+  signal?: AbortSignal
+}
+
+// libopus look-ahead at 48 kHz, used when the encoder does not report its own
+const DEFAULT_PRE_SKIP = 312
+const FRAME_DURATION_US = 20000
+// Audio is handed to the encoder a second at a time so cancellation is noticed quickly
+const FEED_FRAMES = OPUS_SAMPLE_RATE
+
+/**
+ * Bitrate an Opus download should use for a render quality
+ */
+export function opusBitrate(quality: string): number {
+  return OPUS_QUALITY_BITRATES[quality] ?? DEFAULT_OPUS_BITRATE
+}
+
+// Shown beside the Opus choice where isOpusSupported says no
+export const OPUS_UNSUPPORTED_REASON = 'Needs WebCodecs Opus encoding, which this browser lacks'
+
+let support: Promise<boolean> | null = null
+
+/**
+ * Whether this browser has an Opus AudioEncoder; checked once and remembered for the session
+ */
+export function isOpusSupported(): Promise<boolean> {
+  if (!support) {
+    support = typeof AudioEncoder === 'undefined'
+      ? Promise.resolve(false)
+      : AudioEncoder.isConfigSupported({ codec: 'opus', sampleRate: OPUS_SAMPLE_RATE, numberOfChannels: 1, bitrate: DEFAULT_OPUS_BITRATE * 1000 })
+        .then(({ supported }) => supported === true)
+        .catch(() => false)
+  }
+  return support
+}
+
+/**
+ * Encode mono PCM as an Ogg Opus file; fails where the browser has no Opus AudioEncoder
+ */
+export async function encodeOpus(samples: Float32Array, sampleRate: number, { bitrate, mode, serial, tags, signal }: OpusOptions): Promise<Uint8Array> {
+  if (typeof AudioEncoder === 'undefined') {
+    throw new Error('Opus export needs WebCodecs, which this browser does not support')
+  }
+
+  const config: AudioEncoderConfig = {
+    codec: 'opus',
+    sampleRate: OPUS_SAMPLE_RATE,
+    numberOfChannels: 1,
+    bitrate: bitrate * 1000,
+    bitrateMode: mode === 'vbr' ? 'variable' : 'constant',
+    opus: { frameDuration: FRAME_DURATION_US }
+  }
+  const { supported } = await AudioEncoder.isConfigSupported(config)
+  if (!supported) {
+    throw new Error('This browser cannot encode Opus')
+  }
+
+  const pcm = resample(samples, sampleRate, OPUS_SAMPLE_RATE)
+  const packets: { data: Uint8Array; frames: number }[] = []
+  let preSkip = DEFAULT_PRE_SKIP
+  let failure: unknown = null
+
+  const encoder = new AudioEncoder({
+    output: (chunk, metadata) => {
+      const data = new Uint8Array(chunk.byteLength)
+      chunk.copyTo(data)
+      packets.push({ data, frames: Math.round(((chunk.duration ?? FRAME_DURATION_US) * OPUS_SAMPLE_RATE) / 1e6) })
+      preSkip = readPreSkip(metadata?.decoderConfig?.description) ?? preSkip
+    },
+    error: (error) => {
+      failure = error
+    }
+  })
+
+  try {
+    encoder.configure(config)
+    for (let offset = 0; offset < pcm.length; offset += FEED_FRAMES) {
+      signal?.throwIfAborted()
+      const frames = pcm.subarray(offset, offset + FEED_FRAMES)
+      const data = new AudioData({
+        format: 'f32-planar',
+        sampleRate: OPUS_SAMPLE_RATE,
+        numberOfChannels: 1,
+        numberOfFrames: frames.length,
+        timestamp: Math.round((offset * 1e6) / OPUS_SAMPLE_RATE),
+        data: frames
+      })
+      encoder.encode(data)
+      data.close()
+    }
+    await encoder.flush()
+  } finally {
+    if (encoder.state !== 'closed') encoder.close()
+  }
+
+  if (failure) throw failure
+  signal?.throwIfAborted()
+
+  const ogg = new OggWriter(serial)
+  ogg.addPacket(opusHead(preSkip, sampleRate), 0)
+  ogg.flush()
+  ogg.addPacket(opusTags(tags), 0)
+  ogg.flush()
+
+  // The last granule position trims the encoder's padding so playback ends where the render does
+  const end = preSkip + pcm.length
+  let position = 0
+  for (const packet of packets) {
+    position += packet.frames
+    ogg.addPacket(packet.data, Math.min(position, end))
+  }
+
+  return ogg.finish()
+}
+
+/**
+ * Identification header: version, channel count, pre-skip, original rate, gain and mapping family
+ */
+function opusHead(preSkip: number, inputSampleRate: number): Uint8Array {
+  const bytes = new Uint8Array(19)
+  const view = new DataView(bytes.buffer)
+  bytes.set(new TextEncoder().encode('OpusHead'))
+  view.setUint8(8, 1)
+  view.setUint8(9, 1)
+  view.setUint16(10, preSkip, true)
+  view.setUint32(12, inputSampleRate, true)
+  view.setInt16(16, 0, true)
+  view.setUint8(18, 0)
+  return bytes
+}
+
+/**
+ * Comment header: the vendor string and the tags, cover art included, as Vorbis comments
+ */
+function opusTags(tags: AudioTags | undefined): Uint8Array {
+  const comment = encodeVorbisComment('VoiceForge Pro', tags, true)
+  const bytes = new Uint8Array(8 + comment.length)
+  bytes.set(new TextEncoder().encode('OpusTags'))
+  bytes.set(comment, 8)
+  return bytes
+}
+
+/**
+ * Pre-skip from an OpusHead the encoder reports as its decoder description, if it does
+ */
+function readPreSkip(description: AllowSharedBufferSource | undefined): number | null {
+  if (!description) return null
+  const bytes = ArrayBuffer.isView(description)
+    ? new Uint8Array(description.buffer, description.byteOffset, description.byteLength)
+    : new Uint8Array(description)
+  if (bytes.length < 12 || new TextDecoder().decode(bytes.subarray(0, 8)) !== 'OpusHead') return null
+  return bytes[10] | (bytes[11] << 8)
+}
@@ -0,0 +1,42 @@
+/**
+ * Random - Seeded pseudo-random numbers for reproducible rendering
+ * Same seed, same sequence: renders made from identical inputs come out byte-identical
+ */
+
+export type RandomSource = () => number
+
+export const MAX_SEED = 0xffffffff
+
+/**
+ * Mulberry32 generator returning floats in [0, 1)
+ */
+export function createRandom(seed: number): RandomSource {
+  let state = seed >>> 0
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0
+    let t = state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+/**
+ * Hash any mix of values into a 32-bit seed (FNV-1a over their JSON form)
+ */
+export function hashSeed(...parts: unknown[]): number {
+  const input = JSON.stringify(parts)
+  let hash = 0x811c9dc5
+  for (let i = 0; i < input.length; i++) {
+    hash ^= input.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return hash >>> 0
+}
+
+/**
+ * Seed for the index-th piece of a larger render, so chunks and turns do not share noise
+ */
+export function deriveSeed(seed: number, index: number): number {
+  return hashSeed(seed, index)
+}
@@ -0,0 +1,24 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { renderCacheKey } from '@/lib/renderCache'
+
+describe('renderCacheKey', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it('is a hex SHA-256 that depends on every input', async () => {
+    const key = await renderCacheKey({ text: 'Hello', voice: 'aria' })
+    expect(key).toMatch(/^[0-9a-f]{64}$/)
+    expect(await renderCacheKey({ text: 'Hello', voice: 'aria' })).toBe(key)
+    expect(await renderCacheKey({ text: 'Hello', voice: 'brian' })).not.toBe(key)
+  })
+
+  it('gives the same keys without crypto.subtle', async () => {
+    // Lengths around the 55- and 64-byte padding boundaries, and several blocks
+    const inputs = ['', 'a'.repeat(40), 'b'.repeat(41), 'c'.repeat(48), 'Déjà vu '.repeat(60), { settings: { rate: 1.1 }, spans: [1, 2, 3] }]
+    const keys = await Promise.all(inputs.map(renderCacheKey))
+
+    vi.stubGlobal('crypto', {})
+    expect(await Promise.all(inputs.map(renderCacheKey))).toEqual(keys)
+  })
+})
@@ -0,0 +1,221 @@
+/**
+ * RenderCache - Content-addressed store of finished renders in IndexedDB
+ * Keys hash everything that shapes the audio; least recently used renders are evicted past the size cap
+ */
+
+import { complete, openDatabase, request } from '@/lib/idb'
+import type { TimedSpan } from '@/lib/synthesisProvider'
+
+const DB_NAME = 'voiceforge-render-cache'
+const DB_VERSION = 1
+// Metadata and samples live apart so eviction can scan entries without loading audio
+const ENTRIES = 'entries'
+const AUDIO = 'audio'
+// Bump when an engine change makes earlier renders stale
+const CACHE_VERSION = 1
+
+export const DEFAULT_CACHE_LIMIT_MB = 200
+export const CACHE_LIMIT_OPTIONS_MB = [50, 200, 500, 1000]
+
+export interface CachedRender {
+  sampleRate: number
+  duration: number
+  loudness: { integrated: number; truePeak: number; target: number | null }
+  seed: number
+  words?: TimedSpan[]
+  sentences?: TimedSpan[]
+}
+
+interface CacheEntry extends CachedRender {
+  key: string
+  /** Bytes of sample data, counted against the size cap */
+  size: number
+  lastUsed: number
+}
+
+export interface CacheUsage {
+  entries: number
+  bytes: number
+  limitBytes: number
+}
+
+/**
+ * SHA-256 of the render inputs as hex; inputs must serialize deterministically
+ * Pages served over plain HTTP have no crypto.subtle, so keys are then hashed in script
+ */
+export async function renderCacheKey(inputs: unknown): Promise<string> {
+  const data = new TextEncoder().encode(JSON.stringify([CACHE_VERSION, inputs]))
+  const digest = globalThis.crypto?.subtle ? new Uint8Array(await crypto.subtle.digest('SHA-256', data)) : sha256(data)
+  return Array.from(digest, byte => byte.toString(16).padStart(2, '0')).join('')
+}
+
+const PRIMES = firstPrimes(64)
+// Fractional parts of the square roots of the first 8 primes, and of the cube roots of the first 64
+const SHA256_INITIAL = PRIMES.slice(0, 8).map(prime => Math.floor((Math.sqrt(prime) % 1) * 2 ** 32))
+const SHA256_CONSTANTS = PRIMES.map(prime => Math.floor((Math.cbrt(prime) % 1) * 2 ** 32))
+
+function firstPrimes(count: number): number[] {
+  const primes: number[] = []
+  for (let n = 2; primes.length < count; n++) {
+    if (primes.every(prime => n % prime !== 0)) primes.push(n)
+  }
+  return primes
+}
+
+/**
+ * SHA-256 for pages without crypto.subtle, matching its digest byte for byte
+ */
+function sha256(data: Uint8Array): Uint8Array {
+  // Message, a one bit, zero padding and the 64-bit bit length, in whole 64-byte blocks
+  const padded = new Uint8Array(Math.ceil((data.length + 9) / 64) * 64)
+  padded.set(data)
+  padded[data.length] = 0x80
+  const view = new DataView(padded.buffer)
+  view.setUint32(padded.length - 8, Math.floor(data.length / 2 ** 29))
+  view.setUint32(padded.length - 4, (data.length * 8) >>> 0)
+
+  const hash = Uint32Array.from(SHA256_INITIAL)
+  const words = new Uint32Array(64)
+  const rotate = (value: number, bits: number) => (value >>> bits) | (value << (32 - bits))
+  for (let offset = 0; offset < padded.length; offset += 64) {
+    for (let i = 0; i < 16; i++) words[i] = view.getUint32(offset + i * 4)
+    for (let i = 16; i < 64; i++) {
+      const s0 = rotate(words[i - 15], 7) ^ rotate(words[i - 15], 18) ^ (words[i - 15] >>> 3)
+      const s1 = rotate(words[i - 2], 17) ^ rotate(words[i - 2], 19) ^ (words[i - 2] >>> 10)
+      words[i] = words[i - 16] + s0 + words[i - 7] + s1
+    }
+
+    let [a, b, c, d, e, f, g, h] = hash
+    for (let i = 0; i < 64; i++) {
+      const t1 = h + (rotate(e, 6) ^ rotate(e, 11) ^ rotate(e, 25)) + ((e & f) ^ (~e & g)) + SHA256_CONSTANTS[i] + words[i]
+      const t2 = (rotate(a, 2) ^ rotate(a, 13) ^ rotate(a, 22)) + ((a & b) ^ (a & c) ^ (b & c))
+      h = g
+      g = f
+      f = e
+      e = (d + t1) >>> 0
+      d = c
+      c = b
+      b = a
+      a = (t1 + t2) >>> 0
+    }
+    const rounds = [a, b, c, d, e, f, g, h]
+    for (let i = 0; i < 8; i++) hash[i] += rounds[i]
+  }
+
+  const digest = new Uint8Array(32)
+  hash.forEach((value, i) => new DataView(digest.buffer).setUint32(i * 4, value))
+  return digest
+}
+
+export class RenderCache {
+  private static instance: RenderCache
+  private db: Promise<IDBDatabase> | null = null
+  private limitBytes = DEFAULT_CACHE_LIMIT_MB * 1024 * 1024
+
+  private constructor() {}
+
+  static getInstance(): RenderCache {
+    if (!RenderCache.instance) {
+      RenderCache.instance = new RenderCache()
+    }
+    return RenderCache.instance
+  }
+
+  async setLimit(megabytes: number): Promise<void> {
+    this.limitBytes = megabytes * 1024 * 1024
+    await this.evict()
+  }
+
+  /**
+   * Look up a render and mark it as recently used; storage errors count as a miss
+   */
+  async get(key: string): Promise<(CachedRender & { samples: Float32Array }) | null> {
+    try {
+      const db = await this.open()
+      const transaction = db.transaction([ENTRIES, AUDIO], 'readwrite')
+      const [entry, samples] = await Promise.all([
+        request<CacheEntry | undefined>(transaction.objectStore(ENTRIES).get(key)),
+        request<Float32Array | undefined>(transaction.objectStore(AUDIO).get(key))
+      ])
+      if (!entry || !samples) return null
+
+      transaction.objectStore(ENTRIES).put({ ...entry, lastUsed: Date.now() })
+      await complete(transaction)
+      return { ...entry, samples }
+    } catch (error) {
+      console.warn('Render cache lookup failed:', error)
+      return null
+    }
+  }
+
+  /**
+   * Store a render, then evict the least recently used ones past the size cap
+   */
+  async put(key: string, samples: Float32Array, render: CachedRender): Promise<void> {
+    // A render larger than the whole cache would only push everything else out
+    if (samples.byteLength > this.limitBytes) return
+
+    try {
+      const db = await this.open()
+      const transaction = db.transaction([ENTRIES, AUDIO], 'readwrite')
+      const entry: CacheEntry = { ...render, key, size: samples.byteLength, lastUsed: Date.now() }
+      transaction.objectStore(ENTRIES).put(entry)
+      // Copy so a view into a larger buffer does not store (or count) the whole buffer
+      transaction.objectStore(AUDIO).put(samples.slice(), key)
+      await complete(transaction)
+      await this.evict()
+    } catch (error) {
+      console.warn('Render cache write failed:', error)
+    }
+  }
+
+  async usage(): Promise<CacheUsage> {
+    const entries = await this.entries()
+    return { entries: entries.length, bytes: entries.reduce((sum, entry) => sum + entry.size, 0), limitBytes: this.limitBytes }
+  }
+
+  async clear(): Promise<void> {
+    const db = await this.open()
+    const transaction = db.transaction([ENTRIES, AUDIO], 'readwrite')
+    transaction.objectStore(ENTRIES).clear()
+    transaction.objectStore(AUDIO).clear()
+    await complete(transaction)
+  }
+
+  private async evict(): Promise<void> {
+    const entries = await this.entries()
+    let total = entries.reduce((sum, entry) => sum + entry.size, 0)
+    if (total <= this.limitBytes) return
+
+    const db = await this.open()
+    const transaction = db.transaction([ENTRIES, AUDIO], 'readwrite')
+    for (const entry of entries.sort((a, b) => a.lastUsed - b.lastUsed)) {
+      if (total <= this.limitBytes) break
+      transaction.objectStore(ENTRIES).delete(entry.key)
+      transaction.objectStore(AUDIO).delete(entry.key)
+      total -= entry.size
+    }
+    await complete(transaction)
+  }
+
+  private async entries(): Promise<CacheEntry[]> {
+    const db = await this.open()
+    return request<CacheEntry[]>(db.transaction(ENTRIES).objectStore(ENTRIES).getAll())
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.db) {
+      this.db = openDatabase(DB_NAME, DB_VERSION, db => {
+        db.createObjectStore(ENTRIES, { keyPath: 'key' })
+        db.createObjectStore(AUDIO)
+      }).catch(error => {
+        // Let the next call try again, e.g. after private browsing storage frees up
+        this.db = null
+        throw error
+      })
+    }
+    return this.db
+  }
+}
+
+export const renderCache = RenderCache.getInstance()
@@ -0,0 +1,53 @@
+/**
+ * Resample - Band-limited sample rate conversion
+ * Windowed-sinc interpolation with the cutoff lowered when converting down to avoid aliasing
+ */
+
+const HALF_TAPS = 16
+
+/**
+ * Convert mono PCM from one sample rate to another
+ */
+export function resample(samples: Float32Array, sourceRate: number, targetRate: number): Float32Array {
+  if (sourceRate === targetRate || samples.length === 0) {
+    return samples.slice()
+  }
+
+  const step = sourceRate / targetRate
+  const cutoff = Math.min(1, targetRate / sourceRate)
+  const output = new Float32Array(Math.max(1, Math.round(samples.length / step)))
+
+  for (let i = 0; i < output.length; i++) {
+    const position = i * step
+    const center = Math.floor(position)
+    let sum = 0
+    let weight = 0
+
+    for (let tap = -HALF_TAPS + 1; tap <= HALF_TAPS; tap++) {
+      const index = center + tap
+      if (index < 0 || index >= samples.length) continue
+
+      const distance = position - index
+      const w = sinc(distance * cutoff) * blackman(distance / HALF_TAPS)
+      sum += samples[index] * w
+      weight += w
+    }
+
+    // Normalizing by the kernel sum keeps DC gain at unity near the edges too
+    output[i] = weight !== 0 ? sum / weight : 0
+  }
+
+  return output
+}
+
+function sinc(x: number): number {
+  if (Math.abs(x) < 1e-9) return 1
+  const px = Math.PI * x
+  return Math.sin(px) / px
+}
+
+function blackman(x: number): number {
+  if (Math.abs(x) >= 1) return 0
+  const t = (x + 1) / 2
+  return 0.42 - 0.5 * Math.cos(2 * Math.PI * t) + 0.08 * Math.cos(4 * Math.PI * t)
+}
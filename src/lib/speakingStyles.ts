@@ -0,0 +1,43 @@
+/**
+ * SpeakingStyles - Named delivery presets mapped onto prosody parameters
+ * Each style scales the request's rate, pitch and volume and shapes the voice source
+ */
+
+export interface SpeakingStyle {
+  id: string
+  label: string
+  description: string
+  /** Speaking-rate multiplier */
+  rate: number
+  /** Mean F0 multiplier */
+  pitch: number
+  /** Scales intonation excursions: declination, pitch accents and the terminal fall/rise */
+  pitchRange: number
+  /** Loudness multiplier, relative to other spans in the same render */
+  energy: number
+  /** Extra aspiration noise mixed into the glottal pulse */
+  breathiness: number
+  /** Share of voicing kept; the rest becomes aspiration (0 is a whisper) */
+  voicing: number
+}
+
+export const DEFAULT_SPEAKING_STYLE = 'neutral'
+
+export const SPEAKING_STYLES: SpeakingStyle[] = [
+  { id: 'neutral', label: 'Neutral', description: 'Plain, even delivery', rate: 1, pitch: 1, pitchRange: 1, energy: 1, breathiness: 0, voicing: 1 },
+  { id: 'cheerful', label: 'Cheerful', description: 'Bright and lively, for marketing reads', rate: 1.08, pitch: 1.1, pitchRange: 1.6, energy: 1.15, breathiness: 0.02, voicing: 1 },
+  { id: 'serious', label: 'Serious', description: 'Measured and flat, for documentation', rate: 0.92, pitch: 0.92, pitchRange: 0.55, energy: 0.95, breathiness: 0, voicing: 1 },
+  { id: 'whisper', label: 'Whisper', description: 'Unvoiced and close', rate: 0.9, pitch: 1, pitchRange: 0.5, energy: 0.5, breathiness: 0.3, voicing: 0 },
+  { id: 'excited', label: 'Excited', description: 'Fast, high and wide-ranging', rate: 1.18, pitch: 1.2, pitchRange: 2, energy: 1.3, breathiness: 0.04, voicing: 1 }
+]
+
+/**
+ * Look up a style by id, falling back to neutral for unknown or missing ids
+ */
+export function getSpeakingStyle(id: string | undefined): SpeakingStyle {
+  return SPEAKING_STYLES.find(style => style.id === id) || SPEAKING_STYLES[0]
+}
+
+export function isSpeakingStyle(id: string): boolean {
+  return SPEAKING_STYLES.some(style => style.id === id)
+}
@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest'
+import { parseSsml, segmentsToText } from '@/lib/ssml'
+
+const spoken = (input: string, locale?: string) => segmentsToText(parseSsml(input, locale).segments).replace(/\s+/g, ' ').trim()
+const messages = (input: string) => parseSsml(input).errors.map(error => error.message)
+
+describe('parseSsml', () => {
+  it('requires a <speak> root', () => {
+    expect(messages('Hello there')).toEqual(['Text outside of <speak> element', 'SSML must be wrapped in a <speak> element'])
+  })
+
+  it('reports unclosed tags where they were opened', () => {
+    const { errors } = parseSsml('<speak>\n  <prosody rate="slow">Hello')
+    expect(errors).toEqual([
+      { message: 'Unclosed <prosody> tag', line: 2, column: 3 },
+      { message: 'Unclosed <speak> tag', line: 1, column: 1 }
+    ])
+  })
+
+  it('reports mismatched closing tags where they appear', () => {
+    const { errors } = parseSsml('<speak>\n  <prosody rate="slow">Hello\n</speak>')
+    expect(errors).toEqual([{ message: 'Expected </prosody> but found </speak>', line: 3, column: 1 }])
+  })
+
+  it('reports unsupported say-as values', () => {
+    expect(messages('<speak><say-as interpret-as="roman">XII</say-as></speak>')).toEqual(['Unsupported interpret-as value "roman"'])
+  })
+
+  it('reports a <phoneme> without ph', () => {
+    expect(messages('<speak><phoneme alphabet="ipa">tomato</phoneme></speak>')).toContain('<phoneme> requires a ph attribute')
+  })
+
+  describe('say-as ordinal', () => {
+    it('reads whole numbers, with or without grouping commas', () => {
+      expect(spoken('<speak><say-as interpret-as="ordinal">21</say-as></speak>')).toBe('twenty-first')
+      expect(spoken('<speak><say-as interpret-as="ordinal">1,000</say-as></speak>')).toBe('one thousandth')
+    })
+
+    it('rejects anything that is not a whole number', () => {
+      expect(messages('<speak><say-as interpret-as="ordinal">1.5</say-as></speak>')).toEqual(['Invalid ordinal "1.5"'])
+      expect(messages('<speak><say-as interpret-as="ordinal">first</say-as></speak>')).toEqual(['Invalid ordinal "first"'])
+      expect(spoken('<speak><say-as interpret-as="ordinal">1.5</say-as></speak>')).toBe('1.5')
+    })
+  })
+
+  it('normalizes say-as content for the voice locale', () => {
+    const date = '<speak><say-as interpret-as="date">03/04/2024</say-as></speak>'
+    expect(spoken(date, 'en-US')).toBe('March fourth, twenty twenty-four')
+    expect(spoken(date, 'en-GB')).toBe('April third, twenty twenty-four')
+    expect(spoken('<speak><say-as interpret-as="currency">12,50 €</say-as></speak>', 'fr-FR')).toBe('twelve euros and fifty cents')
+  })
+})
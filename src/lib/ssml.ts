@@ -0,0 +1,545 @@
+/**
+ * SSML - Parses the Speech Synthesis Markup Language subset the generator supports
+ * <speak>, <break>, <prosody>, <emphasis>, <say-as>, <phoneme>, <sub> (plus <p>/<s> for phrasing)
+ * and <express-as style="..."> (also as <mstts:express-as>) for speaking styles
+ */
+
+import type { SynthesisSegment } from '@/lib/synthesisProvider'
+import { parseArpabet, parseIpa, transcribe, type Phoneme } from '@/lib/g2p'
+import { LETTER_NAMES } from '@/lib/g2pLexicon'
+import { digitsToWords, normalizeText, numberToWords, ordinalToWords } from '@/lib/textNormalizer'
+import { isSpeakingStyle, SPEAKING_STYLES } from '@/lib/speakingStyles'
+
+export interface SsmlError {
+  message: string
+  line: number
+  column: number
+}
+
+export interface SsmlParseResult {
+  segments: SynthesisSegment[]
+  errors: SsmlError[]
+}
+
+interface Prosody {
+  rate: number
+  pitch: number
+  volume: number
+  style?: string
+}
+
+interface OpenElement {
+  name: string
+  line: number
+  column: number
+  prosody: Prosody
+  replacement?: string
+  phonemes?: Phoneme[]
+  sayAs?: string
+  text: string
+}
+
+const SUPPORTED_TAGS = new Set(['speak', 'break', 'prosody', 'emphasis', 'say-as', 'phoneme', 'sub', 'p', 's', 'express-as', 'mstts:express-as'])
+
+const RATE_KEYWORDS: Record<string, number> = { 'x-slow': 0.5, slow: 0.75, medium: 1, fast: 1.25, 'x-fast': 1.5, default: 1 }
+const PITCH_KEYWORDS: Record<string, number> = { 'x-low': 0.7, low: 0.85, medium: 1, high: 1.15, 'x-high': 1.3, default: 1 }
+const VOLUME_KEYWORDS: Record<string, number> = { silent: 0, 'x-soft': 0.35, soft: 0.6, medium: 1, loud: 1.4, 'x-loud': 1.8, default: 1 }
+const BREAK_STRENGTHS: Record<string, number> = { none: 0, 'x-weak': 100, weak: 200, medium: 400, strong: 700, 'x-strong': 1000 }
+const EMPHASIS: Record<string, Prosody> = {
+  strong: { rate: 0.85, pitch: 1.1, volume: 1.3 },
+  moderate: { rate: 0.92, pitch: 1.05, volume: 1.15 },
+  reduced: { rate: 1.1, pitch: 0.95, volume: 0.8 },
+  none: { rate: 1, pitch: 1, volume: 1 }
+}
+// Relative Hz changes are measured against a typical speaking pitch
+const REFERENCE_F0 = 150
+
+const ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" }
+
+class SsmlParser {
+  private index = 0
+  private line = 1
+  private column = 1
+  private errors: SsmlError[] = []
+  private segments: SynthesisSegment[] = []
+  private stack: OpenElement[] = []
+  private sawRoot = false
+
+  // Locale of the voice, so say-as content reads numbers, dates and currency the way the plain-text path does
+  constructor(private input: string, private locale?: string) {}
+
+  parse(): SsmlParseResult {
+    while (this.index < this.input.length) {
+      if (this.input.startsWith('<!--', this.index)) {
+        this.skipComment()
+      } else if (this.input.startsWith('<?', this.index)) {
+        this.skipUntil('?>')
+      } else if (this.input[this.index] === '<') {
+        this.readTag()
+      } else {
+        this.readText()
+      }
+    }
+
+    for (const element of this.stack.reverse()) {
+      this.error(`Unclosed <${element.name}> tag`, element.line, element.column)
+    }
+    if (!this.sawRoot) {
+      this.error('SSML must be wrapped in a <speak> element', 1, 1)
+    }
+
+    return { segments: this.segments, errors: this.errors }
+  }
+
+  private get current(): OpenElement | undefined {
+    return this.stack[this.stack.length - 1]
+  }
+
+  private error(message: string, line = this.line, column = this.column): void {
+    this.errors.push({ message, line, column })
+  }
+
+  private advance(count: number): void {
+    for (let i = 0; i < count && this.index < this.input.length; i++) {
+      if (this.input[this.index] === '\n') {
+        this.line++
+        this.column = 1
+      } else {
+        this.column++
+      }
+      this.index++
+    }
+  }
+
+  private skipComment(): void {
+    const line = this.line
+    const column = this.column
+    const end = this.input.indexOf('-->', this.index + 4)
+    if (end < 0) {
+      this.error('Unterminated comment', line, column)
+      this.advance(this.input.length - this.index)
+      return
+    }
+    this.advance(end + 3 - this.index)
+  }
+
+  private skipUntil(terminator: string): void {
+    const end = this.input.indexOf(terminator, this.index)
+    this.advance(end < 0 ? this.input.length - this.index : end + terminator.length - this.index)
+  }
+
+  private readText(): void {
+    const line = this.line
+    const column = this.column
+    const next = this.input.indexOf('<', this.index)
+    const end = next < 0 ? this.input.length : next
+    const raw = this.input.slice(this.index, end)
+    this.advance(end - this.index)
+
+    const text = this.decodeEntities(raw, line, column)
+    if (!text.trim()) return
+
+    if (!this.current) {
+      this.error('Text outside of <speak> element', line, column)
+      return
+    }
+
+    // Text inside <sub>, <phoneme> and <say-as> is collected and spoken when the tag closes
+    const collector = [...this.stack].reverse().find(e => e.name === 'sub' || e.name === 'phoneme' || e.name === 'say-as')
+    if (collector) {
+      collector.text += text
+      return
+    }
+
+    this.pushSpeech(text, this.current.prosody)
+  }
+
+  private decodeEntities(text: string, line: number, column: number): string {
+    return text.replace(/&(#x[0-9a-f]+|#\d+|\w+);?/gi, (match, entity: string) => {
+      if (entity.startsWith('#')) {
+        const codePoint = entity[1] === 'x' || entity[1] === 'X' ? parseInt(entity.slice(2), 16) : Number(entity.slice(1))
+        // fromCodePoint throws past the Unicode range, and surrogates are not characters on their own
+        if (codePoint > 0x10ffff || (codePoint >= 0xd800 && codePoint <= 0xdfff)) {
+          this.error(`Invalid character reference "${match}"`, line, column)
+          return ' '
+        }
+        return String.fromCodePoint(codePoint)
+      }
+      if (ENTITIES[entity] && match.endsWith(';')) return ENTITIES[entity]
+      this.error(`Invalid entity "${match}"`, line, column)
+      return ' '
+    })
+  }
+
+  private readTag(): void {
+    const line = this.line
+    const column = this.column
+    const end = this.findTagEnd()
+
+    if (end < 0) {
+      this.error('Unterminated tag', line, column)
+      this.advance(this.input.length - this.index)
+      return
+    }
+
+    const raw = this.input.slice(this.index + 1, end)
+    this.advance(end + 1 - this.index)
+
+    if (raw.startsWith('/')) {
+      this.closeTag(raw.slice(1).trim(), line, column)
+      return
+    }
+
+    const selfClosing = raw.endsWith('/')
+    const body = selfClosing ? raw.slice(0, -1) : raw
+    const nameMatch = body.match(/^\s*([A-Za-z][\w:-]*)/)
+    if (!nameMatch) {
+      this.error('Malformed tag', line, column)
+      return
+    }
+
+    const name = nameMatch[1]
+    const attributes = this.parseAttributes(body.slice(nameMatch[0].length), line, column)
+    if (!attributes) return
+
+    this.openTag(name, attributes, selfClosing, line, column)
+  }
+
+  private findTagEnd(): number {
+    let quote = ''
+    for (let i = this.index + 1; i < this.input.length; i++) {
+      const char = this.input[i]
+      if (quote) {
+        if (char === quote) quote = ''
+      } else if (char === '"' || char === "'") {
+        quote = char
+      } else if (char === '>') {
+        return i
+      } else if (char === '<') {
+        return -1
+      }
+    }
+    return -1
+  }
+
+  private parseAttributes(source: string, line: number, column: number): Record<string, string> | null {
+    const attributes: Record<string, string> = {}
+    const pattern = /\s*([A-Za-z_:][\w:.-]*)\s*=\s*("([^"]*)"|'([^']*)')/y
+    let position = 0
+
+    while (position < source.length) {
+      if (!source.slice(position).trim()) break
+      pattern.lastIndex = position
+      const match = pattern.exec(source)
+      if (!match) {
+        this.error(`Malformed attribute near "${source.slice(position).trim().slice(0, 20)}"`, line, column)
+        return null
+      }
+      if (match[1] in attributes) {
+        this.error(`Duplicate attribute "${match[1]}"`, line, column)
+      }
+      attributes[match[1]] = this.decodeEntities(match[3] ?? match[4], line, column)
+      position = pattern.lastIndex
+    }
+
+    return attributes
+  }
+
+  private openTag(name: string, attributes: Record<string, string>, selfClosing: boolean, line: number, column: number): void {
+    if (!SUPPORTED_TAGS.has(name)) {
+      this.error(`Unsupported element <${name}>`, line, column)
+    }
+
+    if (name === 'speak') {
+      if (this.stack.length > 0 || this.sawRoot) {
+        this.error('<speak> must be the single root element', line, column)
+      }
+      this.sawRoot = true
+    } else if (!this.current) {
+      this.error(`<${name}> must appear inside <speak>`, line, column)
+    }
+
+    const parent = this.current?.prosody || { rate: 1, pitch: 1, volume: 1 }
+    const element: OpenElement = { name, line, column, prosody: { ...parent }, text: '' }
+
+    switch (name) {
+      case 'break':
+        this.addBreak(attributes, line, column)
+        if (!selfClosing) {
+          this.stack.push(element)
+        }
+        return
+      case 'prosody':
+        element.prosody = {
+          ...parent,
+          rate: parent.rate * this.parseRelative(attributes.rate, RATE_KEYWORDS, 'rate', line, column),
+          pitch: parent.pitch * this.parsePitch(attributes.pitch, line, column),
+          volume: parent.volume * this.parseVolume(attributes.volume, line, column)
+        }
+        break
+      case 'express-as':
+      case 'mstts:express-as': {
+        const style = attributes.style?.trim().toLowerCase()
+        if (!style) {
+          this.error(`<${name}> requires a style attribute`, line, column)
+        } else if (!isSpeakingStyle(style)) {
+          this.error(`Unknown style "${attributes.style}" (expected ${SPEAKING_STYLES.map(option => option.id).join(', ')})`, line, column)
+        } else {
+          element.prosody = { ...parent, style }
+        }
+        break
+      }
+      case 'emphasis': {
+        const level = attributes.level || 'moderate'
+        const emphasis = EMPHASIS[level]
+        if (!emphasis) {
+          this.error(`Invalid emphasis level "${level}"`, line, column)
+        } else {
+          element.prosody = {
+            ...parent,
+            rate: parent.rate * emphasis.rate,
+            pitch: parent.pitch * emphasis.pitch,
+            volume: parent.volume * emphasis.volume
+          }
+        }
+        break
+      }
+      case 'say-as':
+        if (!attributes['interpret-as']) {
+          this.error('<say-as> requires an interpret-as attribute', line, column)
+        }
+        element.sayAs = attributes['interpret-as']
+        break
+      case 'phoneme':
+        element.phonemes = this.parsePhonemeAttribute(attributes, line, column)
+        break
+      case 'sub':
+        if (attributes.alias === undefined) {
+          this.error('<sub> requires an alias attribute', line, column)
+        }
+        element.replacement = attributes.alias
+        break
+    }
+
+    if (!selfClosing) {
+      this.stack.push(element)
+    } else if (name === 'sub' && element.replacement) {
+      this.pushSpeech(element.replacement, element.prosody)
+    }
+  }
+
+  private closeTag(name: string, line: number, column: number): void {
+    const element = this.current
+    if (!element) {
+      this.error(`Unexpected closing tag </${name}>`, line, column)
+      return
+    }
+    if (element.name !== name) {
+      this.error(`Expected </${element.name}> but found </${name}>`, line, column)
+      // Recover by closing up to the matching element if it is open further out
+      const depth = this.stack.map(e => e.name).lastIndexOf(name)
+      if (depth < 0) return
+      this.stack.length = depth + 1
+    }
+
+    const closed = this.stack.pop()!
+
+    switch (closed.name) {
+      case 'sub':
+        if (closed.replacement) this.pushSpeech(closed.replacement, closed.prosody)
+        break
+      case 'phoneme':
+        if (closed.phonemes && closed.phonemes.length > 0) {
+          this.segments.push({ text: closed.text.trim(), phonemes: closed.phonemes, ...closed.prosody })
+        } else if (closed.text.trim()) {
+          this.pushSpeech(closed.text, closed.prosody)
+        }
+        break
+      case 'say-as':
+        this.pushSayAs(closed, line, column)
+        break
+      // The break follows the paragraph or sentence; a paragraph's break takes in that of its last sentence
+      case 'p':
+      case 's':
+        this.extendPause(closed.name === 'p' ? 600 : 300)
+        break
+    }
+  }
+
+  private pushSpeech(text: string, prosody: Prosody): void {
+    const previous = this.segments[this.segments.length - 1]
+    if (previous && !previous.phonemes && !previous.pause && sameProsody(previous, prosody)) {
+      previous.text += text
+      return
+    }
+    this.segments.push({ text, ...prosody })
+  }
+
+  private pushSayAs(element: OpenElement, line: number, column: number): void {
+    const content = element.text.trim()
+    if (!content) return
+
+    switch (element.sayAs) {
+      case 'characters':
+      case 'spell-out': {
+        const phonemes = content.toLowerCase().split('').flatMap(char => {
+          if (LETTER_NAMES[char]) return parseArpabet(LETTER_NAMES[char])
+          if (/\d/.test(char)) return transcribe(digitsToWords(char)).flatMap(word => word.phonemes)
+          return []
+        })
+        this.segments.push({ text: content, phonemes, ...element.prosody })
+        return
+      }
+      case 'cardinal':
+      case 'number': {
+        const digits = content.replace(/,/g, '')
+        this.pushSpeech(` ${/^\d+$/.test(digits) ? numberToWords(digits) : normalizeText(content, this.locale)} `, element.prosody)
+        return
+      }
+      case 'ordinal': {
+        const digits = content.replace(/,/g, '')
+        if (!/^\d+$/.test(digits)) {
+          this.error(`Invalid ordinal "${content}"`, line, column)
+          this.pushSpeech(content, element.prosody)
+          return
+        }
+        this.pushSpeech(` ${ordinalToWords(digits)} `, element.prosody)
+        return
+      }
+      case 'digits':
+      case 'telephone':
+        this.pushSpeech(` ${element.sayAs === 'digits' ? digitsToWords(content) : normalizeText(content, this.locale)} `, element.prosody)
+        return
+      case 'date':
+      case 'time':
+      case 'currency':
+      case 'unit':
+        this.pushSpeech(` ${normalizeText(content, this.locale)} `, element.prosody)
+        return
+      default:
+        this.error(`Unsupported interpret-as value "${element.sayAs}"`, line, column)
+        this.pushSpeech(content, element.prosody)
+    }
+  }
+
+  private parsePhonemeAttribute(attributes: Record<string, string>, line: number, column: number): Phoneme[] | undefined {
+    const alphabet = (attributes.alphabet || 'ipa').toLowerCase()
+    if (!attributes.ph) {
+      this.error('<phoneme> requires a ph attribute', line, column)
+      return undefined
+    }
+
+    try {
+      if (alphabet === 'ipa') return parseIpa(attributes.ph)
+      if (alphabet === 'x-arpabet' || alphabet === 'arpabet' || alphabet === 'x-cmu') return parseArpabet(attributes.ph)
+      this.error(`Unsupported phoneme alphabet "${alphabet}"`, line, column)
+    } catch (error) {
+      this.error(error instanceof Error ? error.message : 'Invalid pronunciation', line, column)
+    }
+    return undefined
+  }
+
+  private addBreak(attributes: Record<string, string>, line: number, column: number): void {
+    let duration = BREAK_STRENGTHS.medium
+
+    if (attributes.time !== undefined) {
+      const match = attributes.time.trim().match(/^(\d+(?:\.\d+)?)\s*(ms|s)$/i)
+      if (!match) {
+        this.error(`Invalid break time "${attributes.time}" (use e.g. 500ms or 1.5s)`, line, column)
+        return
+      }
+      duration = Number(match[1]) * (match[2].toLowerCase() === 's' ? 1000 : 1)
+      if (duration > 10000) {
+        this.error('Break time cannot exceed 10s', line, column)
+        duration = 10000
+      }
+    } else if (attributes.strength !== undefined) {
+      if (!(attributes.strength in BREAK_STRENGTHS)) {
+        this.error(`Invalid break strength "${attributes.strength}"`, line, column)
+        return
+      }
+      duration = BREAK_STRENGTHS[attributes.strength]
+    }
+
+    this.addPause(duration)
+  }
+
+  private addPause(duration: number): void {
+    const previous = this.segments[this.segments.length - 1]
+    if (previous) {
+      previous.pause = (previous.pause || 0) + duration
+    } else {
+      this.segments.push({ text: '', rate: 1, pitch: 1, volume: 1, pause: duration })
+    }
+  }
+
+  /**
+   * Make the pause after the last segment at least duration long
+   */
+  private extendPause(duration: number): void {
+    const previous = this.segments[this.segments.length - 1]
+    if (!previous) return
+    previous.pause = Math.max(previous.pause || 0, duration)
+  }
+
+  private parseRelative(value: string | undefined, keywords: Record<string, number>, attribute: string, line: number, column: number): number {
+    if (value === undefined) return 1
+    const trimmed = value.trim().toLowerCase()
+    if (trimmed in keywords) return keywords[trimmed]
+
+    const percent = trimmed.match(/^([+-]?\d+(?:\.\d+)?)%$/)
+    if (percent) {
+      // "+10%" is relative; a bare "80%" is an absolute fraction of the default
+      const amount = Number(percent[1])
+      return Math.max(0.1, /^[+-]/.test(trimmed) ? 1 + amount / 100 : amount / 100)
+    }
+
+    const number = Number(trimmed)
+    if (trimmed && Number.isFinite(number) && number > 0) return number
+
+    this.error(`Invalid ${attribute} "${value}"`, line, column)
+    return 1
+  }
+
+  private parsePitch(value: string | undefined, line: number, column: number): number {
+    if (value === undefined) return 1
+    const trimmed = value.trim().toLowerCase()
+
+    const semitones = trimmed.match(/^([+-]?\d+(?:\.\d+)?)st$/)
+    if (semitones) return Math.pow(2, Number(semitones[1]) / 12)
+
+    const hertz = trimmed.match(/^([+-]\d+(?:\.\d+)?)hz$/)
+    if (hertz) return Math.max(0.25, 1 + Number(hertz[1]) / REFERENCE_F0)
+
+    return this.parseRelative(value, PITCH_KEYWORDS, 'pitch', line, column)
+  }
+
+  private parseVolume(value: string | undefined, line: number, column: number): number {
+    if (value === undefined) return 1
+    const trimmed = value.trim().toLowerCase()
+
+    const decibels = trimmed.match(/^([+-]?\d+(?:\.\d+)?)db$/)
+    if (decibels) return Math.pow(10, Number(decibels[1]) / 20)
+
+    return this.parseRelative(value, VOLUME_KEYWORDS, 'volume', line, column)
+  }
+}
+
+function sameProsody(a: Prosody, b: Prosody): boolean {
+  return a.rate === b.rate && a.pitch === b.pitch && a.volume === b.volume && a.style === b.style
+}
+
+/**
+ * Parse SSML into prosody segments, collecting every validation error with its position
+ * say-as content is normalized for the given voice locale
+ */
+export function parseSsml(input: string, locale?: string): SsmlParseResult {
+  return new SsmlParser(input, locale).parse()
+}
+
+/**
+ * Plain-text reading of parsed segments, for history and display
+ */
+export function segmentsToText(segments: SynthesisSegment[]): string {
+  return segments.map(segment => segment.text).join(' ').replace(/\s+/g, ' ').trim()
+}
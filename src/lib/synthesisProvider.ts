@@ -0,0 +1,140 @@
+/**
+ * SynthesisProvider - Pluggable text-to-speech backends
+ * Lets the app swap between the offline engine and a remote HTTP engine
+ */
+
+import { OfflineSynthesisProvider } from '@/lib/offlineSynthesis'
+import { HttpSynthesisProvider } from '@/lib/httpSynthesis'
+import { WorkerSynthesisProvider } from '@/lib/workerSynthesis'
+import type { Phoneme } from '@/lib/g2p'
+import type { VoiceProfile } from '@/lib/voiceCloning'
+
+export interface SynthesisVoice {
+  id: string
+  name: string
+  category: string
+  /** Measured characteristics of a cloned voice */
+  profile?: VoiceProfile
+}
+
+export interface SynthesisSettings {
+  quality: string
+  speed: number
+  pitch: number
+  volume: number
+  /** Integrated loudness target in LUFS applied before export; null keeps the engine level */
+  loudnessTarget?: number | null
+  /** Speaking style id (see speakingStyles); neutral when unset */
+  style?: string
+  /** Seed for every random choice the engine makes; derived from the request when unset */
+  seed?: number
+  /** Constant or variable bitrate for MP3 and Opus downloads; does not change the render */
+  bitrateMode?: 'cbr' | 'vbr'
+  /** Download format the take starts out with; does not change the render */
+  exportFormat?: 'mp3' | 'wav' | 'opus' | 'flac'
+}
+
+/**
+ * Settings with the download-only choices removed, for anything that should only follow the audio itself
+ */
+export function renderOnlySettings(settings: SynthesisSettings): SynthesisSettings {
+  return { ...settings, bitrateMode: undefined, exportFormat: undefined }
+}
+
+/**
+ * A stretch of input with its own prosody, relative to the request settings
+ */
+export interface SynthesisSegment {
+  text: string
+  phonemes?: Phoneme[]
+  rate: number
+  pitch: number
+  volume: number
+  pause?: number
+  /** Speaking style for this span, overriding the request's style */
+  style?: string
+}
+
+export interface SynthesisProgress {
+  progress: number
+  stage: string
+}
+
+export interface SynthesisRequest {
+  text: string
+  voice: SynthesisVoice
+  settings: SynthesisSettings
+  segments?: SynthesisSegment[]
+  signal?: AbortSignal
+  onProgress?: (event: SynthesisProgress) => void
+}
+
+/**
+ * A word or sentence and where it falls in the rendered audio, in seconds
+ */
+export interface TimedSpan {
+  text: string
+  start: number
+  end: number
+}
+
+export interface SynthesisResult {
+  samples: Float32Array
+  sampleRate: number
+  duration: number
+  /** Engines that cannot report timings leave these out and the pipeline estimates them */
+  words?: TimedSpan[]
+  sentences?: TimedSpan[]
+}
+
+export interface SynthesisProvider {
+  readonly id: string
+  readonly label: string
+  /** Whether speed and pitch are rendered natively; otherwise they are applied afterwards by DSP */
+  readonly rendersProsody: boolean
+  synthesize(request: SynthesisRequest): Promise<SynthesisResult>
+}
+
+export class SynthesisRegistry {
+  private providers: Map<string, SynthesisProvider> = new Map()
+
+  /**
+   * Register a provider, replacing any existing one with the same id
+   */
+  register(provider: SynthesisProvider): void {
+    this.providers.set(provider.id, provider)
+  }
+
+  /**
+   * Look up a provider by id
+   */
+  get(id: string): SynthesisProvider | null {
+    return this.providers.get(id) || null
+  }
+
+  /**
+   * Look up a provider by id, failing loudly if it was never registered
+   */
+  require(id: string): SynthesisProvider {
+    const provider = this.get(id)
+    if (!provider) {
+      throw new Error(`Unknown synthesis provider: ${id}`)
+    }
+    return provider
+  }
+
+  /**
+   * List all registered providers in registration order
+   */
+  list(): SynthesisProvider[] {
+    return Array.from(this.providers.values())
+  }
+}
+
+export const offlineProvider = new OfflineSynthesisProvider()
+export const httpProvider = new HttpSynthesisProvider()
+
+export const synthesisRegistry = new SynthesisRegistry()
+// In the browser the offline engine runs on the worker pool under the same id
+synthesisRegistry.register(typeof Worker === 'undefined' ? offlineProvider : new WorkerSynthesisProvider())
+synthesisRegistry.register(httpProvider)
@@ -0,0 +1,84 @@
+/**
+ * TakeStore - Audio of the takes in generation history, kept in IndexedDB
+ * History itself stays in localStorage with metadata only, so long takes do not exhaust its few megabytes
+ */
+
+import { complete, openDatabase, request } from '@/lib/idb'
+
+const DB_NAME = 'voiceforge-takes'
+const DB_VERSION = 1
+// WAV files keyed by the id of their history entry
+const AUDIO = 'audio'
+
+export class TakeStore {
+  private static instance: TakeStore
+  private db: Promise<IDBDatabase> | null = null
+  // Object URLs handed out for playback, revoked when their take is deleted
+  private urls = new Map<string, string>()
+
+  private constructor() {}
+
+  static getInstance(): TakeStore {
+    if (!TakeStore.instance) {
+      TakeStore.instance = new TakeStore()
+    }
+    return TakeStore.instance
+  }
+
+  async put(id: string, wav: ArrayBuffer): Promise<void> {
+    const db = await this.open()
+    const transaction = db.transaction(AUDIO, 'readwrite')
+    transaction.objectStore(AUDIO).put(wav, id)
+    await complete(transaction)
+  }
+
+  /**
+   * A take's WAV file, or null when it is no longer stored
+   */
+  async get(id: string): Promise<ArrayBuffer | null> {
+    const db = await this.open()
+    const wav = await request<ArrayBuffer | undefined>(db.transaction(AUDIO).objectStore(AUDIO).get(id))
+    return wav ?? null
+  }
+
+  /**
+   * Playable URL for a take, created on first use and kept for the session
+   */
+  async url(id: string): Promise<string | null> {
+    const remembered = this.urls.get(id)
+    if (remembered) return remembered
+
+    const wav = await this.get(id)
+    if (!wav) return null
+    const url = URL.createObjectURL(new Blob([wav], { type: 'audio/wav' }))
+    this.urls.set(id, url)
+    return url
+  }
+
+  async delete(id: string): Promise<void> {
+    const url = this.urls.get(id)
+    if (url) {
+      URL.revokeObjectURL(url)
+      this.urls.delete(id)
+    }
+
+    const db = await this.open()
+    const transaction = db.transaction(AUDIO, 'readwrite')
+    transaction.objectStore(AUDIO).delete(id)
+    await complete(transaction)
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.db) {
+      this.db = openDatabase(DB_NAME, DB_VERSION, db => {
+        db.createObjectStore(AUDIO)
+      }).catch(error => {
+        this.db = null
+        throw error
+      })
+    }
+    return this.db
+  }
+}
+
+export const takeStore = TakeStore.getInstance()
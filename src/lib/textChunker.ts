@@ -0,0 +1,120 @@
+/**
+ * TextChunker - Splits long documents into synthesis-sized pieces
+ * Breaks at paragraphs first, then sentences, and only falls back to words for run-on text
+ */
+
+import type { SynthesisSegment } from '@/lib/synthesisProvider'
+
+export const DEFAULT_CHUNK_SIZE = 1000
+
+export interface TextChunk {
+  text: string
+  segments?: SynthesisSegment[]
+  /** The chunk closes a paragraph, so a longer gap follows it */
+  paragraphEnd: boolean
+}
+
+/**
+ * Split on sentence-final punctuation, keeping closing quotes and brackets with their sentence
+ */
+export function splitSentences(paragraph: string): string[] {
+  const sentences = paragraph.match(/[^.!?…]+(?:[.!?…]+["')\]”’]*|$)\s*/g) || []
+  const merged: string[] = []
+
+  for (const sentence of sentences) {
+    // Rejoin splits after single initials and common abbreviations ("Dr. Smith", "J. R. R.")
+    const previous = merged[merged.length - 1]
+    if (previous && /(?:\b[A-Z]|\b(?:Mr|Mrs|Ms|Dr|Prof|St|Sr|Jr|vs|etc|e\.g|i\.e|No))\.\s*$/.test(previous)) {
+      merged[merged.length - 1] = previous + sentence
+    } else {
+      merged.push(sentence)
+    }
+  }
+
+  return merged.map(sentence => sentence.trim()).filter(Boolean)
+}
+
+/**
+ * Break text into chunks of at most maxChars, never splitting inside a sentence unless it is too long on its own
+ */
+export function chunkText(text: string, maxChars = DEFAULT_CHUNK_SIZE): TextChunk[] {
+  const chunks: TextChunk[] = []
+  const paragraphs = text.split(/\n\s*\n/).map(p => p.replace(/\s+/g, ' ').trim()).filter(Boolean)
+
+  for (const paragraph of paragraphs) {
+    let current = ''
+
+    for (const sentence of splitSentences(paragraph)) {
+      for (const piece of splitLongSentence(sentence, maxChars)) {
+        if (current && current.length + piece.length + 1 > maxChars) {
+          chunks.push({ text: current, paragraphEnd: false })
+          current = ''
+        }
+        current = current ? `${current} ${piece}` : piece
+      }
+    }
+
+    if (current) {
+      chunks.push({ text: current, paragraphEnd: true })
+    }
+  }
+
+  return chunks
+}
+
+/**
+ * Group pre-parsed segments (e.g. from SSML) into chunks, splitting only between segments
+ */
+export function chunkSegments(segments: SynthesisSegment[], maxChars = DEFAULT_CHUNK_SIZE): TextChunk[] {
+  const chunks: TextChunk[] = []
+  let current: SynthesisSegment[] = []
+  let length = 0
+
+  for (const segment of segments) {
+    if (current.length > 0 && length + segment.text.length > maxChars) {
+      chunks.push(toSegmentChunk(current))
+      current = []
+      length = 0
+    }
+    current.push(segment)
+    length += segment.text.length
+  }
+
+  if (current.length > 0) {
+    chunks.push(toSegmentChunk(current))
+  }
+
+  return chunks
+}
+
+function toSegmentChunk(segments: SynthesisSegment[]): TextChunk {
+  return {
+    text: segments.map(segment => segment.text).join(' ').replace(/\s+/g, ' ').trim(),
+    segments,
+    paragraphEnd: false
+  }
+}
+
+/**
+ * Split an oversized sentence at clause punctuation, then at word boundaries
+ */
+function splitLongSentence(sentence: string, maxChars: number): string[] {
+  if (sentence.length <= maxChars) return [sentence]
+
+  const pieces: string[] = []
+  let current = ''
+
+  for (const clause of sentence.match(/[^,;:]+[,;:]?\s*/g) || [sentence]) {
+    const words = clause.length > maxChars ? clause.split(/\s+/).filter(Boolean) : [clause.trim()]
+    for (const word of words) {
+      if (current && current.length + word.length + 1 > maxChars) {
+        pieces.push(current)
+        current = ''
+      }
+      current = current ? `${current} ${word}` : word
+    }
+  }
+
+  if (current) pieces.push(current)
+  return pieces
+}
@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest'
+import { normalizeText, numberToWords, ordinalToWords } from '@/lib/textNormalizer'
+
+describe('numberToWords', () => {
+  it('groups by thousands', () => {
+    expect(numberToWords(0)).toBe('zero')
+    expect(numberToWords(42)).toBe('forty-two')
+    expect(numberToWords(1005)).toBe('one thousand five')
+    expect(numberToWords(2_300_000)).toBe('two million three hundred thousand')
+  })
+
+  it('reads numbers past the trillions digit by digit from their string', () => {
+    expect(numberToWords('1234567890123456789012')).toBe('one two three four five six seven eight nine zero one two three four five six seven eight nine zero one two')
+  })
+})
+
+describe('ordinalToWords', () => {
+  it('changes only the last word', () => {
+    expect(ordinalToWords(1)).toBe('first')
+    expect(ordinalToWords(12)).toBe('twelfth')
+    expect(ordinalToWords(21)).toBe('twenty-first')
+    expect(ordinalToWords(40)).toBe('fortieth')
+    expect(ordinalToWords(113)).toBe('one hundred thirteenth')
+  })
+})
+
+describe('normalizeText', () => {
+  describe('times', () => {
+    it('reads clock times', () => {
+      expect(normalizeText('At 7:05 we left')).toBe("At seven oh five we left")
+      expect(normalizeText('At 9:00 we left')).toBe("At nine o'clock we left")
+      expect(normalizeText('At 14:00 we left')).toBe('At fourteen hundred we left')
+    })
+
+    it('keeps the sentence period after a.m. and p.m.', () => {
+      expect(normalizeText('It is 3 pm.')).toBe('It is three pee em.')
+      expect(normalizeText('Wake at 7:05 a.m.')).toBe('Wake at seven oh five ay em.')
+      expect(normalizeText('At 10:30 a.m. The bus left.')).toBe('At ten thirty ay em. The bus left.')
+    })
+
+    it('drops the abbreviation period inside a sentence', () => {
+      expect(normalizeText('Meet at 3 p.m. tomorrow.')).toBe('Meet at three pee em tomorrow.')
+      expect(normalizeText('At 10:30 A.M., we ate.')).toBe('At ten thirty ay em, we ate.')
+    })
+  })
+
+  describe('currency', () => {
+    it('reads prices in major and minor units', () => {
+      expect(normalizeText('It costs $3.50.')).toBe('It costs three dollars and fifty cents.')
+      expect(normalizeText('Only $1')).toBe('Only one dollar')
+      expect(normalizeText('£2.01 each')).toBe('two pounds and one penny each')
+    })
+
+    it('reads magnitudes after the amount', () => {
+      expect(normalizeText('A $2.5bn deal')).toBe('A two point five billion dollars deal')
+    })
+
+    it('reads the symbol after the amount where the locale writes it there', () => {
+      expect(normalizeText('Es kostet 12,50 €', 'fr-FR')).toBe('Es kostet twelve euros and fifty cents')
+      expect(normalizeText('1.234,50 €', 'de-DE')).toBe('one thousand two hundred thirty-four euros and fifty cents')
+    })
+  })
+
+  describe('ordinals and dates', () => {
+    it('reads suffixed ordinals', () => {
+      expect(normalizeText('the 1st, 22nd and 103rd')).toBe('the first, twenty-second and one hundred third')
+    })
+
+    it('reads dates in the locale order', () => {
+      expect(normalizeText('Due 03/04/2024', 'en-US')).toBe('Due March fourth, twenty twenty-four')
+      expect(normalizeText('Due 03/04/2024', 'en-GB')).toBe('Due April third, twenty twenty-four')
+      expect(normalizeText('On 2024-03-15')).toBe('On March fifteenth, twenty twenty-four')
+    })
+  })
+
+  describe('numbers', () => {
+    it('reads dotted versions part by part', () => {
+      expect(normalizeText('Update to version 2.0.1.')).toBe('Update to version two point zero point one.')
+      expect(normalizeText('Install v1.10.3 now')).toBe('Install version one point ten point three now')
+    })
+
+    it('reads decimals digit by digit after the point', () => {
+      expect(normalizeText('Pi is 3.14')).toBe('Pi is three point one four')
+    })
+
+    it('lets bracket pauses give way to sentence punctuation', () => {
+      expect(normalizeText('Growth was slow (15%). Next.')).toBe('Growth was slow, fifteen percent. Next.')
+    })
+  })
+
+  it('keeps the period after a street that ends the sentence', () => {
+    expect(normalizeText('I live on Main St. Then I moved.')).toBe('I live on Main street. Then I moved.')
+  })
+})
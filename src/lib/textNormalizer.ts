@@ -0,0 +1,477 @@
+/**
+ * TextNormalizer - Expands numbers, dates, symbols and abbreviations into speakable words
+ * Runs before grapheme-to-phoneme conversion so the synthesizer only ever sees words
+ * The voice's locale decides how numbers, dates and prices are written (decimal comma, day-first dates, trailing
+ * currency symbols); they are always spoken with English words, the only ones the engine can pronounce
+ */
+
+import { DEFAULT_LOCALE, localeLanguage } from '@/lib/languages'
+
+export interface NormalizationRules {
+  /** Order of numeric dates such as 03/04/2024 */
+  dateOrder: 'mdy' | 'dmy'
+  /** Comma marks decimals and dots or spaces group thousands, as in 1.234,5 */
+  decimalComma: boolean
+  /** Currency symbols follow the amount, as in 12,50 € */
+  currencyAfterAmount: boolean
+  /** The text itself is English, so its abbreviations, month names and "in 1999"-style years can be expanded */
+  englishText: boolean
+}
+
+const ONES = ['zero', 'one', 'two', 'three', 'four', 'five', 'six', 'seven', 'eight', 'nine', 'ten',
+  'eleven', 'twelve', 'thirteen', 'fourteen', 'fifteen', 'sixteen', 'seventeen', 'eighteen', 'nineteen']
+const TENS = ['', '', 'twenty', 'thirty', 'forty', 'fifty', 'sixty', 'seventy', 'eighty', 'ninety']
+const SCALES = ['', 'thousand', 'million', 'billion', 'trillion']
+const MONTHS = ['january', 'february', 'march', 'april', 'may', 'june', 'july', 'august',
+  'september', 'october', 'november', 'december']
+const ORDINAL_WORDS: Record<string, string> = {
+  one: 'first', two: 'second', three: 'third', five: 'fifth', eight: 'eighth', nine: 'ninth', twelve: 'twelfth'
+}
+
+const CURRENCIES: Record<string, [major: string, majorPlural: string, minor: string, minorPlural: string]> = {
+  '$': ['dollar', 'dollars', 'cent', 'cents'],
+  '€': ['euro', 'euros', 'cent', 'cents'],
+  '£': ['pound', 'pounds', 'penny', 'pence'],
+  '¥': ['yen', 'yen', 'sen', 'sen'],
+  '₹': ['rupee', 'rupees', 'paisa', 'paise']
+}
+const MONTH_FIRST_LOCALES = ['en-US']
+const DECIMAL_COMMA_LOCALES = ['es-ES', 'fr-FR', 'fr-CA', 'de-DE', 'it-IT', 'pt-BR', 'pt-PT', 'nl-NL']
+const CURRENCY_AFTER_AMOUNT_LOCALES = ['es-ES', 'fr-FR', 'fr-CA', 'de-DE', 'it-IT', 'pt-PT']
+const MAGNITUDES: Record<string, string> = { k: 'thousand', m: 'million', b: 'billion', bn: 'billion', t: 'trillion' }
+
+const UNITS: Record<string, [singular: string, plural: string]> = {
+  km: ['kilometer', 'kilometers'],
+  m: ['meter', 'meters'],
+  cm: ['centimeter', 'centimeters'],
+  mm: ['millimeter', 'millimeters'],
+  mi: ['mile', 'miles'],
+  ft: ['foot', 'feet'],
+  kg: ['kilogram', 'kilograms'],
+  g: ['gram', 'grams'],
+  mg: ['milligram', 'milligrams'],
+  lb: ['pound', 'pounds'],
+  lbs: ['pound', 'pounds'],
+  oz: ['ounce', 'ounces'],
+  l: ['liter', 'liters'],
+  ml: ['milliliter', 'milliliters'],
+  mph: ['mile per hour', 'miles per hour'],
+  kph: ['kilometer per hour', 'kilometers per hour'],
+  hz: ['hertz', 'hertz'],
+  khz: ['kilohertz', 'kilohertz'],
+  kb: ['kilobyte', 'kilobytes'],
+  mb: ['megabyte', 'megabytes'],
+  gb: ['gigabyte', 'gigabytes'],
+  tb: ['terabyte', 'terabytes'],
+  kbps: ['kilobit per second', 'kilobits per second'],
+  ms: ['millisecond', 'milliseconds'],
+  s: ['second', 'seconds'],
+  min: ['minute', 'minutes'],
+  h: ['hour', 'hours'],
+  hr: ['hour', 'hours'],
+  hrs: ['hour', 'hours']
+}
+
+// Titles never end a sentence; the rest keep their period when they close one
+const TITLES: Record<string, string> = {
+  mr: 'mister', mrs: 'missus', ms: 'miz', dr: 'doctor', prof: 'professor', sr: 'senior', jr: 'junior', st: 'saint'
+}
+// Matched case-sensitively so "sun." or "sat." at the end of a sentence stay words
+const ABBREVIATIONS: Record<string, string> = {
+  'etc': 'et cetera',
+  'e.g': 'for example',
+  'i.e': 'that is',
+  'vs': 'versus',
+  'approx': 'approximately',
+  'dept': 'department',
+  'Inc': 'incorporated',
+  'Ltd': 'limited',
+  'Co': 'company',
+  'Ave': 'avenue',
+  'Blvd': 'boulevard',
+  'Rd': 'road',
+  'Mt': 'mount',
+  'Jan': 'January',
+  'Feb': 'February',
+  'Mar': 'March',
+  'Apr': 'April',
+  'Jun': 'June',
+  'Jul': 'July',
+  'Aug': 'August',
+  'Sep': 'September',
+  'Sept': 'September',
+  'Oct': 'October',
+  'Nov': 'November',
+  'Dec': 'December',
+  'Mon': 'Monday',
+  'Tue': 'Tuesday',
+  'Tues': 'Tuesday',
+  'Wed': 'Wednesday',
+  'Thu': 'Thursday',
+  'Thurs': 'Thursday',
+  'Fri': 'Friday',
+  'Sat': 'Saturday',
+  'Sun': 'Sunday'
+}
+
+const SYMBOLS: Record<string, string> = {
+  '&': ' and ',
+  '+': ' plus ',
+  '=': ' equals ',
+  '@': ' at ',
+  '#': ' number ',
+  '°': ' degrees ',
+  '×': ' times ',
+  '÷': ' divided by ',
+  '~': ' approximately ',
+  '<': ' less than ',
+  '>': ' greater than ',
+  '/': ' slash ',
+  '*': ' ',
+  '_': ' ',
+  '|': ' ',
+  '"': ' ',
+  '“': ' ',
+  '”': ' ',
+  '(': ', ',
+  ')': ', ',
+  '[': ', ',
+  ']': ', '
+}
+
+/**
+ * Spell out a non-negative integer, e.g. 1234 -> "one thousand two hundred thirty-four"
+ * Pass written numbers as their digits: past the trillions they are read digit by digit, and a Number would lose some
+ */
+export function numberToWords(number: number | string): string {
+  const digits = typeof number === 'string' ? number.replace(/^0+(?=\d)/, '') : null
+  const value = Number(number)
+  if (digits !== null ? !/^\d+$/.test(digits) : !Number.isFinite(value) || value < 0 || !Number.isInteger(value)) {
+    throw new Error(`Cannot spell out ${number}`)
+  }
+  if (value < 20) return ONES[value]
+  if (value >= 1e15) return digitsToWords(digits ?? BigInt(value).toString())
+
+  const groups: string[] = []
+  let remaining = value
+  let scale = 0
+
+  while (remaining > 0) {
+    const group = remaining % 1000
+    if (group > 0) {
+      groups.unshift([hundredsToWords(group), SCALES[scale]].filter(Boolean).join(' '))
+    }
+    remaining = Math.floor(remaining / 1000)
+    scale++
+  }
+
+  return groups.join(' ')
+}
+
+/**
+ * Spell out an ordinal, e.g. 21 -> "twenty-first"
+ */
+export function ordinalToWords(value: number | string): string {
+  const words = numberToWords(value)
+  return words.replace(/([a-z]+)$/, (last: string) => {
+    if (ORDINAL_WORDS[last]) return ORDINAL_WORDS[last]
+    if (last.endsWith('y')) return `${last.slice(0, -1)}ieth`
+    return `${last}th`
+  })
+}
+
+/**
+ * Read a year the way people say it, e.g. 1984 -> "nineteen eighty-four", 2005 -> "two thousand five"
+ */
+export function yearToWords(value: number): string {
+  if (value < 1000 || value > 9999) return numberToWords(value)
+  if (value % 1000 < 10 && value < 2010) return numberToWords(value)
+
+  const century = Math.floor(value / 100)
+  const rest = value % 100
+  if (rest === 0) return `${numberToWords(century)} hundred`
+  return `${numberToWords(century)} ${rest < 10 ? `oh ${ONES[rest]}` : numberToWords(rest)}`
+}
+
+/**
+ * Read a string of digits one at a time, e.g. "4567" -> "four five six seven"
+ */
+export function digitsToWords(digits: string): string {
+  return digits.replace(/\D/g, '').split('').map(d => ONES[Number(d)]).join(' ')
+}
+
+function hundredsToWords(value: number): string {
+  const hundreds = Math.floor(value / 100)
+  const rest = value % 100
+  const parts: string[] = []
+
+  if (hundreds > 0) parts.push(`${ONES[hundreds]} hundred`)
+  if (rest > 0 && rest < 20) parts.push(ONES[rest])
+  if (rest >= 20) parts.push(rest % 10 ? `${TENS[Math.floor(rest / 10)]}-${ONES[rest % 10]}` : TENS[Math.floor(rest / 10)])
+
+  return parts.join(' ')
+}
+
+/**
+ * Spell out a written number that may carry a sign, thousands separators and decimals
+ */
+function numeralToWords(raw: string): string {
+  const negative = /^[-−]/.test(raw)
+  const [whole, fraction] = raw.replace(/^[-−+]/, '').replace(/,/g, '').split('.')
+  let words = numberToWords(whole || '0')
+
+  if (fraction) {
+    words += ` point ${digitsToWords(fraction)}`
+  }
+
+  return negative ? `minus ${words}` : words
+}
+
+function pluralize(count: string, singular: string, plural: string): string {
+  return count === '1' ? singular : plural
+}
+
+function expandUrls(text: string): string {
+  return text
+    .replace(/\b[\w.+-]+@[\w-]+(?:\.[\w-]+)+\b/g, email => {
+      const [user, domain] = email.split('@')
+      return ` ${speakAddress(user)} at ${speakAddress(domain)} `
+    })
+    .replace(/\b(?:https?:\/\/|www\.)[^\s]+[^\s.,;:!?)]/gi, url => {
+      const cleaned = url.replace(/^https?:\/\//i, '').replace(/\/$/, '')
+      return ` ${speakAddress(cleaned)} `
+    })
+}
+
+function speakAddress(address: string): string {
+  return address
+    .replace(/^www\./i, 'w w w dot ')
+    .replace(/\./g, ' dot ')
+    .replace(/\//g, ' slash ')
+    .replace(/-/g, ' dash ')
+    .replace(/_/g, ' underscore ')
+    .replace(/:/g, ' colon ')
+    .replace(/\?/g, ' question mark ')
+    .replace(/=/g, ' equals ')
+    .replace(/&/g, ' and ')
+    .replace(/\d+/g, digits => ` ${digitsToWords(digits)} `)
+}
+
+function expandPhoneNumbers(text: string): string {
+  return text.replace(/(?:\+(\d{1,3})[\s.-]?)?\(?\b(\d{3})\)?[\s.-]?(\d{3})[\s.-](\d{4})\b/g, (_match, country, area, exchange, line) => {
+    const parts = [area, exchange, line].map(digitsToWords)
+    if (country) parts.unshift(`plus ${digitsToWords(country)}`)
+    return parts.join(', ')
+  })
+}
+
+function expandCurrency(text: string, rules: NormalizationRules): string {
+  const symbols = Object.keys(CURRENCIES).map(s => `\\${s}`).join('')
+  const pattern = new RegExp(`([${symbols}])\\s?(\\d[\\d,]*)(?:\\.(\\d{1,2}))?(?:\\s?(k|m|bn|b|t|thousand|million|billion|trillion)\\b)?`, 'gi')
+  // 12.50 € once canonicalizeNumbers has rewritten 12,50 €
+  const trailingPattern = new RegExp(`(\\d[\\d,]*)(?:\\.(\\d{1,2}))?\\s?([${symbols}])`, 'g')
+
+  const expanded = text.replace(pattern, (_match, symbol: string, whole: string, cents: string | undefined, magnitude: string | undefined) => {
+    if (!magnitude) return speakAmount(symbol, whole, cents)
+
+    const scale = MAGNITUDES[magnitude.toLowerCase()] || magnitude.toLowerCase()
+    const decimal = cents ? ` point ${digitsToWords(cents)}` : ''
+    return `${numberToWords(whole.replace(/,/g, ''))}${decimal} ${scale} ${CURRENCIES[symbol][1]}`
+  })
+
+  if (!rules.currencyAfterAmount) return expanded
+  return expanded.replace(trailingPattern, (_match, whole: string, cents: string | undefined, symbol: string) => speakAmount(symbol, whole, cents))
+}
+
+/**
+ * Read a price as major and minor units, e.g. "$", "12", "50" -> "twelve dollars and fifty cents"
+ */
+function speakAmount(symbol: string, whole: string, cents: string | undefined): string {
+  const [major, majorPlural, minor, minorPlural] = CURRENCIES[symbol]
+  const amount = whole.replace(/,/g, '')
+  const parts = [`${numberToWords(amount)} ${pluralize(amount, major, majorPlural)}`]
+  const minorAmount = cents ? Number(cents.padEnd(2, '0')) : 0
+  if (minorAmount > 0) {
+    parts.push(`${numberToWords(minorAmount)} ${minorAmount === 1 ? minor : minorPlural}`)
+  }
+  return parts.join(' and ')
+}
+
+/**
+ * Rewrite decimal-comma numbers (1.234,56 or 1 234,56) in the dot-decimal form the later stages read
+ */
+function canonicalizeNumbers(text: string, rules: NormalizationRules): string {
+  if (!rules.decimalComma) return text
+  return text.replace(/\b\d{1,3}(?:[.\u00a0\u202f ]\d{3})+(?:,\d+)?\b|\b\d+,\d+\b/g, number => {
+    const [whole, fraction] = number.split(',')
+    const grouped = whole.replace(/[.\u00a0\u202f ]/g, ',')
+    return fraction ? `${grouped}.${fraction}` : grouped
+  })
+}
+
+function expandDates(text: string, rules: NormalizationRules): string {
+  const monthPattern = MONTHS.join('|')
+
+  const numeric = text
+    // ISO dates: 2024-03-15
+    .replace(/\b(\d{4})-(\d{2})-(\d{2})\b/g, (match, year, month, day) => {
+      const m = Number(month)
+      if (m < 1 || m > 12 || Number(day) < 1 || Number(day) > 31) return match
+      return `${capitalize(MONTHS[m - 1])} ${ordinalToWords(Number(day))}, ${yearToWords(Number(year))}`
+    })
+    // Numeric dates: 03/15/2024 in the US, 15/03/2024 elsewhere
+    .replace(/\b(\d{1,2})\/(\d{1,2})\/(\d{4}|\d{2})\b/g, (match, first, second, year) => {
+      const [month, day] = rules.dateOrder === 'mdy' ? [first, second] : [second, first]
+      const m = Number(month)
+      if (m < 1 || m > 12 || Number(day) < 1 || Number(day) > 31) return match
+      const fullYear = year.length === 2 ? 2000 + Number(year) : Number(year)
+      return `${capitalize(MONTHS[m - 1])} ${ordinalToWords(Number(day))}, ${yearToWords(fullYear)}`
+    })
+  if (!rules.englishText) return numeric
+
+  return numeric
+    // Written dates: March 15, 2024 / March 15th
+    .replace(new RegExp(`\\b(${monthPattern})\\.?\\s+(\\d{1,2})(?:st|nd|rd|th)?\\b(,?\\s+(\\d{4})\\b)?`, 'gi'), (_match, month, day, _yearPart, year) => {
+      const spokenYear = year ? `, ${yearToWords(Number(year))}` : ''
+      return `${month} ${ordinalToWords(Number(day))}${spokenYear}`
+    })
+    // Years after a preposition: in 1999, since 2010
+    .replace(/\b(in|since|by|from|until|of|year)\s+(\d{4})\b(?![.,]\d)/gi, (_match, word, year) => `${word} ${yearToWords(Number(year))}`)
+    // Decades: 1990s, '90s
+    .replace(/\b(\d{2})?(\d)0s\b/g, (_match, century, decade) => {
+      if (decade === '0') return century ? `${numberToWords(Number(`${century}00`))}s` : 'hundreds'
+      const tens = TENS[Number(decade)].replace(/y$/, 'ies')
+      return century ? `${numberToWords(Number(century))} ${tens}` : tens
+    })
+}
+
+/**
+ * Dotted version strings such as 2.0.1 or v1.10.3, read part by part before the decimal rules can split them
+ */
+function expandVersions(text: string): string {
+  return text.replace(/(^|[^\w.])(v)?(\d+(?:\.\d+){2,})(?!\.?\d|\w)/gi, (_match, prefix: string, v: string | undefined, version: string) => {
+    const parts = version.split('.').map(part => numberToWords(part))
+    return `${prefix}${v ? 'version ' : ''}${parts.join(' point ')}`
+  })
+}
+
+// "am"/"pm" with or without periods; the closing period is kept as well when it also ends the sentence
+// Letters are spelled out in both cases since an i flag would let the capital that starts a sentence match any letter
+const MERIDIEM = '\\s?([aApP])\\.?[mM](\\.?)(?!\\w)(?=(\\s+[A-Z]|\\s*$)|)'
+
+function expandTimes(text: string): string {
+  const speakMeridiem = (meridiem: string, period: string, sentenceEnd: string | undefined) =>
+    `${meridiem.toLowerCase() === 'a' ? ' ay em' : ' pee em'}${period && sentenceEnd !== undefined ? '.' : ''}`
+
+  return text.replace(new RegExp(`\\b(\\d{1,2}):(\\d{2})(?:${MERIDIEM})?`, 'g'), (match, hour, minute, meridiem, period, sentenceEnd) => {
+    const h = Number(hour)
+    const m = Number(minute)
+    if (h > 23 || m > 59) return match
+
+    let spoken = numberToWords(h)
+    if (m === 0) {
+      spoken += meridiem ? '' : h > 12 ? ' hundred' : " o'clock"
+    } else {
+      spoken += m < 10 ? ` oh ${ONES[m]}` : ` ${numberToWords(m)}`
+    }
+
+    if (meridiem) {
+      spoken += speakMeridiem(meridiem, period, sentenceEnd)
+    }
+    return spoken
+  }).replace(new RegExp(`\\b(\\d{1,2})${MERIDIEM}`, 'g'), (_match, hour, meridiem, period, sentenceEnd) => {
+    return `${numberToWords(Number(hour))}${speakMeridiem(meridiem, period, sentenceEnd)}`
+  })
+}
+
+function expandNumbers(text: string): string {
+  return text
+    // Percentages
+    .replace(/([-−]?\d[\d,]*(?:\.\d+)?)\s?%/g, (_match, value) => `${numeralToWords(value)} percent`)
+    // Ordinals: 1st, 22nd, 103rd
+    .replace(/\b(\d+)(st|nd|rd|th)\b/gi, (_match, value) => ordinalToWords(value))
+    // Numbers with units: 5 km, 2.5kg
+    .replace(/\b(\d[\d,]*(?:\.\d+)?)\s?([a-zA-Z]{1,4})\b/g, (match, value, unit) => {
+      const names = UNITS[unit.toLowerCase()]
+      if (!names || (unit === 'in' && !/\d\s?in\b/.test(match))) return match
+      return `${numeralToWords(value)} ${value === '1' ? names[0] : names[1]}`
+    })
+    // Ranges: 10-20
+    .replace(/\b(\d+)\s?[-–]\s?(\d+)\b/g, (_match, from, to) => `${numeralToWords(from)} to ${numeralToWords(to)}`)
+    // Signed, grouped and decimal numbers
+    .replace(/(^|[^\w.])([-−]?\d{1,3}(?:,\d{3})+(?:\.\d+)?|[-−]?\d+(?:\.\d+)?|[-−]?\.\d+)(?![\w])/g, (_match, prefix, value) => {
+      const normalized = value.replace(/^([-−]?)\./, '$10.')
+      return `${prefix}${numeralToWords(normalized)}`
+    })
+}
+
+function expandAbbreviations(text: string, rules: NormalizationRules): string {
+  if (!rules.englishText) return text
+  const titles = Object.keys(TITLES).join('|')
+  const abbreviations = Object.keys(ABBREVIATIONS).map(a => a.replace('.', '\\.')).join('|')
+
+  return text
+    // "St." after a name is a street, before one a saint; its period stays when it also ends the sentence
+    .replace(/\b([A-Z][a-z]+)\s+St(\.?)(?=(\s+[A-Z]|\s*$)|\s|[,;])/g, (_match, name: string, period: string, sentenceEnd?: string) => {
+      return `${name} street${period && sentenceEnd !== undefined ? '.' : ''}`
+    })
+    .replace(new RegExp(`\\b(${titles})\\.(?=\\s+[A-Z])`, 'gi'), (_match, title: string) => TITLES[title.toLowerCase()])
+    .replace(/\bNo\.\s?(?=\d)/g, 'number ')
+    .replace(new RegExp(`\\b(${abbreviations})\\.(\\s*)(\\S?)`, 'g'), (_match, abbreviation: string, space: string, next: string) => {
+      const closesSentence = next === '' || /[A-Z]/.test(next)
+      return `${ABBREVIATIONS[abbreviation]}${closesSentence ? '.' : ''}${space}${next}`
+    })
+}
+
+function expandSymbols(text: string): string {
+  let result = text
+  for (const [symbol, words] of Object.entries(SYMBOLS)) {
+    result = result.split(symbol).join(words)
+  }
+  return result
+}
+
+function capitalize(word: string): string {
+  return word.charAt(0).toUpperCase() + word.slice(1)
+}
+
+/**
+ * How a locale writes numbers, dates and prices; only English text gets its words expanded too
+ */
+export function getNormalizationRules(locale = DEFAULT_LOCALE): NormalizationRules {
+  return {
+    dateOrder: MONTH_FIRST_LOCALES.includes(locale) ? 'mdy' : 'dmy',
+    decimalComma: DECIMAL_COMMA_LOCALES.includes(locale),
+    currencyAfterAmount: CURRENCY_AFTER_AMOUNT_LOCALES.includes(locale),
+    englishText: localeLanguage(locale) === 'en'
+  }
+}
+
+/**
+ * Expand text into speakable words, preserving sentence punctuation for phrasing
+ */
+export function normalizeText(text: string, locale = DEFAULT_LOCALE): string {
+  const rules = getNormalizationRules(locale)
+  const stages = [
+    expandUrls,
+    expandPhoneNumbers,
+    (current: string) => canonicalizeNumbers(current, rules),
+    expandVersions,
+    (current: string) => expandCurrency(current, rules),
+    (current: string) => expandAbbreviations(current, rules),
+    (current: string) => expandDates(current, rules),
+    expandTimes,
+    expandNumbers,
+    expandSymbols
+  ]
+  const expanded = stages.reduce((current, stage) => stage(current), text)
+
+  return expanded
+    .replace(/\s+([,.;:!?])/g, '$1')
+    .replace(/([,;:])(?:\s*[,;:])+/g, '$1')
+    // Bracket pauses give way to the punctuation that follows them, as in "(15%)."
+    .replace(/[,;:]\s*([.!?])/g, '$1')
+    .replace(/^[\s,;:]+/, '')
+    .replace(/[ \t]+/g, ' ')
+    .trim()
+}
@@ -0,0 +1,113 @@
+/**
+ * TimeStretch - Offline tempo and pitch processing
+ * WSOLA time stretching keeps pitch while changing speed; pitch shifting stretches then resamples
+ */
+
+import { resample } from '@/lib/resample'
+
+const FRAME_MS = 25
+const SEARCH_MS = 8
+
+export interface TempoPitchOptions {
+  /** Tempo multiplier: 2 is twice as fast, 0.5 half speed */
+  speed: number
+  /** Pitch multiplier: 2 is an octave up */
+  pitch: number
+}
+
+/**
+ * Change duration without changing pitch using waveform-similarity overlap-add
+ * The output is `samples.length / rate` long
+ */
+export function timeStretch(samples: Float32Array, sampleRate: number, rate: number): Float32Array {
+  if (Math.abs(rate - 1) < 1e-3 || samples.length === 0) {
+    return samples.slice()
+  }
+
+  const frame = Math.round(sampleRate * FRAME_MS / 1000) & ~1
+  const synthesisHop = frame / 2
+  const analysisHop = synthesisHop * rate
+  const tolerance = Math.round(sampleRate * SEARCH_MS / 1000)
+  const window = hann(frame)
+
+  const outputLength = Math.round(samples.length / rate)
+  const output = new Float32Array(outputLength + frame)
+  const norm = new Float32Array(outputLength + frame)
+
+  // Read past the ends as silence so the search never has to special-case the borders
+  const read = (index: number) => (index >= 0 && index < samples.length ? samples[index] : 0)
+
+  let previous = 0
+  for (let outPos = 0, k = 0; outPos < outputLength; outPos += synthesisHop, k++) {
+    let start = Math.round(k * analysisHop)
+
+    if (k > 0) {
+      // The natural continuation of the last frame is the target this frame should resemble
+      const target = previous + synthesisHop
+      start = bestOffset(read, target, start, tolerance, synthesisHop)
+    }
+
+    for (let i = 0; i < frame; i++) {
+      output[outPos + i] += read(start + i) * window[i]
+      norm[outPos + i] += window[i]
+    }
+    previous = start
+  }
+
+  const result = new Float32Array(outputLength)
+  for (let i = 0; i < outputLength; i++) {
+    result[i] = norm[i] > 1e-3 ? output[i] / norm[i] : output[i]
+  }
+  return result
+}
+
+/**
+ * Shift pitch by a ratio while keeping duration
+ */
+export function pitchShift(samples: Float32Array, sampleRate: number, ratio: number): Float32Array {
+  return applyTempoAndPitch(samples, sampleRate, { speed: 1, pitch: ratio })
+}
+
+/**
+ * Bake speed and pitch into rendered audio in one stretch and one resample
+ */
+export function applyTempoAndPitch(samples: Float32Array, sampleRate: number, { speed, pitch }: TempoPitchOptions): Float32Array {
+  if (Math.abs(pitch - 1) < 1e-3) {
+    return timeStretch(samples, sampleRate, speed)
+  }
+
+  // Resampling by the pitch ratio also shortens the audio by that ratio, so stretch to compensate first
+  const stretched = timeStretch(samples, sampleRate, speed / pitch)
+  return resample(stretched, sampleRate * pitch, sampleRate)
+}
+
+/**
+ * Find the start near `nominal` whose waveform best matches the samples at `target`
+ */
+function bestOffset(read: (index: number) => number, target: number, nominal: number, tolerance: number, length: number): number {
+  let best = nominal
+  let bestScore = -Infinity
+
+  for (let offset = -tolerance; offset <= tolerance; offset++) {
+    const candidate = nominal + offset
+    let score = 0
+    // Every other sample is plenty to locate the best alignment
+    for (let i = 0; i < length; i += 2) {
+      score += read(target + i) * read(candidate + i)
+    }
+    if (score > bestScore) {
+      bestScore = score
+      best = candidate
+    }
+  }
+
+  return best
+}
+
+function hann(length: number): Float32Array {
+  const window = new Float32Array(length)
+  for (let i = 0; i < length; i++) {
+    window[i] = 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / length)
+  }
+  return window
+}
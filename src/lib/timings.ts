@@ -0,0 +1,64 @@
+/**
+ * Timings - Helpers for word and sentence timestamps
+ */
+
+import type { TimedSpan } from '@/lib/synthesisProvider'
+
+/**
+ * Shift spans later by `offset` seconds
+ */
+export function offsetTimings(spans: TimedSpan[], offset: number): TimedSpan[] {
+  return spans.map(span => ({ ...span, start: span.start + offset, end: span.end + offset }))
+}
+
+/**
+ * Scale span times, e.g. after the audio was time-stretched
+ */
+export function scaleTimings(spans: TimedSpan[], factor: number): TimedSpan[] {
+  return spans.map(span => ({ ...span, start: span.start * factor, end: span.end * factor }))
+}
+
+/**
+ * Group words into sentences, closing a sentence after each word that ends one
+ */
+export function groupSentences(words: TimedSpan[], endsSentence: (word: TimedSpan, index: number) => boolean): TimedSpan[] {
+  const sentences: TimedSpan[] = []
+  let current: TimedSpan[] = []
+
+  const flush = () => {
+    if (current.length === 0) return
+    sentences.push({
+      text: current.map(word => word.text).join(' '),
+      start: current[0].start,
+      end: current[current.length - 1].end
+    })
+    current = []
+  }
+
+  words.forEach((word, index) => {
+    current.push(word)
+    if (endsSentence(word, index)) flush()
+  })
+  flush()
+
+  return sentences
+}
+
+/**
+ * Spread words across a duration in proportion to their length, for engines that return no timings
+ */
+export function estimateTimings(text: string, duration: number): { words: TimedSpan[]; sentences: TimedSpan[] } {
+  const tokens = text.split(/\s+/).filter(Boolean)
+  // Each word gets a little extra weight for the gap that follows it
+  const weights = tokens.map(token => token.length + 1)
+  const total = weights.reduce((sum, weight) => sum + weight, 0) || 1
+
+  let position = 0
+  const words = tokens.map((token, i) => {
+    const start = (position / total) * duration
+    position += weights[i]
+    return { text: token, start, end: ((position - 1) / total) * duration }
+  })
+
+  return { words, sentences: groupSentences(words, word => /[.!?…]["')\]”’]*$/.test(word.text)) }
+}
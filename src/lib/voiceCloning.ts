@@ -0,0 +1,150 @@
+/**
+ * VoiceCloning - Derives a synthesizer voice profile from recorded samples
+ * Measures pitch, brightness and breathiness so cloned voices render with the speaker's character
+ */
+
+import type { SynthesisProgress } from '@/lib/synthesisProvider'
+
+const ANALYSIS_RATE = 16000
+const FRAME_SIZE = 640
+const HOP_SIZE = 320
+const MIN_F0 = 60
+const MAX_F0 = 400
+const VOICING_THRESHOLD = 0.45
+
+export interface VoiceProfile {
+  f0: number
+  formantScale: number
+  breathiness: number
+}
+
+export interface VoiceAnalysisOptions {
+  signal?: AbortSignal
+  onProgress?: (event: SynthesisProgress) => void
+}
+
+interface FrameStats {
+  f0: number[]
+  periodicity: number[]
+  zeroCrossings: number[]
+}
+
+/**
+ * Analyze every sample and merge them into one profile, reporting progress per analysed frame batch
+ */
+export async function analyzeVoiceSamples(files: File[], { signal, onProgress }: VoiceAnalysisOptions = {}): Promise<VoiceProfile> {
+  if (files.length === 0) {
+    throw new Error('At least one voice sample is required')
+  }
+
+  const stats: FrameStats = { f0: [], periodicity: [], zeroCrossings: [] }
+
+  onProgress?.({ progress: 0, stage: 'decoding' })
+
+  for (let i = 0; i < files.length; i++) {
+    signal?.throwIfAborted()
+
+    const samples = await decodeSample(files[i])
+    signal?.throwIfAborted()
+
+    const frames = Math.max(1, Math.floor((samples.length - FRAME_SIZE) / HOP_SIZE))
+    for (let frame = 0; frame < frames; frame++) {
+      analyzeFrame(samples.subarray(frame * HOP_SIZE, frame * HOP_SIZE + FRAME_SIZE), stats)
+
+      if (frame % 200 === 199 || frame === frames - 1) {
+        signal?.throwIfAborted()
+        onProgress?.({ progress: ((i + (frame + 1) / frames) / files.length) * 100, stage: 'analyzing' })
+        // Yield so the UI stays responsive and Cancel can land
+        await new Promise(resolve => setTimeout(resolve, 0))
+      }
+    }
+  }
+
+  if (stats.f0.length === 0) {
+    throw new Error('No voiced speech found in the samples')
+  }
+
+  return buildProfile(stats)
+}
+
+/**
+ * Decode a sample to mono at the analysis rate
+ */
+async function decodeSample(file: File): Promise<Float32Array> {
+  const data = await file.arrayBuffer()
+  const probe = new OfflineAudioContext(1, 1, ANALYSIS_RATE)
+  const decoded = await probe.decodeAudioData(data)
+
+  const length = Math.ceil(decoded.duration * ANALYSIS_RATE)
+  const context = new OfflineAudioContext(1, length, ANALYSIS_RATE)
+  const source = context.createBufferSource()
+  source.buffer = decoded
+  source.connect(context.destination)
+  source.start()
+
+  const rendered = await context.startRendering()
+  return rendered.getChannelData(0)
+}
+
+/**
+ * Normalized autocorrelation pitch estimate for one frame; unvoiced or silent frames are skipped
+ */
+function analyzeFrame(frame: Float32Array, stats: FrameStats): void {
+  let energy = 0
+  let crossings = 0
+  for (let i = 0; i < frame.length; i++) {
+    energy += frame[i] * frame[i]
+    if (i > 0 && (frame[i] >= 0) !== (frame[i - 1] >= 0)) crossings++
+  }
+  if (energy / frame.length < 1e-5) return
+
+  const minLag = Math.floor(ANALYSIS_RATE / MAX_F0)
+  const maxLag = Math.min(frame.length - 1, Math.ceil(ANALYSIS_RATE / MIN_F0))
+  let bestLag = 0
+  let bestScore = 0
+
+  for (let lag = minLag; lag <= maxLag; lag++) {
+    let sum = 0
+    let headEnergy = 0
+    let tailEnergy = 0
+    for (let i = 0; i + lag < frame.length; i++) {
+      sum += frame[i] * frame[i + lag]
+      headEnergy += frame[i] * frame[i]
+      tailEnergy += frame[i + lag] * frame[i + lag]
+    }
+    const score = sum / (Math.sqrt(headEnergy * tailEnergy) || 1)
+    if (score > bestScore) {
+      bestScore = score
+      bestLag = lag
+    }
+  }
+
+  stats.zeroCrossings.push(crossings / frame.length)
+  if (bestScore < VOICING_THRESHOLD || !bestLag) return
+
+  stats.f0.push(ANALYSIS_RATE / bestLag)
+  stats.periodicity.push(bestScore)
+}
+
+function buildProfile({ f0, periodicity, zeroCrossings }: FrameStats): VoiceProfile {
+  const medianF0 = median(f0)
+  // Higher voices tend to have shorter vocal tracts; brightness nudges the estimate
+  const brightness = median(zeroCrossings) / 0.1
+  const formantScale = clamp(1 + (medianF0 - 120) / 80 * 0.17 + (brightness - 1) * 0.05, 0.85, 1.25)
+
+  return {
+    f0: Math.round(medianF0),
+    formantScale: Number(formantScale.toFixed(3)),
+    breathiness: Number(clamp((1 - median(periodicity)) * 0.3, 0.01, 0.2).toFixed(3))
+  }
+}
+
+function median(values: number[]): number {
+  if (values.length === 0) return 0
+  const sorted = [...values].sort((a, b) => a - b)
+  return sorted[Math.floor(sorted.length / 2)]
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value))
+}
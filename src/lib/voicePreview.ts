@@ -0,0 +1,41 @@
+/**
+ * VoicePreview - Sample sentences and settings for auditioning voices through the real synthesis path
+ */
+
+import type { SynthesisSettings } from '@/lib/synthesisProvider'
+import { localeLanguage } from '@/lib/languages'
+
+export const MAX_PREVIEW_TEXT_LENGTH = 300
+export const PREVIEW_LOUDNESS_TARGET = -16
+
+// Spoken when a voice has no preview text of its own, by language
+const DEFAULT_PREVIEW_TEXTS: Record<string, string> = {
+  en: 'Hello! This is a short preview of my voice. I hope it sounds like the right fit for your project.',
+  es: 'Hola, esta es una breve muestra de mi voz. Espero que sea la adecuada para tu proyecto.',
+  fr: 'Bonjour, voici un court aperçu de ma voix. J’espère qu’elle conviendra à votre projet.',
+  de: 'Hallo, das ist eine kurze Hörprobe meiner Stimme. Ich hoffe, sie passt zu Ihrem Projekt.',
+  it: 'Ciao, questo è un breve esempio della mia voce. Spero che sia adatta al tuo progetto.',
+  pt: 'Olá, esta é uma breve amostra da minha voz. Espero que seja a ideal para o seu projeto.',
+  nl: 'Hallo, dit is een korte proef van mijn stem. Ik hoop dat hij goed bij je project past.'
+}
+
+/**
+ * Previews share one neutral, loudness-matched rendering so voices can be compared side by side
+ */
+export const PREVIEW_SETTINGS: SynthesisSettings = {
+  quality: 'high',
+  speed: 1,
+  pitch: 1,
+  volume: 1,
+  loudnessTarget: PREVIEW_LOUDNESS_TARGET
+}
+
+/**
+ * The sentence a voice speaks when previewed: its own text, else a default in its language
+ */
+export function getPreviewText(voice: { previewText?: string; locale?: string }): string {
+  const custom = voice.previewText?.trim()
+  if (custom) return custom.slice(0, MAX_PREVIEW_TEXT_LENGTH)
+  const language = voice.locale ? localeLanguage(voice.locale) : 'en'
+  return DEFAULT_PREVIEW_TEXTS[language] || DEFAULT_PREVIEW_TEXTS.en
+}
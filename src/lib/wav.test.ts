@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest'
+import { decodeWav, decodeWavChannels, encodeWav, encodeWavFile, parseWavHeader } from '@/lib/wav'
+import { DEFAULT_TAG_TEMPLATE, buildTags } from '@/lib/audioTags'
+
+const sine = (length: number, sampleRate: number, amplitude = 0.5) =>
+  Float32Array.from({ length }, (_, i) => amplitude * Math.sin(2 * Math.PI * 440 * i / sampleRate))
+
+const maxError = (a: Float32Array, b: Float32Array) => a.reduce((max, value, i) => Math.max(max, Math.abs(value - b[i])), 0)
+
+describe('encodeWav', () => {
+  it('round-trips 16-bit PCM to within one step', () => {
+    const samples = sine(4410, 44100)
+    const decoded = decodeWav(encodeWav(samples, 44100))
+    expect(decoded.sampleRate).toBe(44100)
+    expect(decoded.samples.length).toBe(samples.length)
+    expect(maxError(samples, decoded.samples)).toBeLessThanOrEqual(2 / 0x8000)
+  })
+
+  it('round-trips 24-bit PCM to within one step', () => {
+    const samples = sine(4800, 48000)
+    const buffer = encodeWav(samples, 48000, { bitDepth: 24 })
+    expect(parseWavHeader(buffer)).toMatchObject({ encoding: 'pcm', bitDepth: 24, channels: 1, frames: 4800 })
+    expect(maxError(samples, decodeWav(buffer).samples)).toBeLessThanOrEqual(1 / 0x7fffff)
+  })
+
+  it('keeps 32-bit float samples exactly, including overs', () => {
+    const samples = Float32Array.from([0, 0.25, -1, 1.5, -2.25])
+    const buffer = encodeWav(samples, 22050, { bitDepth: 32 })
+    expect(parseWavHeader(buffer)).toMatchObject({ encoding: 'float', bitDepth: 32, frames: 5 })
+    expect(decodeWav(buffer).samples).toEqual(samples)
+  })
+
+  it('writes the same signal to both channels of a stereo file', () => {
+    const { channels, info } = decodeWavChannels(encodeWav(sine(100, 8000), 8000, { channels: 2 }))
+    expect(info.channels).toBe(2)
+    expect(channels[0]).toEqual(channels[1])
+  })
+
+  it('puts tags after the audio without disturbing it', () => {
+    const samples = sine(1001, 44100)
+    const tags = buildTags(DEFAULT_TAG_TEMPLATE, { text: 'Hello', voice: { name: 'Aria' }, quality: 'high', createdAt: '2026-01-02T00:00:00Z' })
+    const tagged = encodeWav(samples, 44100, {}, tags)
+    const plain = encodeWav(samples, 44100)
+    expect(new Uint8Array(tagged).subarray(8, plain.byteLength)).toEqual(new Uint8Array(plain).subarray(8))
+    expect(decodeWav(tagged).samples).toEqual(decodeWav(plain).samples)
+    const text = (offset: number, length: number) => new TextDecoder().decode(new Uint8Array(tagged, offset, length))
+    expect(text(plain.byteLength, 4)).toBe('id3 ')
+    expect(text(plain.byteLength + 8, 3)).toBe('ID3')
+  })
+
+  it('resamples to the requested download rate', () => {
+    const buffer = encodeWavFile(sine(22050, 22050), 22050, { sampleRate: 44100, bitDepth: 16, channels: 1 })
+    expect(parseWavHeader(buffer)).toMatchObject({ sampleRate: 44100, frames: 44100 })
+  })
+
+  it('rejects files that are not WAV', () => {
+    expect(() => parseWavHeader(new ArrayBuffer(16))).toThrow()
+  })
+})
@@ -0,0 +1,294 @@
+/**
+ * WAV helpers - Write and read RIFF/WAVE files for playback, masters and uploaded samples
+ * 16/24-bit integer and 32-bit float PCM, mono or stereo
+ */
+
+import type { AudioTags } from '@/lib/audioTags'
+import { encodeId3v2 } from '@/lib/id3'
+import { resample } from '@/lib/resample'
+
+/** 32 is IEEE float; 16 and 24 are integer PCM */
+export type WavBitDepth = 16 | 24 | 32
+
+export interface WavFormat {
+  sampleRate: number
+  bitDepth: WavBitDepth
+  channels: 1 | 2
+}
+
+/**
+ * What a WAV header says about the audio it carries
+ */
+export interface WavInfo {
+  encoding: 'pcm' | 'float'
+  sampleRate: number
+  channels: number
+  bitDepth: number
+  frames: number
+  /** Seconds */
+  duration: number
+  /** Byte range of the sample data within the file */
+  dataOffset: number
+  dataLength: number
+}
+
+export const WAV_SAMPLE_RATES = [22050, 44100, 48000]
+export const WAV_BIT_DEPTHS: { value: WavBitDepth; label: string }[] = [
+  { value: 16, label: '16-bit' },
+  { value: 24, label: '24-bit' },
+  { value: 32, label: '32-bit float' }
+]
+export const DEFAULT_WAV_FORMAT: WavFormat = { sampleRate: 44100, bitDepth: 16, channels: 1 }
+
+const WAVE_FORMAT_PCM = 1
+const WAVE_FORMAT_IEEE_FLOAT = 3
+const WAVE_FORMAT_EXTENSIBLE = 0xfffe
+
+/**
+ * Encode mono float samples as a WAV file; stereo output carries the same signal on both channels
+ * Tags go in an "id3 " chunk after the audio, where players that read WAV metadata look for them
+ */
+export function encodeWav(
+  samples: Float32Array,
+  sampleRate: number,
+  { bitDepth = 16, channels = 1 }: Partial<Omit<WavFormat, 'sampleRate'>> = {},
+  tags?: AudioTags
+): ArrayBuffer {
+  const float = bitDepth === 32
+  const bytesPerSample = bitDepth / 8
+  const blockAlign = channels * bytesPerSample
+  const dataLength = samples.length * blockAlign
+  // Float files need the extended fmt chunk and a fact chunk holding the frame count
+  const fmtLength = float ? 18 : 16
+  const headerLength = 20 + fmtLength + (float ? 12 : 0) + 8
+  // Chunks are padded to an even length
+  const padding = dataLength & 1
+  const id3 = tags ? encodeId3v2(tags) : null
+  const id3Length = id3 ? 8 + id3.length + (id3.length & 1) : 0
+  const buffer = new ArrayBuffer(headerLength + dataLength + padding + id3Length)
+  const view = new DataView(buffer)
+
+  writeString(view, 0, 'RIFF')
+  view.setUint32(4, buffer.byteLength - 8, true)
+  writeString(view, 8, 'WAVE')
+  writeString(view, 12, 'fmt ')
+  view.setUint32(16, fmtLength, true)
+  view.setUint16(20, float ? WAVE_FORMAT_IEEE_FLOAT : WAVE_FORMAT_PCM, true)
+  view.setUint16(22, channels, true)
+  view.setUint32(24, sampleRate, true)
+  view.setUint32(28, sampleRate * blockAlign, true)
+  view.setUint16(32, blockAlign, true)
+  view.setUint16(34, bitDepth, true)
+
+  let offset = 20 + fmtLength
+  if (float) {
+    view.setUint16(36, 0, true)
+    writeString(view, offset, 'fact')
+    view.setUint32(offset + 4, 4, true)
+    view.setUint32(offset + 8, samples.length, true)
+    offset += 12
+  }
+  writeString(view, offset, 'data')
+  view.setUint32(offset + 4, dataLength, true)
+  offset += 8
+
+  for (let i = 0; i < samples.length; i++) {
+    for (let channel = 0; channel < channels; channel++, offset += bytesPerSample) {
+      writeSample(view, offset, samples[i], bitDepth)
+    }
+  }
+
+  if (id3) {
+    offset += padding
+    writeString(view, offset, 'id3 ')
+    view.setUint32(offset + 4, id3.length, true)
+    new Uint8Array(buffer).set(id3, offset + 8)
+  }
+
+  return buffer
+}
+
+/**
+ * Resample and encode a take in the requested download format
+ */
+export function encodeWavFile(samples: Float32Array, sampleRate: number, format: WavFormat, tags?: AudioTags): ArrayBuffer {
+  return encodeWav(resample(samples, sampleRate, format.sampleRate), format.sampleRate, format, tags)
+}
+
+/**
+ * Encode mono float samples as a base64 16-bit WAV data URL
+ */
+export function encodeWavDataUrl(samples: Float32Array, sampleRate: number): string {
+  return `data:audio/wav;base64,${arrayBufferToBase64(encodeWav(samples, sampleRate))}`
+}
+
+/**
+ * Parse the RIFF chunks of a WAV file; throws when the file is not a WAV this module can read
+ */
+export function parseWavHeader(buffer: ArrayBuffer): WavInfo {
+  const view = new DataView(buffer)
+  if (buffer.byteLength < 12 || readString(view, 0, 4) !== 'RIFF' || readString(view, 8, 4) !== 'WAVE') {
+    throw new Error('Not a WAV file')
+  }
+
+  let format: Omit<WavInfo, 'frames' | 'duration' | 'dataOffset' | 'dataLength'> | null = null
+  let offset = 12
+  while (offset + 8 <= buffer.byteLength) {
+    const id = readString(view, offset, 4)
+    const size = view.getUint32(offset + 4, true)
+    const body = offset + 8
+
+    if (id === 'fmt ') {
+      if (size < 16 || body + 16 > buffer.byteLength) throw new Error('Truncated format chunk')
+      let tag = view.getUint16(body, true)
+      // Extensible headers keep the real format in the first two bytes of the sub-format GUID
+      if (tag === WAVE_FORMAT_EXTENSIBLE && size >= 40) tag = view.getUint16(body + 24, true)
+
+      const bitDepth = view.getUint16(body + 14, true)
+      const encoding = tag === WAVE_FORMAT_PCM ? 'pcm' : tag === WAVE_FORMAT_IEEE_FLOAT ? 'float' : null
+      if (!encoding) throw new Error(`Unsupported WAV encoding (format tag ${tag})`)
+      if (encoding === 'pcm' ? ![8, 16, 24, 32].includes(bitDepth) : ![32, 64].includes(bitDepth)) {
+        throw new Error(`Unsupported ${bitDepth}-bit ${encoding === 'pcm' ? 'PCM' : 'float'} WAV`)
+      }
+
+      format = {
+        encoding,
+        sampleRate: view.getUint32(body + 4, true),
+        channels: view.getUint16(body + 2, true),
+        bitDepth
+      }
+      if (!format.channels || !format.sampleRate) throw new Error('WAV header has no channels or sample rate')
+    } else if (id === 'data') {
+      if (!format) throw new Error('WAV file has no format chunk')
+      // Streaming writers may leave the size unset, so never read past the end of the file
+      const dataLength = Math.min(size, buffer.byteLength - body)
+      const frames = Math.floor(dataLength / (format.channels * format.bitDepth / 8))
+      return { ...format, frames, duration: frames / format.sampleRate, dataOffset: body, dataLength }
+    }
+
+    offset = body + size + (size & 1)
+  }
+
+  throw new Error('WAV file has no audio data')
+}
+
+/**
+ * Read every channel of a WAV file as float samples
+ */
+export function decodeWavChannels(buffer: ArrayBuffer): { channels: Float32Array[]; info: WavInfo } {
+  const info = parseWavHeader(buffer)
+  const view = new DataView(buffer)
+  const bytesPerSample = info.bitDepth / 8
+  const channels = Array.from({ length: info.channels }, () => new Float32Array(info.frames))
+
+  let offset = info.dataOffset
+  for (let i = 0; i < info.frames; i++) {
+    for (let channel = 0; channel < info.channels; channel++, offset += bytesPerSample) {
+      channels[channel][i] = readSample(view, offset, info.encoding, info.bitDepth)
+    }
+  }
+
+  return { channels, info }
+}
+
+/**
+ * Read a WAV file as mono, mixing multichannel audio down
+ */
+export function decodeWav(buffer: ArrayBuffer): { samples: Float32Array; sampleRate: number } {
+  const { channels, info } = decodeWavChannels(buffer)
+  if (channels.length === 1) return { samples: channels[0], sampleRate: info.sampleRate }
+
+  const samples = new Float32Array(info.frames)
+  for (const channel of channels) {
+    for (let i = 0; i < samples.length; i++) {
+      samples[i] += channel[i] / channels.length
+    }
+  }
+  return { samples, sampleRate: info.sampleRate }
+}
+
+/**
+ * Short description of a WAV format, e.g. "44.1 kHz • 24-bit • stereo"
+ */
+export function describeWavFormat(format: WavFormat | WavInfo): string {
+  const { sampleRate, bitDepth, channels } = format
+  const encoding = 'encoding' in format ? format.encoding : bitDepth === 32 ? 'float' : 'pcm'
+  const layout = channels === 1 ? 'mono' : channels === 2 ? 'stereo' : `${channels} channels`
+  return `${sampleRate / 1000} kHz • ${bitDepth}-bit${encoding === 'float' ? ' float' : ''} • ${layout}`
+}
+
+/**
+ * Raw bytes behind a base64 data URL, such as the ones encodeWavDataUrl produces
+ */
+export function dataUrlToArrayBuffer(url: string): ArrayBuffer {
+  const binary = atob(url.slice(url.indexOf(',') + 1))
+  const bytes = new Uint8Array(binary.length)
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i)
+  }
+  return bytes.buffer
+}
+
+/**
+ * Base64-encode binary data without blowing the call stack on long renders
+ */
+export function arrayBufferToBase64(buffer: ArrayBuffer): string {
+  const bytes = new Uint8Array(buffer)
+  const chunkSize = 0x8000
+  let binary = ''
+
+  for (let i = 0; i < bytes.length; i += chunkSize) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + chunkSize))
+  }
+
+  return btoa(binary)
+}
+
+function writeSample(view: DataView, offset: number, value: number, bitDepth: WavBitDepth): void {
+  if (bitDepth === 32) {
+    // Float keeps any headroom above full scale, so it is not clipped
+    view.setFloat32(offset, value, true)
+    return
+  }
+
+  const sample = Math.max(-1, Math.min(1, value))
+  if (bitDepth === 16) {
+    view.setInt16(offset, sample < 0 ? sample * 0x8000 : sample * 0x7fff, true)
+  } else {
+    const int = Math.round(sample < 0 ? sample * 0x800000 : sample * 0x7fffff)
+    view.setUint8(offset, int & 0xff)
+    view.setUint8(offset + 1, (int >> 8) & 0xff)
+    view.setUint8(offset + 2, (int >> 16) & 0xff)
+  }
+}
+
+function readSample(view: DataView, offset: number, encoding: WavInfo['encoding'], bitDepth: number): number {
+  if (encoding === 'float') {
+    return bitDepth === 64 ? view.getFloat64(offset, true) : view.getFloat32(offset, true)
+  }
+
+  switch (bitDepth) {
+    case 8:
+      return (view.getUint8(offset) - 128) / 128
+    case 16:
+      return view.getInt16(offset, true) / 0x8000
+    case 24:
+      return (((view.getUint8(offset + 2) << 24) | (view.getUint8(offset + 1) << 16) | (view.getUint8(offset) << 8)) >> 8) / 0x800000
+    default:
+      return view.getInt32(offset, true) / 0x80000000
+  }
+}
+
+function writeString(view: DataView, offset: number, value: string): void {
+  for (let i = 0; i < value.length; i++) {
+    view.setUint8(offset + i, value.charCodeAt(i))
+  }
+}
+
+function readString(view: DataView, offset: number, length: number): string {
+  let value = ''
+  for (let i = 0; i < length; i++) {
+    value += String.fromCharCode(view.getUint8(offset + i))
+  }
+  return value
+}
@@ -0,0 +1,150 @@
+/**
+ * WorkerPool - Fixed set of audio workers fed from a FIFO queue
+ * Tasks are cancellable through an AbortSignal and may hand their buffers over instead of copying them
+ */
+
+import type { AudioTaskContext, AudioTaskKind, AudioTaskOf, AudioTaskResults, WorkerRequest, WorkerResponse } from '@/lib/audioTasks'
+
+export interface PoolRunOptions extends AudioTaskContext {
+  /** Buffers to move into the worker; they are unusable on this side afterwards */
+  transfer?: Transferable[]
+}
+
+interface PendingTask {
+  id: number
+  request: WorkerRequest
+  transfer: Transferable[]
+  options: PoolRunOptions
+  resolve: (result: AudioTaskResults[AudioTaskKind]) => void
+  reject: (error: unknown) => void
+}
+
+interface PoolWorker {
+  worker: Worker
+  task: PendingTask | null
+}
+
+export class WorkerPool {
+  private workers: PoolWorker[] = []
+  private queue: PendingTask[] = []
+  private nextId = 1
+
+  constructor(
+    private createWorker: () => Worker,
+    private size = Math.max(1, Math.min(4, (navigator.hardwareConcurrency || 2) - 1))
+  ) {}
+
+  /**
+   * Run a task on the next free worker
+   */
+  run<K extends AudioTaskKind>(task: AudioTaskOf<K>, options: PoolRunOptions = {}): Promise<AudioTaskResults[K]> {
+    return new Promise<AudioTaskResults[AudioTaskKind]>((resolve, reject) => {
+      const { signal } = options
+      if (signal?.aborted) {
+        reject(signal.reason)
+        return
+      }
+
+      const id = this.nextId++
+      // Settling drops the abort listener, so a long-lived signal does not collect one per task
+      const onAbort = () => this.cancel(pending)
+      const pending: PendingTask = {
+        id,
+        request: { type: 'run', id, task },
+        transfer: options.transfer || [],
+        options,
+        resolve: result => {
+          signal?.removeEventListener('abort', onAbort)
+          resolve(result)
+        },
+        reject: error => {
+          signal?.removeEventListener('abort', onAbort)
+          reject(error)
+        }
+      }
+
+      signal?.addEventListener('abort', onAbort, { once: true })
+      this.queue.push(pending)
+      this.drain()
+    }) as Promise<AudioTaskResults[K]>
+  }
+
+  /**
+   * Stop every worker; queued and running tasks are rejected
+   */
+  terminate(): void {
+    const error = new DOMException('Worker pool terminated', 'AbortError')
+    this.queue.splice(0).forEach(task => task.reject(error))
+    this.workers.forEach(({ worker, task }) => {
+      worker.terminate()
+      task?.reject(error)
+    })
+    this.workers = []
+  }
+
+  private drain(): void {
+    while (this.queue.length > 0) {
+      const slot = this.workers.find(entry => !entry.task) || this.spawn()
+      if (!slot) return
+
+      const task = this.queue.shift()!
+      slot.task = task
+      slot.worker.postMessage(task.request, task.transfer)
+    }
+  }
+
+  private spawn(): PoolWorker | null {
+    if (this.workers.length >= this.size) return null
+
+    const entry: PoolWorker = { worker: this.createWorker(), task: null }
+    entry.worker.onmessage = (event: MessageEvent<WorkerResponse>) => this.handleMessage(entry, event.data)
+    entry.worker.onerror = (event) => {
+      // A crashed worker takes its task with it; replace it so the pool keeps its size
+      event.preventDefault()
+      entry.task?.reject(new Error(event.message || 'Audio worker crashed'))
+      entry.worker.terminate()
+      this.workers = this.workers.filter(other => other !== entry)
+      this.drain()
+    }
+    this.workers.push(entry)
+    return entry
+  }
+
+  private handleMessage(entry: PoolWorker, message: WorkerResponse): void {
+    const task = entry.task
+    if (!task || task.id !== message.id) return
+
+    if (message.type === 'progress') {
+      task.options.onProgress?.(message.progress)
+      return
+    }
+
+    entry.task = null
+    if (message.type === 'done') {
+      task.resolve(message.result)
+    } else {
+      const error = message.error.name === 'AbortError'
+        ? new DOMException(message.error.message, 'AbortError')
+        : Object.assign(new Error(message.error.message), { name: message.error.name })
+      task.reject(error)
+    }
+    this.drain()
+  }
+
+  private cancel(task: PendingTask): void {
+    const reason = task.options.signal?.reason ?? new DOMException('Task cancelled', 'AbortError')
+    const queued = this.queue.indexOf(task)
+    if (queued !== -1) {
+      this.queue.splice(queued, 1)
+      task.reject(reason)
+      return
+    }
+
+    const entry = this.workers.find(other => other.task === task)
+    if (entry) {
+      // The worker stays busy until it acknowledges; the caller does not have to wait for that
+      entry.worker.postMessage({ type: 'cancel', id: task.id } satisfies WorkerRequest)
+      task.reject(reason)
+    }
+  }
+}
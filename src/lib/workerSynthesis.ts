@@ -0,0 +1,22 @@
+/**
+ * WorkerSynthesisProvider - The offline engine, run on the audio worker pool
+ * Same output as OfflineSynthesisProvider without blocking the UI during long renders
+ */
+
+import type { SynthesisProvider, SynthesisRequest, SynthesisResult } from '@/lib/synthesisProvider'
+import { audioManager } from '@/lib/audioManager'
+
+export class WorkerSynthesisProvider implements SynthesisProvider {
+  readonly id = 'offline'
+  readonly label = 'Offline (in-browser)'
+  readonly rendersProsody = true
+
+  synthesize({ text, voice, settings, segments, signal, onProgress }: SynthesisRequest): Promise<SynthesisResult> {
+    // App voices carry UI fields and preview audio the engine never reads; only send what it uses
+    const { id, name, category, profile } = voice
+    return audioManager.runTask(
+      { kind: 'synthesize', request: { text, voice: { id, name, category, profile }, settings, segments } },
+      { signal, onProgress }
+    )
+  }
+}